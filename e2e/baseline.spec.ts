@@ -0,0 +1,45 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockChatCompletions, mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('baseline responses: plain answer without tools', async ({ page }) => {
+  await page.goto('/baseline/responses')
+  await sendMessage(page, 'Hello there')
+
+  await expect(page.getByText('This is the mock server. You said: "Hello there"')).toBeVisible()
+  await expect(noToolsHint(page)).toBeVisible()
+  await expect(traceStep(page, 'Response received')).toBeVisible()
+})
+
+test('baseline completions: plain answer without tools', async ({ page }) => {
+  await mockChatCompletions(page, [{ content: 'Hi! How can I help you today?' }])
+  await page.goto('/baseline/completions')
+  await sendMessage(page, 'Hello there')
+
+  await expect(page.getByText('Hi! How can I help you today?')).toBeVisible()
+  await expect(noToolsHint(page)).toBeVisible()
+  await expect(traceStep(page, 'Response received')).toBeVisible()
+})
+
+test('baseline responses: a deleted conversation stays deleted', async ({ page }) => {
+  // Control the save delay, so the second answer is still unsaved when it is deleted
+  await page.clock.install()
+  await page.goto('/baseline/responses')
+  await sendMessage(page, 'Hello there')
+  await expect(page.getByText('This is the mock server. You said: "Hello there"')).toBeVisible()
+  await page.clock.runFor(1000)
+  await expect(page.getByTitle('Delete')).toHaveCount(1)
+
+  await sendMessage(page, 'Hello again')
+  await expect(page.getByText('This is the mock server. You said: "Hello again"')).toBeVisible()
+  await page.getByTitle('Delete').click()
+  await page.clock.runFor(1000)
+
+  await expect(page.getByText('No saved conversations yet.')).toBeVisible()
+  await page.reload()
+  await expect(page.getByText('No saved conversations yet.')).toBeVisible()
+})
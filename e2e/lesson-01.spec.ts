@@ -0,0 +1,50 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockChatCompletions, mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('lesson 01 responses: calls calculate_tip and answers with the result', async ({ page }) => {
+  await page.goto('/lesson-01/responses')
+  await sendMessage(page, 'What is a 15% tip on $80?')
+
+  await expect(page.getByText('tip_amount: 12, total_amount: 92')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'Model requested function call(s)')).toBeVisible()
+  await expect(traceStep(page, 'calculate_tip() returned')).toBeVisible()
+  await expect(traceStep(page, 'Round 1 response received')).toBeVisible()
+})
+
+test('lesson 01 responses: streams the same answer', async ({ page }) => {
+  await page.goto('/lesson-01/responses')
+  await page.getByRole('button', { name: 'Streaming: Off' }).click()
+  await sendMessage(page, 'What is a 15% tip on $80?')
+
+  await expect(page.getByText('tip_amount: 12, total_amount: 92')).toBeVisible()
+  await expect(traceStep(page, 'Arguments complete: calculate_tip()')).toBeVisible()
+})
+
+test('lesson 01 responses: answers small talk without tools', async ({ page }) => {
+  await page.goto('/lesson-01/responses')
+  await sendMessage(page, 'Hello')
+
+  await expect(page.getByText('You said: "Hello"')).toBeVisible()
+  await expect(noToolsHint(page)).toBeVisible()
+  await expect(traceStep(page, 'Model responded (no tool calls)')).toBeVisible()
+})
+
+test('lesson 01 completions: calls calculate_tip and answers with the result', async ({ page }) => {
+  await mockChatCompletions(page, [
+    { toolCalls: [{ name: 'calculate_tip', arguments: { bill_amount: 80, tip_percentage: 15 } }] },
+    { content: 'A 15% tip on $80 is $12.00, for a total of $92.00.' },
+  ])
+  await page.goto('/lesson-01/completions')
+  await sendMessage(page, 'What is a 15% tip on $80?')
+
+  await expect(page.getByText('A 15% tip on $80 is $12.00, for a total of $92.00.')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'Model requested tool call(s)')).toBeVisible()
+  await expect(traceStep(page, 'calculate_tip() returned')).toBeVisible()
+})
@@ -0,0 +1,29 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockChatCompletions, mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('lesson 02 responses: geocodes a landmark with Nominatim', async ({ page }) => {
+  await page.goto('/lesson-02/responses')
+  await sendMessage(page, 'Where is the Eiffel Tower?')
+
+  await expect(page.getByText('location: Eiffel Tower, latitude: 48.8566, longitude: 2.3522')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'geocode_location() returned')).toBeVisible()
+})
+
+test('lesson 02 completions: geocodes a landmark with Nominatim', async ({ page }) => {
+  await mockChatCompletions(page, [
+    { toolCalls: [{ name: 'geocode_location', arguments: { location: 'Eiffel Tower' } }] },
+    { content: 'The Eiffel Tower is at 48.8566, 2.3522 in Paris.' },
+  ])
+  await page.goto('/lesson-02/completions')
+  await sendMessage(page, 'Where is the Eiffel Tower?')
+
+  await expect(page.getByText('The Eiffel Tower is at 48.8566, 2.3522 in Paris.')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'geocode_location() returned')).toBeVisible()
+})
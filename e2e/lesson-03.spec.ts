@@ -0,0 +1,32 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockChatCompletions, mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('lesson 03 responses: geocodes, then fetches the weather', async ({ page }) => {
+  await page.goto('/lesson-03/responses')
+  await sendMessage(page, "What's the weather in Paris?")
+
+  await expect(page.getByText('description: Partly cloudy')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'geocode_location() returned')).toBeVisible()
+  await expect(traceStep(page, 'get_current_weather() returned')).toBeVisible()
+  await expect(traceStep(page, 'Round 2 response received')).toBeVisible()
+})
+
+test('lesson 03 completions: geocodes, then fetches the weather', async ({ page }) => {
+  await mockChatCompletions(page, [
+    { toolCalls: [{ name: 'geocode_location', arguments: { location: 'Paris' } }] },
+    { toolCalls: [{ name: 'get_current_weather', arguments: { latitude: 48.8566, longitude: 2.3522 } }] },
+    { content: "It's 18.4 °C and partly cloudy in Paris." },
+  ])
+  await page.goto('/lesson-03/completions')
+  await sendMessage(page, "What's the weather in Paris?")
+
+  await expect(page.getByText("It's 18.4 °C and partly cloudy in Paris.")).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'get_current_weather() returned')).toBeVisible()
+})
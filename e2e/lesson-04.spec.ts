@@ -0,0 +1,38 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockChatCompletions, mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('lesson 04 responses: searches the web and cites the source', async ({ page }) => {
+  await page.goto('/lesson-04/responses')
+  await sendMessage(page, 'Who painted the Mona Lisa?')
+
+  await expect(page.getByRole('link', { name: 'wikipedia.org' })).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'Web search completed by model')).toBeVisible()
+})
+
+test('lesson 04 completions: answers with citations from the search model', async ({ page }) => {
+  const content = 'Leonardo da Vinci painted the Mona Lisa ([wikipedia.org](https://en.wikipedia.org/wiki/Mona_Lisa)).'
+  const link = '([wikipedia.org](https://en.wikipedia.org/wiki/Mona_Lisa))'
+  await mockChatCompletions(page, [
+    {
+      content,
+      annotations: [
+        {
+          type: 'url_citation',
+          url_citation: { url: 'https://en.wikipedia.org/wiki/Mona_Lisa', title: 'Mona Lisa', start_index: content.indexOf(link), end_index: content.indexOf(link) + link.length },
+        },
+      ],
+    },
+  ])
+  await page.goto('/lesson-04/completions')
+  await sendMessage(page, 'Who painted the Mona Lisa?')
+
+  await expect(page.getByText('Leonardo da Vinci painted the Mona Lisa')).toBeVisible()
+  await expect(page.getByRole('link', { name: 'wikipedia.org' })).toBeVisible()
+  await expect(traceStep(page, 'Web search completed by model')).toBeVisible()
+})
@@ -0,0 +1,28 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockChatCompletions, mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('lesson 05 responses: streams a web search answer', async ({ page }) => {
+  await page.goto('/lesson-05/responses')
+  await sendMessage(page, 'Who painted the Mona Lisa?')
+
+  await expect(page.getByText('what the web says about "Who painted the Mona Lisa?"')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'Web search completed')).toBeVisible()
+  await expect(traceStep(page, 'Response complete')).toBeVisible()
+})
+
+test('lesson 05 completions: streams the answer chunk by chunk', async ({ page }) => {
+  await mockChatCompletions(page, [{ content: 'Leonardo da Vinci painted the Mona Lisa.' }])
+  await page.goto('/lesson-05/completions')
+  await sendMessage(page, 'Who painted the Mona Lisa?')
+
+  await expect(page.getByText('Leonardo da Vinci painted the Mona Lisa.')).toBeVisible()
+  await expect(noToolsHint(page)).toBeVisible()
+  await expect(traceStep(page, 'Streaming started')).toBeVisible()
+  await expect(traceStep(page, 'Response complete')).toBeVisible()
+})
@@ -0,0 +1,18 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('lesson 06 responses: lists and calls the MCP server tools', async ({ page }) => {
+  await page.goto('/lesson-06/responses')
+  await sendMessage(page, 'Find flights from New York to London')
+
+  await expect(page.getByText('origin: JFK (New York), destination: LHR (London)')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'MCP tools listed')).toBeVisible()
+  await expect(traceStep(page, 'MCP tool call completed')).toBeVisible()
+  await expect(traceStep(page, 'Response complete')).toBeVisible()
+})
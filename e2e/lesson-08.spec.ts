@@ -0,0 +1,28 @@
+import { expect, test } from '@playwright/test'
+import { noToolsHint, sendMessage, traceStep } from './support/chat.ts'
+import { mockNetwork } from './support/mocks.ts'
+
+test.beforeEach(async ({ page }) => {
+  await mockNetwork(page)
+})
+
+test('lesson 08 responses: answers without tools when no server is connected', async ({ page }) => {
+  await page.goto('/lesson-08/responses')
+  await sendMessage(page, 'Hello')
+
+  await expect(page.getByText('You said: "Hello"')).toBeVisible()
+  await expect(noToolsHint(page)).toBeVisible()
+  await expect(traceStep(page, 'Model responded (no tool calls)')).toBeVisible()
+})
+
+test('lesson 08 responses: calls a tool on the local MCP server', async ({ page }) => {
+  await page.goto('/lesson-08/responses')
+  await page.getByRole('button', { name: 'Connect' }).click()
+  await expect(page.getByRole('button', { name: 'Disconnect' })).toBeVisible()
+
+  await sendMessage(page, 'Where is Paris?')
+
+  await expect(page.getByText('display_name: Paris, Île-de-France')).toBeVisible()
+  await expect(noToolsHint(page)).toBeHidden()
+  await expect(traceStep(page, 'geocode_location() returned')).toBeVisible()
+})
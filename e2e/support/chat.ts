@@ -0,0 +1,24 @@
+/**
+ * Page helpers shared by the lesson specs
+ */
+
+import type { Page } from '@playwright/test'
+
+/** The hint `ChatArea` shows under an answer that used no tools. */
+export const NO_TOOLS_HINT = '(No tools were used for this answer.)'
+
+/** Type a prompt into `ChatInput` and send it with Enter. */
+export async function sendMessage(page: Page, text: string) {
+  await page.getByPlaceholder('Type your message...').fill(text)
+  await page.getByPlaceholder('Type your message...').press('Enter')
+}
+
+/** A step in the `InspectorPanels` trace, by its label. */
+export function traceStep(page: Page, label: string | RegExp) {
+  return page.getByRole('heading', { level: 4, name: label })
+}
+
+/** The hint under the latest answer; tests assert it is visible or hidden. */
+export function noToolsHint(page: Page) {
+  return page.getByText(NO_TOOLS_HINT)
+}
@@ -0,0 +1,154 @@
+/**
+ * Network stand-ins for the end-to-end tests
+ *
+ * Requests leaving the app are intercepted with `page.route`:
+ * - `/v1/responses` — answered by the mock Responses API's scenarios (`server/mock-openai`)
+ * - `/v1/chat/completions` — scripted replies passed in by each test, in order
+ * - Nominatim and Open-Meteo — a fixed result for Paris
+ * - anything else outside localhost — aborted, so a test never reaches the network
+ */
+
+import type { Page, Route } from '@playwright/test'
+import type OpenAI from 'openai'
+import { toResponseEvents, toServerSentEvent } from '../../server/mock-openai/events.ts'
+import { createMockResponse, MockApiError } from '../../server/mock-openai/responses.ts'
+
+/** The browser calls these APIs cross-origin, so fulfilled responses need CORS headers too. */
+const CORS_HEADERS = { 'access-control-allow-origin': '*' }
+
+export const PARIS_GEOCODE = { lat: '48.8566', lon: '2.3522', display_name: 'Paris, Île-de-France, France' }
+
+export const PARIS_WEATHER = {
+  current: { temperature_2m: 18.4, relative_humidity_2m: 62, apparent_temperature: 17.9, weather_code: 2, wind_speed_10m: 14.2 },
+}
+
+function fulfillEvents(route: Route, events: string[]) {
+  return route.fulfill({ status: 200, contentType: 'text/event-stream', headers: CORS_HEADERS, body: events.join('') })
+}
+
+/** Abort every request outside localhost; register before the specific mocks (later routes win). */
+export async function blockExternalRequests(page: Page) {
+  await page.route(/^https?:\/\/(?!localhost[:/])/, (route) => route.abort('blockedbyclient'))
+}
+
+/** Answer `/v1/responses` (JSON or streamed) with the mock server's scenarios. */
+export async function mockResponsesApi(page: Page) {
+  await page.route('**/v1/responses', async (route) => {
+    const request = route.request().postDataJSON() as OpenAI.Responses.ResponseCreateParams
+    try {
+      const { response } = await createMockResponse(request)
+      if (request.stream) {
+        await fulfillEvents(route, toResponseEvents(response).map(toServerSentEvent))
+      } else {
+        await route.fulfill({ json: response, headers: CORS_HEADERS })
+      }
+    } catch (error) {
+      if (!(error instanceof MockApiError)) throw error
+      await route.fulfill({ status: error.status, json: error, headers: CORS_HEADERS })
+    }
+  })
+}
+
+/** Fixed geocoding and weather results for the Lesson 02 / 03 tools. */
+export async function mockWeatherApis(page: Page) {
+  await page.route(/nominatim\.openstreetmap\.org\/search/, (route) =>
+    route.fulfill({ json: [PARIS_GEOCODE], headers: CORS_HEADERS })
+  )
+  await page.route(/api\.open-meteo\.com\/v1\/forecast/, (route) =>
+    route.fulfill({ json: PARIS_WEATHER, headers: CORS_HEADERS })
+  )
+}
+
+/** Block the network, then mock the Responses API and the weather APIs. */
+export async function mockNetwork(page: Page) {
+  await blockExternalRequests(page)
+  await mockResponsesApi(page)
+  await mockWeatherApis(page)
+}
+
+// --- Chat Completions ---
+
+/** One scripted Chat Completions answer: text (optionally with citations) or tool calls. */
+export type ChatReply =
+  | { content: string; annotations?: OpenAI.Chat.ChatCompletionMessage.Annotation[] }
+  | { toolCalls: { name: string; arguments: Record<string, unknown> }[] }
+
+function toChatCompletion(model: string, reply: ChatReply, index: number): OpenAI.Chat.ChatCompletion {
+  const toolCalls = 'toolCalls' in reply
+    ? reply.toolCalls.map((call, callIndex) => ({
+        id: `call_e2e_${index}_${callIndex}`,
+        type: 'function' as const,
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      }))
+    : undefined
+  return {
+    id: `chatcmpl-e2e-${index}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        finish_reason: toolCalls ? 'tool_calls' : 'stop',
+        logprobs: null,
+        message: {
+          role: 'assistant',
+          content: 'content' in reply ? reply.content : null,
+          refusal: null,
+          ...('annotations' in reply && { annotations: reply.annotations }),
+          ...(toolCalls && { tool_calls: toolCalls }),
+        },
+      },
+    ],
+    usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+  }
+}
+
+/**
+ * The completion as `chat.completion.chunk` events: text in word-sized deltas,
+ * each tool call as a header chunk followed by its arguments, then `[DONE]`.
+ */
+function toChunkEvents(completion: OpenAI.Chat.ChatCompletion, includeUsage: boolean) {
+  const { id, created, model } = completion
+  const { message, finish_reason } = completion.choices[0]
+  const chunk = (delta: OpenAI.Chat.ChatCompletionChunk.Choice.Delta, finishReason: typeof finish_reason | null = null) =>
+    ({ id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }] }) satisfies OpenAI.Chat.ChatCompletionChunk
+
+  const chunks: object[] = [
+    chunk({ role: 'assistant', content: '' }),
+    ...(message.content?.match(/\S+\s*|\s+/g) ?? []).map((content) => chunk({ content })),
+    ...(message.tool_calls ?? []).flatMap((toolCall, index) =>
+      toolCall.type === 'function'
+        ? [
+            chunk({ tool_calls: [{ index, id: toolCall.id, type: 'function', function: { name: toolCall.function.name, arguments: '' } }] }),
+            chunk({ tool_calls: [{ index, function: { arguments: toolCall.function.arguments } }] }),
+          ]
+        : []
+    ),
+    chunk({}, finish_reason),
+    ...(includeUsage ? [{ id, object: 'chat.completion.chunk', created, model, choices: [], usage: completion.usage }] : []),
+  ]
+  return [...chunks.map((data) => `data: ${JSON.stringify(data)}\n\n`), 'data: [DONE]\n\n']
+}
+
+/**
+ * Answer `/v1/chat/completions` requests with `replies`, one per request in order.
+ * Streaming requests get the same answer as chunks.
+ */
+export async function mockChatCompletions(page: Page, replies: ChatReply[]) {
+  let index = 0
+  await page.route('**/v1/chat/completions', async (route) => {
+    const request = route.request().postDataJSON() as OpenAI.Chat.ChatCompletionCreateParams
+    const reply = replies[index]
+    if (!reply) {
+      await route.fulfill({ status: 500, json: { error: { message: `No scripted reply for request ${index + 1}` } }, headers: CORS_HEADERS })
+      return
+    }
+    const completion = toChatCompletion(request.model, reply, index++)
+    if (request.stream) {
+      await fulfillEvents(route, toChunkEvents(completion, Boolean(request.stream_options?.include_usage)))
+    } else {
+      await route.fulfill({ json: completion, headers: CORS_HEADERS })
+    }
+  })
+}
@@ -0,0 +1,40 @@
+import { defineConfig, devices } from '@playwright/test'
+
+/**
+ * End-to-end tests for the lesson pages
+ * Docs: https://playwright.dev/docs/test-configuration
+ *
+ * Run: `npm run test:e2e` (first time: `npx playwright install chromium`)
+ *
+ * The tests start their own dev server and the local MCP server (Lesson 08).
+ * OpenAI, Nominatim and Open-Meteo requests are intercepted in the browser
+ * (see `e2e/support/mocks.ts`), so no API key or network access is needed.
+ */
+
+const PORT = 5174
+
+export default defineConfig({
+  testDir: './e2e',
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: 'list',
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    trace: 'retain-on-failure',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+  webServer: [
+    {
+      command: `npm run dev -- --port ${PORT} --strictPort`,
+      url: `http://localhost:${PORT}`,
+      reuseExistingServer: !process.env.CI,
+      // Override any local `.env`: a stand-in key, live mode, the default base URL, no proxy
+      env: { VITE_OPENAI_API_KEY: 'sk-e2e-test', VITE_OPENAI_MODE: 'live', VITE_OPENAI_BASE_URL: '', VITE_OPENAI_PROXY_URL: '', OPENAI_API_KEY: '' },
+    },
+    {
+      command: 'npm run mcp-server',
+      port: 3001,
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
+})
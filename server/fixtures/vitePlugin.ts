@@ -0,0 +1,71 @@
+/**
+ * Dev-server storage for recorded OpenAI fixtures
+ *
+ * Record / replay mode (`VITE_OPENAI_MODE`, see `src/lib/openaiClient.ts`)
+ * runs in the browser, which can't write files, so the Vite dev server keeps
+ * the fixtures for it:
+ * - `GET /__openai-fixtures/<key>` — the fixture, or 404 when none was recorded
+ * - `PUT /__openai-fixtures/<key>` — writes `fixtures/openai/<key>.json`
+ *
+ * Commit the fixture files to share recordings; replay needs nothing else.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Plugin } from 'vite'
+
+const ROUTE = '/__openai-fixtures/'
+/** Fixture keys are hex digests; anything else is refused so paths can't escape the directory */
+const KEY_PATTERN = /^[0-9a-f]{8,64}$/
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function send(res: ServerResponse, status: number, body?: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(body ?? JSON.stringify({ status }))
+}
+
+export function openaiFixtures(dir = 'fixtures/openai'): Plugin {
+  let fixturesDir = dir
+
+  return {
+    name: 'openai-fixtures',
+    apply: 'serve',
+    // Writing a fixture shouldn't trigger a page reload
+    config: () => ({ server: { watch: { ignored: [`**/${dir}/**`] } } }),
+    configResolved(config) {
+      fixturesDir = path.resolve(config.root, dir)
+    },
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        if (!req.url?.startsWith(ROUTE)) return next()
+
+        const key = req.url.slice(ROUTE.length)
+        if (!KEY_PATTERN.test(key)) return send(res, 400)
+        const file = path.join(fixturesDir, `${key}.json`)
+
+        try {
+          if (req.method === 'GET') {
+            return send(res, 200, await readFile(file, 'utf8'))
+          }
+          if (req.method === 'PUT') {
+            const fixture = JSON.parse(await readBody(req))
+            await mkdir(fixturesDir, { recursive: true })
+            await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`)
+            return send(res, 204)
+          }
+          send(res, 405)
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return send(res, 404)
+          server.config.logger.error(`[openai-fixtures] ${(error as Error).message}`)
+          send(res, 500)
+        }
+      })
+    },
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Fixture data for the local MCP server
+ *
+ * Static stand-ins for the live APIs used by the lessons (Nominatim geocoding,
+ * Open-Meteo weather) plus a small flight timetable, so every tool answers
+ * deterministically and without network access.
+ */
+
+export interface CityFixture {
+  name: string
+  country: string
+  /** Main airport IATA code */
+  airport: string
+  latitude: number
+  longitude: number
+  display_name: string
+  /** Other names the city is searched by (lower case) */
+  aliases: string[]
+  weather: {
+    temperature_celsius: number
+    feels_like_celsius: number
+    humidity_percent: number
+    description: string
+    wind_speed_kmh: number
+  }
+}
+
+export const CITIES: CityFixture[] = [
+  {
+    name: 'New York',
+    country: 'United States',
+    airport: 'JFK',
+    latitude: 40.7127,
+    longitude: -74.006,
+    display_name: 'City of New York, New York, United States',
+    aliases: ['nyc', 'new york city', 'manhattan'],
+    weather: { temperature_celsius: 18.4, feels_like_celsius: 17.9, humidity_percent: 62, description: 'Partly cloudy', wind_speed_kmh: 14.2 },
+  },
+  {
+    name: 'San Francisco',
+    country: 'United States',
+    airport: 'SFO',
+    latitude: 37.7793,
+    longitude: -122.4193,
+    display_name: 'San Francisco, California, United States',
+    aliases: ['sf', 'san fran'],
+    weather: { temperature_celsius: 15.1, feels_like_celsius: 14.0, humidity_percent: 78, description: 'Foggy', wind_speed_kmh: 21.6 },
+  },
+  {
+    name: 'London',
+    country: 'United Kingdom',
+    airport: 'LHR',
+    latitude: 51.5074,
+    longitude: -0.1278,
+    display_name: 'London, Greater London, England, United Kingdom',
+    aliases: ['greater london'],
+    weather: { temperature_celsius: 12.7, feels_like_celsius: 11.2, humidity_percent: 81, description: 'Slight rain', wind_speed_kmh: 18.0 },
+  },
+  {
+    name: 'Paris',
+    country: 'France',
+    airport: 'CDG',
+    latitude: 48.8589,
+    longitude: 2.32,
+    display_name: 'Paris, Île-de-France, France métropolitaine, France',
+    aliases: ['eiffel tower'],
+    weather: { temperature_celsius: 14.3, feels_like_celsius: 13.5, humidity_percent: 70, description: 'Overcast', wind_speed_kmh: 11.5 },
+  },
+  {
+    name: 'Tokyo',
+    country: 'Japan',
+    airport: 'HND',
+    latitude: 35.6769,
+    longitude: 139.7639,
+    display_name: 'Tokyo, Japan',
+    aliases: ['東京'],
+    weather: { temperature_celsius: 22.9, feels_like_celsius: 23.4, humidity_percent: 66, description: 'Mainly clear', wind_speed_kmh: 9.4 },
+  },
+  {
+    name: 'Sydney',
+    country: 'Australia',
+    airport: 'SYD',
+    latitude: -33.8698,
+    longitude: 151.2083,
+    display_name: 'Sydney, New South Wales, Australia',
+    aliases: ['sydney opera house'],
+    weather: { temperature_celsius: 24.6, feels_like_celsius: 25.1, humidity_percent: 55, description: 'Clear sky', wind_speed_kmh: 16.8 },
+  },
+  {
+    name: 'Berlin',
+    country: 'Germany',
+    airport: 'BER',
+    latitude: 52.5108,
+    longitude: 13.3989,
+    display_name: 'Berlin, Germany',
+    aliases: [],
+    weather: { temperature_celsius: 10.2, feels_like_celsius: 8.1, humidity_percent: 74, description: 'Moderate rain showers', wind_speed_kmh: 24.1 },
+  },
+]
+
+export interface FlightFixture {
+  flight_number: string
+  airline: string
+  origin: string
+  destination: string
+  /** Local departure / arrival times (HH:MM); the timetable repeats daily */
+  departure_time: string
+  arrival_time: string
+  duration_minutes: number
+  stops: number
+  price_usd: number
+}
+
+export const FLIGHTS: FlightFixture[] = [
+  { flight_number: 'BA178', airline: 'British Airways', origin: 'JFK', destination: 'LHR', departure_time: '19:30', arrival_time: '07:35', duration_minutes: 425, stops: 0, price_usd: 642 },
+  { flight_number: 'VS4', airline: 'Virgin Atlantic', origin: 'JFK', destination: 'LHR', departure_time: '22:00', arrival_time: '10:05', duration_minutes: 425, stops: 0, price_usd: 598 },
+  { flight_number: 'AF7', airline: 'Air France', origin: 'JFK', destination: 'CDG', departure_time: '17:15', arrival_time: '06:40', duration_minutes: 445, stops: 0, price_usd: 615 },
+  { flight_number: 'UA901', airline: 'United Airlines', origin: 'SFO', destination: 'LHR', departure_time: '16:40', arrival_time: '10:50', duration_minutes: 610, stops: 0, price_usd: 889 },
+  { flight_number: 'NH7', airline: 'ANA', origin: 'SFO', destination: 'HND', departure_time: '11:20', arrival_time: '15:25', duration_minutes: 665, stops: 0, price_usd: 1104 },
+  { flight_number: 'B6915', airline: 'JetBlue', origin: 'JFK', destination: 'SFO', departure_time: '08:00', arrival_time: '11:29', duration_minutes: 389, stops: 0, price_usd: 279 },
+  { flight_number: 'AA1739', airline: 'American Airlines', origin: 'JFK', destination: 'SFO', departure_time: '13:55', arrival_time: '20:10', duration_minutes: 495, stops: 1, price_usd: 214 },
+  { flight_number: 'BA304', airline: 'British Airways', origin: 'LHR', destination: 'CDG', departure_time: '09:10', arrival_time: '11:25', duration_minutes: 75, stops: 0, price_usd: 132 },
+  { flight_number: 'LH2481', airline: 'Lufthansa', origin: 'LHR', destination: 'BER', departure_time: '12:05', arrival_time: '14:55', duration_minutes: 110, stops: 0, price_usd: 158 },
+  { flight_number: 'JL44', airline: 'Japan Airlines', origin: 'HND', destination: 'LHR', departure_time: '10:35', arrival_time: '16:05', duration_minutes: 870, stops: 0, price_usd: 1236 },
+  { flight_number: 'QF1', airline: 'Qantas', origin: 'SYD', destination: 'LHR', departure_time: '15:55', arrival_time: '06:00', duration_minutes: 1445, stops: 1, price_usd: 1689 },
+  { flight_number: 'QF25', airline: 'Qantas', origin: 'SYD', destination: 'HND', departure_time: '21:15', arrival_time: '05:30', duration_minutes: 615, stops: 0, price_usd: 874 },
+]
@@ -0,0 +1,104 @@
+/**
+ * Local MCP server — fixture flights, weather and geocoding tools
+ *
+ * Run: `npm run mcp-server` (PORT defaults to 3001)
+ * Transports: https://modelcontextprotocol.io/specification/2025-06-18/basic/transports
+ *
+ * Endpoints:
+ * - `POST /mcp` — Streamable HTTP, stateless (a fresh server per request)
+ * - `GET /sse` + `POST /messages?sessionId=…` — legacy HTTP+SSE transport,
+ *   for clients that have not moved to Streamable HTTP yet
+ *
+ * CORS is open so the Lesson 08 page can connect straight from the browser.
+ * The hosted `mcp` tool (Lesson 06) cannot reach localhost; expose the server
+ * through a tunnel if you want OpenAI to call it.
+ */
+
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { createFixtureMcpServer } from './tools.ts'
+
+const PORT = Number(process.env.PORT ?? 3001)
+
+/** Open SSE sessions, keyed by the session id sent back on `/messages` */
+const sseSessions = new Map<string, SSEServerTransport>()
+
+function setCorsHeaders(res: ServerResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, Last-Event-ID, Mcp-Session-Id, Mcp-Protocol-Version')
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id')
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }))
+}
+
+async function handleStreamableHttp(req: IncomingMessage, res: ServerResponse) {
+  // Stateless mode has no server-initiated stream to resume or session to end
+  if (req.method !== 'POST') {
+    sendJsonError(res, 405, 'Method not allowed.')
+    return
+  }
+
+  const server = createFixtureMcpServer()
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined })
+  res.on('close', () => {
+    void transport.close()
+    void server.close()
+  })
+  await server.connect(transport)
+  await transport.handleRequest(req, res)
+}
+
+async function handleSseConnect(res: ServerResponse) {
+  const transport = new SSEServerTransport('/messages', res)
+  sseSessions.set(transport.sessionId, transport)
+  res.on('close', () => sseSessions.delete(transport.sessionId))
+  await createFixtureMcpServer().connect(transport)
+}
+
+async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+  const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '')
+  if (!transport) {
+    sendJsonError(res, 404, 'Unknown SSE session.')
+    return
+  }
+  await transport.handlePostMessage(req, res)
+}
+
+const httpServer = createServer(async (req, res) => {
+  setCorsHeaders(res)
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end()
+    return
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+
+  try {
+    if (url.pathname === '/mcp') {
+      await handleStreamableHttp(req, res)
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await handleSseConnect(res)
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await handleSseMessage(req, res, url)
+    } else {
+      sendJsonError(res, 404, `Not found. Use POST /mcp (Streamable HTTP) or GET /sse (HTTP+SSE).`)
+    }
+  } catch (error) {
+    console.error('MCP request failed:', error)
+    if (!res.headersSent) {
+      sendJsonError(res, 500, 'Internal server error')
+    }
+  }
+})
+
+httpServer.listen(PORT, () => {
+  console.log(`MCP fixture server listening on http://localhost:${PORT}`)
+  console.log(`  Streamable HTTP: http://localhost:${PORT}/mcp`)
+  console.log(`  HTTP+SSE:        http://localhost:${PORT}/sse`)
+})
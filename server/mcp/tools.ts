@@ -0,0 +1,156 @@
+/**
+ * Tools exposed by the local MCP server
+ *
+ * MCP server docs: https://modelcontextprotocol.io/docs/develop/build-server
+ * TypeScript SDK: https://github.com/modelcontextprotocol/typescript-sdk
+ *
+ * Three fixture-backed tools mirror the ones the lessons call over the network:
+ * - geocode_location — city name / landmark → coordinates (Lesson 02)
+ * - get_current_weather — coordinates → current conditions (Lesson 03)
+ * - search_flights — origin / destination → flights from a daily timetable
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import { CITIES, FLIGHTS } from './fixtures.ts'
+import type { CityFixture } from './fixtures.ts'
+
+/** Return a value both as JSON text and as `structuredContent`. */
+function toResult(value: Record<string, unknown>): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(value, null, 2) }],
+    structuredContent: value,
+  }
+}
+
+function toError(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true }
+}
+
+/** Find a fixture city by name, alias or airport code. */
+function findCity(query: string): CityFixture | undefined {
+  const normalized = query.trim().toLowerCase()
+  return CITIES.find(
+    (city) =>
+      city.airport.toLowerCase() === normalized ||
+      city.name.toLowerCase() === normalized ||
+      city.aliases.includes(normalized)
+  ) ?? CITIES.find((city) => normalized.includes(city.name.toLowerCase()))
+}
+
+/** The fixture city closest to a coordinate (equirectangular distance is enough here). */
+function nearestCity(latitude: number, longitude: number) {
+  let nearest = CITIES[0]
+  let nearestDistance = Infinity
+  for (const city of CITIES) {
+    const x = (city.longitude - longitude) * Math.cos(((city.latitude + latitude) / 2) * (Math.PI / 180))
+    const y = city.latitude - latitude
+    const distance = Math.sqrt(x * x + y * y) * 111.32
+    if (distance < nearestDistance) {
+      nearest = city
+      nearestDistance = distance
+    }
+  }
+  return { city: nearest, distance_km: Math.round(nearestDistance) }
+}
+
+/**
+ * Create an MCP server with the fixture tools registered.
+ * A new instance is created per session (or per request in stateless mode).
+ */
+export function createFixtureMcpServer() {
+  const server = new McpServer({ name: 'course-fixtures', version: '1.0.0' })
+
+  server.registerTool(
+    'geocode_location',
+    {
+      title: 'Geocode location',
+      description: `Look up the latitude and longitude of a city or landmark. Fixture data covers: ${CITIES.map((city) => city.name).join(', ')}.`,
+      inputSchema: {
+        location: z.string().describe('The location to geocode — a city name, airport code or landmark'),
+      },
+    },
+    async ({ location }) => {
+      const city = findCity(location)
+      if (!city) {
+        return toError(`No results found for "${location}"`)
+      }
+      return toResult({
+        location,
+        latitude: city.latitude,
+        longitude: city.longitude,
+        display_name: city.display_name,
+      })
+    }
+  )
+
+  server.registerTool(
+    'get_current_weather',
+    {
+      title: 'Current weather',
+      description: 'Get the current weather for a latitude and longitude. Returns temperature, humidity, wind speed and a description.',
+      inputSchema: {
+        latitude: z.number().min(-90).max(90).describe('Latitude of the location'),
+        longitude: z.number().min(-180).max(180).describe('Longitude of the location'),
+        units: z.enum(['celsius', 'fahrenheit']).optional().describe('Temperature units (defaults to celsius)'),
+      },
+    },
+    async ({ latitude, longitude, units = 'celsius' }) => {
+      const { city, distance_km } = nearestCity(latitude, longitude)
+      // Only fixture cities have weather; anything far away is reported as unknown
+      if (distance_km > 100) {
+        return toError(`No weather station within 100 km of ${latitude}, ${longitude}`)
+      }
+      const { temperature_celsius, feels_like_celsius, ...conditions } = city.weather
+      const convert = (celsius: number) => (units === 'fahrenheit' ? Math.round((celsius * 9 / 5 + 32) * 10) / 10 : celsius)
+      return toResult({
+        latitude,
+        longitude,
+        station: city.name,
+        units,
+        temperature: convert(temperature_celsius),
+        feels_like: convert(feels_like_celsius),
+        ...conditions,
+      })
+    }
+  )
+
+  server.registerTool(
+    'search_flights',
+    {
+      title: 'Search flights',
+      description: 'Search scheduled flights from one city or airport to another. Results come from a fixed daily timetable, sorted by price; ' +
+        'each flight lists its `stops`. Only flights that fly the whole route are returned; separate flights are not combined into connections.',
+      inputSchema: {
+        origin: z.string().describe('Departure city or IATA airport code (e.g. "New York" or "JFK")'),
+        destination: z.string().describe('Arrival city or IATA airport code (e.g. "London" or "LHR")'),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Travel date as YYYY-MM-DD'),
+        max_results: z.number().int().min(1).max(10).optional().describe('Maximum number of flights to return (defaults to 5)'),
+      },
+    },
+    async ({ origin, destination, date, max_results = 5 }) => {
+      const from = findCity(origin)
+      const to = findCity(destination)
+      if (!from || !to) {
+        return toError(`Unknown ${!from ? `origin "${origin}"` : `destination "${destination}"`}. Known airports: ${CITIES.map((city) => `${city.airport} (${city.name})`).join(', ')}`)
+      }
+
+      const flights = FLIGHTS
+        .filter((flight) => flight.origin === from.airport && flight.destination === to.airport)
+        .sort((a, b) => a.price_usd - b.price_usd)
+        .slice(0, max_results)
+        .map((flight) => ({ ...flight, ...(date && { date }) }))
+
+      return toResult({
+        origin: `${from.airport} (${from.name})`,
+        destination: `${to.airport} (${to.name})`,
+        ...(date && { date }),
+        flights,
+        ...(flights.length === 0 && { message: 'No flights on this route.' }),
+      })
+    }
+  )
+
+  return server
+}
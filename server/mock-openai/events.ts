@@ -0,0 +1,184 @@
+/**
+ * Response objects and streaming events for the mock Responses API
+ *
+ * API Reference: https://platform.openai.com/docs/api-reference/responses/object
+ * Streaming: https://platform.openai.com/docs/api-reference/responses-streaming
+ *
+ * A scenario produces the finished output items; `toResponseEvents` replays
+ * them as the event sequence the API streams for each item type, ending with
+ * `response.completed` carrying the whole response.
+ */
+
+import type OpenAI from 'openai'
+
+type OutputItem = OpenAI.Responses.ResponseOutputItem
+type StreamEvent = OpenAI.Responses.ResponseStreamEvent
+/** A stream event before `sequence_number` is assigned */
+type UnnumberedEvent = StreamEvent extends infer E ? (E extends StreamEvent ? Omit<E, 'sequence_number'> : never) : never
+
+/** A response as sent over the wire (`output_text` is added by the SDK, not the API). */
+export type WireResponse = Omit<OpenAI.Responses.Response, 'output_text'>
+
+/** Fields of a `responses.create` request that the mock echoes back. */
+export type ResponseRequest = OpenAI.Responses.ResponseCreateParams
+
+let lastId = 0
+
+/** Sequential ids with the API's prefixes (`resp_`, `msg_`, `fc_`, …), unique per server run. */
+export function mockId(prefix: string) {
+  lastId += 1
+  return `${prefix}_mock${String(lastId).padStart(6, '0')}`
+}
+
+export function toResponse(request: ResponseRequest, id: string, output: OutputItem[], status: 'in_progress' | 'completed' = 'completed'): WireResponse {
+  const createdAt = Math.floor(Date.now() / 1000)
+  return {
+    id,
+    object: 'response',
+    created_at: createdAt,
+    status,
+    completed_at: status === 'completed' ? createdAt : null,
+    error: null,
+    incomplete_details: null,
+    instructions: request.instructions ?? null,
+    max_output_tokens: request.max_output_tokens ?? null,
+    metadata: request.metadata ?? {},
+    model: request.model ?? 'gpt-5',
+    output,
+    parallel_tool_calls: request.parallel_tool_calls ?? true,
+    previous_response_id: request.previous_response_id ?? null,
+    reasoning: { effort: request.reasoning?.effort ?? null, summary: null },
+    store: request.store ?? true,
+    temperature: request.temperature ?? 1,
+    text: { format: { type: 'text' } },
+    tool_choice: request.tool_choice ?? 'auto',
+    tools: request.tools ?? [],
+    top_p: request.top_p ?? 1,
+    truncation: 'disabled',
+    usage: status === 'completed' ? usageFor(request, output) : undefined,
+  } as WireResponse
+}
+
+/** Rough token counts (four characters per token) so usage displays look plausible. */
+function usageFor(request: ResponseRequest, output: OutputItem[]): OpenAI.Responses.ResponseUsage {
+  const inputTokens = Math.ceil(JSON.stringify(request.input ?? '').length / 4)
+  const outputTokens = Math.ceil(JSON.stringify(output).length / 4)
+  return {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: outputTokens,
+    output_tokens_details: { reasoning_tokens: 0 },
+    total_tokens: inputTokens + outputTokens,
+  }
+}
+
+/** Split text into word-sized deltas, the way the model streams it. */
+function textChunks(text: string) {
+  return text.match(/\S+\s*|\s+/g) ?? []
+}
+
+/** Split JSON arguments into short deltas. */
+function argumentChunks(args: string, size = 12) {
+  const chunks: string[] = []
+  for (let i = 0; i < args.length; i += size) chunks.push(args.slice(i, i + size))
+  return chunks
+}
+
+/** The item as first announced by `response.output_item.added`, before its content arrives. */
+function inProgressItem(item: OutputItem): OutputItem {
+  switch (item.type) {
+    case 'message':
+      return { ...item, status: 'in_progress', content: [] }
+    case 'function_call':
+      return { ...item, status: 'in_progress', arguments: '' }
+    case 'web_search_call':
+      return { ...item, status: 'in_progress' }
+    case 'mcp_call':
+      return { ...item, status: 'in_progress', arguments: '', output: null, error: null }
+    case 'mcp_list_tools':
+      return { ...item, tools: [] }
+    default:
+      return item
+  }
+}
+
+/** The events the API streams for one output item, between `output_item.added` and `output_item.done`. */
+function itemEvents(item: OutputItem, outputIndex: number): UnnumberedEvent[] {
+  const base = { item_id: item.id ?? '', output_index: outputIndex }
+
+  switch (item.type) {
+    case 'message':
+      return item.content.flatMap((part, contentIndex) => {
+        if (part.type !== 'output_text') return []
+        const position = { ...base, content_index: contentIndex }
+        return [
+          { ...position, type: 'response.content_part.added', part: { ...part, text: '', annotations: [] } },
+          ...textChunks(part.text).map((delta) => ({ ...position, type: 'response.output_text.delta' as const, delta, logprobs: [] })),
+          ...part.annotations.map((annotation, annotationIndex) => ({
+            ...position,
+            type: 'response.output_text.annotation.added' as const,
+            annotation,
+            annotation_index: annotationIndex,
+          })),
+          { ...position, type: 'response.output_text.done', text: part.text, logprobs: [] },
+          { ...position, type: 'response.content_part.done', part },
+        ]
+      })
+
+    case 'function_call':
+      return [
+        ...argumentChunks(item.arguments).map((delta) => ({ ...base, type: 'response.function_call_arguments.delta' as const, delta })),
+        { ...base, type: 'response.function_call_arguments.done', name: item.name, arguments: item.arguments },
+      ]
+
+    case 'web_search_call':
+      return [
+        { ...base, type: 'response.web_search_call.in_progress' },
+        { ...base, type: 'response.web_search_call.searching' },
+        { ...base, type: 'response.web_search_call.completed' },
+      ]
+
+    case 'mcp_list_tools':
+      return [
+        { ...base, type: 'response.mcp_list_tools.in_progress' },
+        { ...base, type: 'response.mcp_list_tools.completed' },
+      ]
+
+    case 'mcp_call':
+      return [
+        { ...base, type: 'response.mcp_call.in_progress' },
+        ...argumentChunks(item.arguments).map((delta) => ({ ...base, type: 'response.mcp_call_arguments.delta' as const, delta })),
+        { ...base, type: 'response.mcp_call_arguments.done', arguments: item.arguments },
+        { ...base, type: item.error ? 'response.mcp_call.failed' : 'response.mcp_call.completed' },
+      ]
+
+    default:
+      return []
+  }
+}
+
+/**
+ * The full event stream for a finished response:
+ * `response.created`, `response.in_progress`, each item's events, then `response.completed`.
+ */
+export function toResponseEvents(response: WireResponse): StreamEvent[] {
+  // Event payloads are typed with the SDK's `Response`, which includes the SDK-computed `output_text`
+  const completed = response as OpenAI.Responses.Response
+  const pending = { ...completed, status: 'in_progress', completed_at: null, output: [], usage: undefined } as OpenAI.Responses.Response
+  const events: UnnumberedEvent[] = [
+    { type: 'response.created', response: pending },
+    { type: 'response.in_progress', response: pending },
+    ...response.output.flatMap((item, outputIndex) => [
+      { type: 'response.output_item.added' as const, output_index: outputIndex, item: inProgressItem(item) },
+      ...itemEvents(item, outputIndex),
+      { type: 'response.output_item.done' as const, output_index: outputIndex, item },
+    ]),
+    { type: 'response.completed', response: completed },
+  ]
+  return events.map((event, sequenceNumber) => ({ ...event, sequence_number: sequenceNumber }) as StreamEvent)
+}
+
+/** Format an event for a `text/event-stream` body. */
+export function toServerSentEvent(event: StreamEvent) {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
@@ -0,0 +1,118 @@
+/**
+ * Mock OpenAI Responses API — scripted answers, no network or API key needed
+ *
+ * Run: `npm run mock-openai` (PORT defaults to 3002), then start the app with
+ * `VITE_OPENAI_BASE_URL=http://localhost:3002/v1` so the pages' `OpenAI`
+ * client talks to this server instead (see `src/lib/openaiClient.ts`).
+ * API Reference: https://platform.openai.com/docs/api-reference/responses
+ *
+ * Endpoints:
+ * - `POST /v1/responses` — a JSON response, or server-sent events with `stream: true`
+ * - `GET /v1/responses/:id` — a stored response
+ * - `GET /v1/models` — a fixed model list, for the API key check
+ *
+ * Each request is answered by the first matching scripted scenario (see
+ * `scenarios.ts`). Responses are kept in memory, so `previous_response_id`
+ * chains (Lessons 01–03 chain mode, Lesson 06 approvals) work as with the API.
+ * Set `STREAM_DELAY_MS` to slow streaming down or speed it up (default 20).
+ */
+
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { toResponseEvents, toServerSentEvent } from './events.ts'
+import type { ResponseRequest, WireResponse } from './events.ts'
+import { createMockResponse, getMockResponse, MockApiError } from './responses.ts'
+
+const PORT = Number(process.env.PORT ?? 3002)
+const STREAM_DELAY_MS = Number(process.env.STREAM_DELAY_MS ?? 20)
+
+/** Models listed by `GET /v1/models`, with a few the lessons can't use mixed in. */
+const MODEL_IDS = ['gpt-5', 'gpt-5-mini', 'gpt-5-nano', 'gpt-4.1', 'gpt-4o-mini', 'o4-mini', 'gpt-4o-audio-preview', 'text-embedding-3-small', 'whisper-1']
+/** Sent with the model list like the API does; the browser may only read exposed headers. */
+const ACCOUNT_HEADERS = { 'openai-organization': 'mock-organization', 'openai-project': 'proj_mock' }
+
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+  // The SDK sends its own `x-stainless-*` headers; allow whatever the preflight asks for
+  res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] ?? '*')
+  res.setHeader('Access-Control-Expose-Headers', Object.keys(ACCOUNT_HEADERS).join(', '))
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readJson(req: IncomingMessage): Promise<ResponseRequest> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    throw new MockApiError(400, 'We could not parse the JSON body of your request.')
+  }
+}
+
+/** Send the response as server-sent events, paced like a real stream. */
+async function streamResponse(req: IncomingMessage, res: ServerResponse, response: WireResponse) {
+  let closed = false
+  req.on('close', () => {
+    closed = true
+  })
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' })
+  for (const event of toResponseEvents(response)) {
+    if (closed) return
+    res.write(toServerSentEvent(event))
+    await new Promise((resolve) => setTimeout(resolve, STREAM_DELAY_MS))
+  }
+  res.end()
+}
+
+const httpServer = createServer(async (req, res) => {
+  setCorsHeaders(req, res)
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end()
+    return
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+  const retrieveMatch = url.pathname.match(/^\/v1\/responses\/([^/]+)$/)
+
+  try {
+    if (url.pathname === '/v1/responses' && req.method === 'POST') {
+      const request = await readJson(req)
+      const { response, scenario } = await createMockResponse(request)
+      console.log(`${response.id}: ${scenario} → ${response.output.map((item) => item.type).join(', ')}`)
+      if (request.stream) {
+        await streamResponse(req, res, response)
+      } else {
+        sendJson(res, 200, response)
+      }
+    } else if (retrieveMatch && req.method === 'GET') {
+      sendJson(res, 200, getMockResponse(retrieveMatch[1]))
+    } else if (url.pathname === '/v1/models' && req.method === 'GET') {
+      for (const [name, value] of Object.entries(ACCOUNT_HEADERS)) res.setHeader(name, value)
+      const created = Math.floor(Date.now() / 1000)
+      sendJson(res, 200, { object: 'list', data: MODEL_IDS.map((id) => ({ id, object: 'model', created, owned_by: 'openai' })) })
+    } else {
+      throw new MockApiError(404, `The mock server only implements POST /v1/responses, GET /v1/responses/:id and GET /v1/models (got ${req.method} ${url.pathname}).`)
+    }
+  } catch (error) {
+    if (error instanceof MockApiError) {
+      sendJson(res, error.status, error)
+      return
+    }
+    console.error('Mock request failed:', error)
+    if (!res.headersSent) {
+      const failure = new MockApiError(500, 'The mock server failed to handle the request.')
+      sendJson(res, failure.status, failure)
+    }
+  }
+})
+
+httpServer.listen(PORT, () => {
+  console.log(`Mock OpenAI Responses API listening on http://localhost:${PORT}/v1`)
+  console.log(`  Start the app with VITE_OPENAI_BASE_URL=http://localhost:${PORT}/v1`)
+})
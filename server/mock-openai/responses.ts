@@ -0,0 +1,73 @@
+/**
+ * Creating and storing mock responses
+ *
+ * Shared by the mock server (`index.ts`) and the end-to-end tests, which
+ * answer intercepted `/v1/responses` requests with the same scenarios.
+ */
+
+import type OpenAI from 'openai'
+import { mockId, toResponse } from './events.ts'
+import type { ResponseRequest, WireResponse } from './events.ts'
+import { runScenarios } from './scenarios.ts'
+
+interface StoredResponse {
+  response: WireResponse
+  /** The conversation up to and including this response's output, for `previous_response_id` */
+  items: OpenAI.Responses.ResponseInputItem[]
+}
+
+const storedResponses = new Map<string, StoredResponse>()
+
+/** An error in the API's shape, so the SDK raises the matching `APIError` subclass. */
+export class MockApiError extends Error {
+  status: number
+  param: string | null
+
+  constructor(status: number, message: string, param: string | null = null) {
+    super(message)
+    this.status = status
+    this.param = param
+  }
+
+  /** The JSON error body the API sends. */
+  toJSON() {
+    return {
+      error: { message: this.message, type: this.status >= 500 ? 'server_error' : 'invalid_request_error', param: this.param, code: null },
+    }
+  }
+}
+
+/** `input` as a list of items: a string is one user message. */
+function toInputItems(input: ResponseRequest['input']): OpenAI.Responses.ResponseInputItem[] {
+  if (input === undefined) return []
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input
+}
+
+/**
+ * Answer a `responses.create` request with the first matching scenario.
+ * Throws `MockApiError` for requests the API would reject.
+ */
+export async function createMockResponse(request: ResponseRequest) {
+  if (!request.model) throw new MockApiError(400, "Missing required parameter: 'model'.", 'model')
+
+  const previous = request.previous_response_id ? storedResponses.get(request.previous_response_id) : undefined
+  if (request.previous_response_id && !previous) {
+    throw new MockApiError(400, `Previous response with id '${request.previous_response_id}' not found.`, 'previous_response_id')
+  }
+
+  const items = [...(previous?.items ?? []), ...toInputItems(request.input)]
+  const { scenario, output } = await runScenarios({ items, tools: request.tools ?? [] })
+  const response = toResponse(request, mockId('resp'), output)
+
+  if (request.store !== false) {
+    storedResponses.set(response.id, { response, items: [...items, ...(output as OpenAI.Responses.ResponseInputItem[])] })
+  }
+  return { response, scenario }
+}
+
+/** A stored response, for `GET /v1/responses/:id`. */
+export function getMockResponse(id: string) {
+  const stored = storedResponses.get(id)
+  if (!stored) throw new MockApiError(404, `Response with id '${id}' not found.`)
+  return stored.response
+}
@@ -0,0 +1,390 @@
+/**
+ * Scripted scenarios for the mock Responses API
+ *
+ * There is no model: each request is answered by the first scenario that
+ * applies, based on the tools in the request and the last items of the
+ * conversation. The scripts cover what Lessons 01–06 exercise:
+ *
+ * - `mcp-approval-response` — answers `mcp_approval_response` items: runs the
+ *   approved call (`mcp_call` + message) or acknowledges the rejection
+ * - `function-result` — after `function_call_output` items: chains
+ *   `get_current_weather` onto `geocode_location` results, otherwise writes a
+ *   message summarizing the outputs
+ * - `function-call` — `function_call` items for the page's function tools,
+ *   with arguments read from the user's message (one call per city mentioned)
+ * - `web-search` — a `web_search_call` and a message with a `url_citation`
+ * - `mcp` — `mcp_list_tools` per server, then an `mcp_call` (or an
+ *   `mcp_approval_request` when the server's policy asks for one)
+ * - `echo` — a plain text message
+ *
+ * Hosted MCP servers are not contacted: every `mcp` tool is answered by the
+ * local fixture server's tools (see `server/mcp/tools.ts`), run in-process.
+ */
+
+import type OpenAI from 'openai'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { CITIES } from '../mcp/fixtures.ts'
+import type { CityFixture } from '../mcp/fixtures.ts'
+import { createFixtureMcpServer } from '../mcp/tools.ts'
+import { mockId } from './events.ts'
+
+type InputItem = OpenAI.Responses.ResponseInputItem
+type OutputItem = OpenAI.Responses.ResponseOutputItem
+type Tool = OpenAI.Responses.Tool
+
+export interface ScenarioContext {
+  /** The whole conversation: earlier turns (via `previous_response_id`), then this request's input */
+  items: InputItem[]
+  /** The request's `tools` */
+  tools: Tool[]
+}
+
+export interface Scenario {
+  name: string
+  /** Resolves the response's output items, or `undefined` when the scenario doesn't apply */
+  run: (context: ScenarioContext) => Promise<OutputItem[] | undefined>
+}
+
+// --- Reading the conversation ---
+
+/** Text of the last user message. */
+function lastUserText(items: InputItem[]) {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i]
+    if (!('role' in item) || item.role !== 'user') continue
+    if (typeof item.content === 'string') return item.content
+    return item.content.map((part) => (part.type === 'input_text' ? part.text : '')).join(' ')
+  }
+  return ''
+}
+
+/** Items after the last user message, i.e. what happened in the current turn so far. */
+function currentTurn(items: InputItem[]) {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i]
+    if ('role' in item && item.role === 'user') return items.slice(i + 1)
+  }
+  return items
+}
+
+function lastItemType(items: InputItem[]) {
+  const last = items[items.length - 1]
+  return last && ('type' in last ? last.type : 'message')
+}
+
+/** Fixture cities mentioned in a text (by name, alias or airport code), in order of appearance. */
+function findCities(text: string): CityFixture[] {
+  const lower = text.toLowerCase()
+  return CITIES.map((city) => {
+    const terms = [city.name.toLowerCase(), city.airport.toLowerCase(), ...city.aliases]
+    const positions = terms.map((term) => lower.search(new RegExp(`\\b${term}\\b`))).filter((index) => index >= 0)
+    return { city, index: positions.length > 0 ? Math.min(...positions) : -1 }
+  })
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ city }) => city)
+}
+
+/** Capitalized place name after "in", "is", "of"…, e.g. "Where is the Eiffel Tower?" → "Eiffel Tower". */
+function findPlaceName(text: string) {
+  return text.match(/\b(?:in|of|for|at|is|near)\s+(?:the\s+)?([A-Z][\w'’.-]*(?:[ ,]+[A-Z0-9][\w'’.-]*)*)/)?.[1]
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+/** One-line summary of a tool output: its top-level values, or the text itself. */
+function summarize(output: unknown): string {
+  const value = typeof output === 'string' ? parseJson(output) : output
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value)
+      .filter(([, v]) => v === null || typeof v !== 'object' || Array.isArray(v))
+      .map(([k, v]) => (Array.isArray(v) ? `${k}: ${v.length} result(s)` : `${k}: ${v}`))
+      .join(', ')
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+// --- Building output items ---
+
+function message(text: string, annotations: OpenAI.Responses.ResponseOutputText['annotations'] = []): OpenAI.Responses.ResponseOutputMessage {
+  return {
+    id: mockId('msg'),
+    type: 'message',
+    role: 'assistant',
+    status: 'completed',
+    content: [{ type: 'output_text', text, annotations, logprobs: [] }],
+  }
+}
+
+function functionCall(name: string, args: Record<string, unknown>): OpenAI.Responses.ResponseFunctionToolCall {
+  return { id: mockId('fc'), type: 'function_call', call_id: mockId('call'), name, arguments: JSON.stringify(args), status: 'completed' }
+}
+
+// --- Function tools ---
+
+type FunctionTool = OpenAI.Responses.FunctionTool
+
+/**
+ * Per-function scripts: the arguments of each call to make for a user message
+ * (an empty list when the message doesn't call for this function).
+ */
+const FUNCTION_SCRIPTS: Record<string, (text: string) => Record<string, unknown>[]> = {
+  calculate_tip: (text) => {
+    const percent = text.match(/(\d+(?:\.\d+)?)\s*(?:%|percent)/i)
+    const bill = text.replace(percent?.[0] ?? '', '').match(/\d+(?:\.\d+)?/)
+    if (!bill) return []
+    return [{ bill_amount: Number(bill[0]), ...(percent && { tip_percentage: Number(percent[1]) }) }]
+  },
+  geocode_location: (text) => {
+    const cities = findCities(text)
+    if (cities.length > 0) return cities.map((city) => ({ location: city.name }))
+    const place = findPlaceName(text)
+    return place ? [{ location: place }] : []
+  },
+  get_current_weather: (text) => {
+    const coordinates = text.match(/(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)/)
+    return coordinates ? [{ latitude: Number(coordinates[1]), longitude: Number(coordinates[2]) }] : []
+  },
+}
+
+/** Strict schemas require every property, with `null` standing in for "not provided". */
+function withStrictDefaults(tool: FunctionTool, args: Record<string, unknown>) {
+  if (!tool.strict) return args
+  const properties = Object.keys((tool.parameters?.properties as Record<string, unknown> | undefined) ?? {})
+  return Object.fromEntries(properties.map((key) => [key, args[key] ?? null]))
+}
+
+function functionTools(tools: Tool[]) {
+  return tools.filter((tool): tool is FunctionTool => tool.type === 'function')
+}
+
+// --- MCP tools ---
+
+type McpTool = OpenAI.Responses.Tool.Mcp
+
+/** Connect a client to a fresh in-process fixture MCP server. */
+async function withFixtureMcpServer<T>(callback: (client: Client) => Promise<T>) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const client = new Client({ name: 'mock-openai', version: '1.0.0' })
+  await createFixtureMcpServer().connect(serverTransport)
+  await client.connect(clientTransport)
+  try {
+    return await callback(client)
+  } finally {
+    await client.close()
+  }
+}
+
+function allowedToolNames(tool: McpTool) {
+  const allowed = tool.allowed_tools
+  if (!allowed) return undefined
+  return Array.isArray(allowed) ? allowed : allowed.tool_names
+}
+
+/**
+ * Whether a call needs an `mcp_approval_request` under the tool's `require_approval`.
+ * See: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
+ */
+function needsApproval(tool: McpTool, name: string) {
+  const policy = tool.require_approval
+  if (policy === 'never') return false
+  if (!policy || policy === 'always') return true
+  if (policy.never?.tool_names?.includes(name)) return false
+  return true
+}
+
+/** The fixture tool to call for a user message, and its arguments. */
+function planMcpCall(text: string): { name: string; args: Record<string, unknown> } | undefined {
+  const cities = findCities(text)
+  if (/\b(flights?|fly|flying)\b/i.test(text) && cities.length >= 2) {
+    return { name: 'search_flights', args: { origin: cities[0].name, destination: cities[1].name } }
+  }
+  if (/\b(weather|temperature|forecast)\b/i.test(text) && cities.length >= 1) {
+    return { name: 'get_current_weather', args: { latitude: cities[0].latitude, longitude: cities[0].longitude } }
+  }
+  if (cities.length >= 1) {
+    return { name: 'geocode_location', args: { location: cities[0].name } }
+  }
+  return undefined
+}
+
+function resultText(result: CallToolResult) {
+  return result.content.map((part) => (part.type === 'text' ? part.text : `[${part.type}]`)).join('\n')
+}
+
+async function mcpCall(serverLabel: string, name: string, args: string, approvalRequestId?: string): Promise<OpenAI.Responses.ResponseOutputItem.McpCall> {
+  const result = (await withFixtureMcpServer((client) =>
+    client.callTool({ name, arguments: JSON.parse(args) })
+  )) as CallToolResult
+  const text = resultText(result)
+  return {
+    id: mockId('mcp'),
+    type: 'mcp_call',
+    server_label: serverLabel,
+    name,
+    arguments: args,
+    output: result.isError ? null : text,
+    error: result.isError ? text : null,
+    status: result.isError ? 'failed' : 'completed',
+    ...(approvalRequestId && { approval_request_id: approvalRequestId }),
+  }
+}
+
+function mcpCallMessage(call: OpenAI.Responses.ResponseOutputItem.McpCall) {
+  return call.error
+    ? message(`\`${call.name}\` on ${call.server_label} failed: ${call.error}`)
+    : message(`Here's what \`${call.name}\` on ${call.server_label} returned — ${summarize(call.output)}.`)
+}
+
+// --- Scenarios ---
+
+const WEB_SEARCH_TOOL_TYPES: Tool['type'][] = ['web_search', 'web_search_2025_08_26', 'web_search_preview', 'web_search_preview_2025_03_11']
+
+export const SCENARIOS: Scenario[] = [
+  {
+    name: 'mcp-approval-response',
+    async run({ items }) {
+      if (lastItemType(items) !== 'mcp_approval_response') return undefined
+      const output: OutputItem[] = []
+      for (const item of currentTurn(items)) {
+        if (!('type' in item) || item.type !== 'mcp_approval_response') continue
+        const request = items.find(
+          (candidate): candidate is OpenAI.Responses.ResponseInputItem.McpApprovalRequest =>
+            'type' in candidate && candidate.type === 'mcp_approval_request' && candidate.id === item.approval_request_id
+        )
+        if (!request) continue
+        if (item.approve) {
+          const call = await mcpCall(request.server_label, request.name, request.arguments, request.id)
+          output.push(call, mcpCallMessage(call))
+        } else {
+          output.push(message(`Okay, I won't call \`${request.name}\` on ${request.server_label}${item.reason ? ` (${item.reason})` : ''}.`))
+        }
+      }
+      return output.length > 0 ? output : undefined
+    },
+  },
+  {
+    name: 'function-result',
+    async run({ items, tools }) {
+      if (lastItemType(items) !== 'function_call_output') return undefined
+      const turn = currentTurn(items)
+      const calls = turn.filter((item): item is OpenAI.Responses.ResponseFunctionToolCall => 'type' in item && item.type === 'function_call')
+      const outputs = turn.filter(
+        (item): item is OpenAI.Responses.ResponseInputItem.FunctionCallOutput => 'type' in item && item.type === 'function_call_output'
+      )
+      const nameOf = (callId: string) => calls.find((call) => call.call_id === callId)?.name ?? 'function'
+
+      // Lesson 03: geocode first, then look up the weather at each result
+      const weatherTool = functionTools(tools).find((tool) => tool.name === 'get_current_weather')
+      if (weatherTool && !calls.some((call) => call.name === 'get_current_weather')) {
+        const weatherCalls = outputs
+          .filter((output) => nameOf(output.call_id) === 'geocode_location')
+          .map((output) => parseJson(typeof output.output === 'string' ? output.output : ''))
+          .filter((result): result is { latitude: number; longitude: number } =>
+            typeof result === 'object' && result !== null && 'latitude' in result && 'longitude' in result
+          )
+          .map(({ latitude, longitude }) =>
+            functionCall('get_current_weather', withStrictDefaults(weatherTool, { latitude: Number(latitude), longitude: Number(longitude) }))
+          )
+        if (weatherCalls.length > 0) return weatherCalls
+      }
+
+      const lines = outputs.map((output) => `- \`${nameOf(output.call_id)}\`: ${summarize(output.output)}`)
+      return [message(`Here's what I found:\n\n${lines.join('\n')}`)]
+    },
+  },
+  {
+    name: 'function-call',
+    async run({ items, tools }) {
+      if (lastItemType(items) !== 'message') return undefined
+      const text = lastUserText(items)
+      const calls = functionTools(tools).flatMap((tool) =>
+        (FUNCTION_SCRIPTS[tool.name]?.(text) ?? []).map((args) => functionCall(tool.name, withStrictDefaults(tool, args)))
+      )
+      return calls.length > 0 ? calls : undefined
+    },
+  },
+  {
+    name: 'web-search',
+    async run({ items, tools }) {
+      const webSearch = tools.find((tool) => WEB_SEARCH_TOOL_TYPES.includes(tool.type))
+      if (!webSearch || lastItemType(items) !== 'message') return undefined
+
+      const query = lastUserText(items).trim()
+      // Lesson 04 limits the search to allowed domains; cite the first one
+      const filters = webSearch.type === 'web_search' || webSearch.type === 'web_search_2025_08_26' ? webSearch.filters : undefined
+      const domain = filters?.allowed_domains?.[0] ?? 'example.com'
+      const url = `https://${domain}/search?q=${encodeURIComponent(query)}`
+      const title = `Search results for "${query}"`
+      const intro = `Here's a mock summary of what the web says about "${query}". `
+      const citation = `([${domain}](${url}))`
+
+      return [
+        { id: mockId('ws'), type: 'web_search_call', status: 'completed', action: { type: 'search', query } },
+        message(`${intro}${citation}`, [
+          { type: 'url_citation', start_index: intro.length, end_index: intro.length + citation.length, url, title },
+        ]),
+      ]
+    },
+  },
+  {
+    name: 'mcp',
+    async run({ items, tools }) {
+      const servers = tools.filter((tool): tool is McpTool => tool.type === 'mcp')
+      if (servers.length === 0 || lastItemType(items) !== 'message') return undefined
+
+      const listed = await withFixtureMcpServer((client) => client.listTools())
+      const output: OutputItem[] = servers.map((server) => {
+        const allowed = allowedToolNames(server)
+        return {
+          id: mockId('mcpl'),
+          type: 'mcp_list_tools',
+          server_label: server.server_label,
+          tools: listed.tools
+            .filter((tool) => !allowed || allowed.includes(tool.name))
+            .map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.inputSchema, annotations: tool.annotations ?? null })),
+        }
+      })
+
+      const text = lastUserText(items)
+      const plan = planMcpCall(text)
+      const server = plan && servers.find((candidate) => allowedToolNames(candidate)?.includes(plan.name) ?? true)
+      if (!plan || !server) {
+        return [...output, message(`I didn't need any MCP tools to answer "${text}".`)]
+      }
+
+      const args = JSON.stringify(plan.args)
+      if (needsApproval(server, plan.name)) {
+        return [
+          ...output,
+          { id: mockId('mcpr'), type: 'mcp_approval_request', server_label: server.server_label, name: plan.name, arguments: args },
+        ]
+      }
+      const call = await mcpCall(server.server_label, plan.name, args)
+      return [...output, call, mcpCallMessage(call)]
+    },
+  },
+  {
+    name: 'echo',
+    async run({ items }) {
+      return [message(`This is the mock server. You said: "${lastUserText(items)}"`)]
+    },
+  },
+]
+
+/** Run the first scenario that applies; `echo` always does. */
+export async function runScenarios(context: ScenarioContext) {
+  for (const scenario of SCENARIOS) {
+    const output = await scenario.run(context)
+    if (output) return { scenario: scenario.name, output }
+  }
+  throw new Error('No scenario applied')
+}
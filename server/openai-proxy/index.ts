@@ -0,0 +1,54 @@
+/**
+ * Standalone OpenAI proxy — keeps the API key on the server
+ *
+ * Run: `OPENAI_API_KEY=sk-… npm run openai-proxy` (PORT defaults to 3003),
+ * then start or build the app with
+ * `VITE_OPENAI_PROXY_URL=http://localhost:3003/v1`. The pages send their
+ * requests here without a key, and this server adds it (see `proxy.ts`).
+ *
+ * Anyone who can reach the proxy can spend the key, so it listens on
+ * 127.0.0.1 only (set `HOST` to change it) and only answers browser requests
+ * from the app's origins: the Vite dev and preview servers by default, or
+ * the comma-separated `ALLOWED_ORIGINS` (see `proxy.ts`).
+ *
+ * `npm run dev` does the same on its own origin when `OPENAI_API_KEY` is set
+ * (see `vitePlugin.ts`); use this entry when the app is served some other way.
+ * Set `OPENAI_BASE_URL` to forward somewhere other than the OpenAI API.
+ */
+
+import { createServer } from 'node:http'
+import { createOpenAIProxy } from './proxy.ts'
+
+const PORT = Number(process.env.PORT ?? 3003)
+const HOST = process.env.HOST || '127.0.0.1'
+const ROUTE = '/v1'
+const ALLOWED_ORIGINS = new Set(
+  (process.env.ALLOWED_ORIGINS || 'http://localhost:5173,http://127.0.0.1:5173,http://localhost:4173,http://127.0.0.1:4173')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+)
+
+const apiKey = process.env.OPENAI_API_KEY
+if (!apiKey) {
+  console.error('Set OPENAI_API_KEY to the key the proxy should use.')
+  process.exit(1)
+}
+
+const proxy = createOpenAIProxy({ apiKey, baseURL: process.env.OPENAI_BASE_URL || undefined, allowedOrigins: ALLOWED_ORIGINS })
+
+const httpServer = createServer((req, res) => {
+  const path = req.url ?? '/'
+  if (!path.startsWith(`${ROUTE}/`)) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: { message: `The proxy serves ${ROUTE}/* only.`, type: 'invalid_request_error', param: null, code: null } }))
+    return
+  }
+  void proxy(req, res, path.slice(ROUTE.length))
+})
+
+httpServer.listen(PORT, HOST, () => {
+  console.log(`OpenAI proxy listening on http://${HOST}:${PORT}${ROUTE}`)
+  console.log(`  Allowed origins: ${[...ALLOWED_ORIGINS].join(', ')}`)
+  console.log(`  Start the app with VITE_OPENAI_PROXY_URL=http://localhost:${PORT}${ROUTE}`)
+})
@@ -0,0 +1,142 @@
+/**
+ * Forward OpenAI requests from the browser, adding the API key on the server
+ *
+ * The browser's `OpenAI` client sends a placeholder key; the proxy replaces the
+ * `Authorization` header with the real key and streams the upstream body back
+ * unchanged, so server-sent events (`stream: true`) arrive as they are produced.
+ *
+ * Only the endpoints the lessons use are forwarded, so the proxy can't be used
+ * to reach the rest of the API with your key. Browser requests are only
+ * answered for pages from `allowedOrigins` (or, with `allowSameOrigin`, the
+ * server's own origin); any other page could otherwise spend the key with a
+ * simple cross-site POST. Requests without an `Origin` header, such as `curl`,
+ * are let through.
+ * API Reference: https://platform.openai.com/docs/api-reference/responses
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+export interface OpenAIProxyOptions {
+  /** The real API key; never sent to the browser */
+  apiKey: string
+  /** Upstream API, e.g. the mock server's `http://localhost:3002/v1` (default: OpenAI) */
+  baseURL?: string
+  /** Other origins whose pages may call the proxy (CORS), e.g. `http://localhost:5173` */
+  allowedOrigins?: Iterable<string>
+  /**
+   * Also answer pages served from the origin the request was sent to. Only for
+   * servers that check the `Host` header against DNS rebinding, as Vite does.
+   */
+  allowSameOrigin?: boolean
+}
+
+/** Handle one request; `path` is the part of the URL after the proxy's prefix (`/responses?…`). */
+export type OpenAIProxyHandler = (req: IncomingMessage, res: ServerResponse, path: string) => Promise<void>
+
+const ALLOWED_ROUTES: { method: string; pattern: RegExp }[] = [
+  { method: 'POST', pattern: /^\/responses$/ },
+  { method: 'GET', pattern: /^\/responses\/[\w-]+$/ },
+  { method: 'POST', pattern: /^\/chat\/completions$/ },
+  { method: 'GET', pattern: /^\/models$/ },
+]
+
+/** Request headers passed upstream; everything else (cookies, the browser's `Authorization`) is dropped. */
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'accept', 'openai-beta']
+
+/** Response headers passed back; `fetch` has already decoded the body, so no `content-encoding`. */
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'cache-control', 'retry-after', 'x-request-id', 'openai-processing-ms', 'openai-organization', 'openai-project']
+
+/** An error body in the API's own format, so the SDK raises the usual `APIError`. */
+function sendError(res: ServerResponse, status: number, message: string, code: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ error: { message, type: 'invalid_request_error', param: null, code } }))
+}
+
+/** Whether `origin` is the origin the request was sent to, i.e. the page came from this server. */
+function isSameOrigin(origin: string, req: IncomingMessage) {
+  try {
+    return new URL(origin).host === req.headers.host
+  } catch {
+    return false
+  }
+}
+
+/** Let an allowed cross-origin page call the proxy. */
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse, origin: string) {
+  res.setHeader('Access-Control-Allow-Origin', origin)
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+  // The SDK sends its own `x-stainless-*` headers; the origin is trusted, so allow what its preflight asks for
+  const requestedHeaders = req.headers['access-control-request-headers']
+  if (requestedHeaders) res.setHeader('Access-Control-Allow-Headers', requestedHeaders)
+  // Let the API key check read which organization and project the key belongs to
+  res.setHeader('Access-Control-Expose-Headers', 'openai-organization, openai-project')
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks)
+}
+
+export function createOpenAIProxy({ apiKey, baseURL = 'https://api.openai.com/v1', allowedOrigins = [], allowSameOrigin = false }: OpenAIProxyOptions): OpenAIProxyHandler {
+  const upstreamBase = baseURL.replace(/\/+$/, '')
+  const corsOrigins = new Set(allowedOrigins)
+
+  return async function handleProxyRequest(req, res, path) {
+    res.setHeader('Vary', 'Origin')
+    const origin = req.headers.origin
+    if (origin !== undefined && !(allowSameOrigin && isSameOrigin(origin, req))) {
+      if (!corsOrigins.has(origin)) {
+        return sendError(res, 403, `Origin ${origin} is not allowed to use the proxy.`, 'proxy_origin_not_allowed')
+      }
+      setCorsHeaders(req, res, origin)
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end()
+      return
+    }
+
+    const url = new URL(path, 'http://proxy.invalid')
+    const method = req.method ?? 'GET'
+    if (!ALLOWED_ROUTES.some((route) => route.method === method && route.pattern.test(url.pathname))) {
+      return sendError(res, 404, `The proxy does not forward ${method} ${url.pathname}.`, 'proxy_route_not_allowed')
+    }
+
+    const headers = new Headers({ Authorization: `Bearer ${apiKey}` })
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = req.headers[name]
+      if (typeof value === 'string') headers.set(name, value)
+    }
+
+    // Stop the upstream request (and its billing) when the browser goes away
+    const controller = new AbortController()
+    res.on('close', () => controller.abort())
+
+    try {
+      const upstream = await fetch(`${upstreamBase}${url.pathname}${url.search}`, {
+        method,
+        headers,
+        body: method === 'GET' ? undefined : await readBody(req),
+        signal: controller.signal,
+      })
+
+      const responseHeaders: Record<string, string> = {}
+      for (const name of FORWARDED_RESPONSE_HEADERS) {
+        const value = upstream.headers.get(name)
+        if (value) responseHeaders[name] = value
+      }
+      res.writeHead(upstream.status, responseHeaders)
+      if (upstream.body) {
+        for await (const chunk of upstream.body) res.write(chunk)
+      }
+      res.end()
+    } catch (error) {
+      if (controller.signal.aborted) return
+      if (res.headersSent) {
+        res.destroy(error as Error)
+        return
+      }
+      sendError(res, 502, `The proxy could not reach ${upstreamBase}: ${(error as Error).message}`, 'proxy_upstream_error')
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Dev-server OpenAI proxy
+ *
+ * When `OPENAI_API_KEY` (no `VITE_` prefix, so Vite never exposes it to the
+ * browser) is set in the environment or `.env`, `npm run dev` and
+ * `npm run preview` forward `/openai/v1/*` to the API with that key (see
+ * `proxy.ts`). The plugin also sets `VITE_OPENAI_PROXY_URL` for the app, which
+ * then sends every request through the proxy and skips the API key prompt
+ * (see `src/lib/openaiClient.ts`). Only pages served by the same dev or
+ * preview server may call it.
+ */
+
+import { loadEnv } from 'vite'
+import type { Connect, Plugin } from 'vite'
+import { createOpenAIProxy } from './proxy.ts'
+import type { OpenAIProxyHandler } from './proxy.ts'
+
+export const PROXY_ROUTE = '/openai/v1'
+
+export function openaiProxy(): Plugin {
+  let proxy: OpenAIProxyHandler | undefined
+
+  // Connect strips the mount path, so `req.url` is already relative to `PROXY_ROUTE`
+  const middleware: Connect.NextHandleFunction = (req, res) => {
+    void proxy?.(req, res, req.url ?? '/')
+  }
+
+  return {
+    name: 'openai-proxy',
+    config(config, { mode }) {
+      const env = loadEnv(mode, config.root ?? process.cwd(), '')
+      if (!env.OPENAI_API_KEY) return
+
+      // Only the app's own pages may call it; Vite's `server.allowedHosts` check guards the `Host` header
+      proxy = createOpenAIProxy({ apiKey: env.OPENAI_API_KEY, baseURL: env.OPENAI_BASE_URL || undefined, allowSameOrigin: true })
+      // An explicit proxy URL (e.g. the standalone proxy) wins over the dev server's own
+      if (env.VITE_OPENAI_PROXY_URL) return
+      return { define: { 'import.meta.env.VITE_OPENAI_PROXY_URL': JSON.stringify(PROXY_ROUTE) } }
+    },
+    configureServer(server) {
+      if (proxy) server.middlewares.use(PROXY_ROUTE, middleware)
+    },
+    configurePreviewServer(server) {
+      if (proxy) server.middlewares.use(PROXY_ROUTE, middleware)
+    },
+  }
+}
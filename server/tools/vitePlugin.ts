@@ -0,0 +1,88 @@
+/**
+ * Dev-server tool execution endpoint
+ *
+ * `POST /__tools/<name>` runs a function tool in Node, for pages with "Run
+ * tools on server" switched on (see `src/lib/toolServer.ts`). The request body
+ * is `{ arguments }`. The tools come from `executeServerTool` in
+ * `src/tools/index.ts`, loaded through Vite so the `@/` imports resolve and
+ * edits apply without a restart.
+ *
+ * The registry validates the arguments against the tool's own schema before the handler runs.
+ * The response body is always the call's outcome — `{ status, error?, result }` —
+ * with HTTP 200 when it completed, 404 for an unknown tool, 422 for rejected
+ * arguments and 500 when the handler threw.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Plugin } from 'vite'
+
+const ROUTE = '/__tools/'
+const REGISTRY_MODULE = '/src/tools/index.ts'
+
+/** The registry module's `executeServerTool` (its types live in the app's `src/lib`). */
+interface ServerToolModule {
+  executeServerTool(
+    name: string,
+    rawArguments: string,
+    context: { signal: AbortSignal }
+  ): Promise<{ status: 'completed' | 'error'; error?: string; result: unknown }>
+}
+
+/** The raw JSON arguments from the `{ arguments }` request body. */
+function parseArguments(body: string): string {
+  let call: unknown
+  try {
+    call = JSON.parse(body)
+  } catch {
+    // Let the registry report the malformed JSON
+    return body
+  }
+  return JSON.stringify((call as { arguments?: unknown } | null)?.arguments ?? null)
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+export function toolServer(): Plugin {
+  return {
+    name: 'tool-server',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        if (!req.url?.startsWith(ROUTE)) return next()
+
+        const name = decodeURIComponent(req.url.slice(ROUTE.length))
+        if (req.method !== 'POST') {
+          return send(res, 405, { status: 'error', error: 'method not allowed', result: { error: 'Use POST' } })
+        }
+
+        // Stop the handler's own requests when the page cancels the call
+        const controller = new AbortController()
+        res.on('close', () => {
+          if (!res.writableFinished) controller.abort()
+        })
+
+        try {
+          const rawArguments = parseArguments(await readBody(req))
+          const { executeServerTool } = (await server.ssrLoadModule(REGISTRY_MODULE)) as ServerToolModule
+          const { status, error, result } = await executeServerTool(name, rawArguments, { signal: controller.signal })
+          const httpStatus = status === 'completed' ? 200 : error === 'unknown tool' ? 404 : error === 'handler failed' ? 500 : 422
+          send(res, httpStatus, { status, error, result })
+        } catch (err) {
+          if (controller.signal.aborted) return
+          const message = err instanceof Error ? err.message : String(err)
+          server.config.logger.error(`[tool-server] ${name}: ${message}`)
+          send(res, 500, { status: 'error', error: 'tool server failed', result: { error: `${name} failed on the server: ${message}` } })
+        }
+      })
+    },
+  }
+}
@@ -8,6 +8,8 @@ interface Lesson {
   title: string
   description: string
   status: 'available' | 'coming-soon'
+  /** The lesson also has a Chat Completions API version of its page */
+  completions?: boolean
 }
 
 const lessons: Lesson[] = [
@@ -16,41 +18,47 @@ const lessons: Lesson[] = [
     title: 'Baseline: Basic Chat',
     description: 'Simple chat interface with message history - no function calling yet',
     status: 'available',
+    completions: true,
   },
   {
     id: 1,
     title: 'Lesson 1: Basic Function Calling',
     description: 'Simple tip calculator demonstrating function calling fundamentals',
     status: 'available',
+    completions: true,
   },
   {
     id: 2,
     title: 'Lesson 2: External API Integration',
     description: 'Nominatim geocoding API — look up coordinates for cities, addresses, and landmarks',
     status: 'available',
+    completions: true,
   },
   {
     id: 3,
     title: 'Lesson 3: Multiple Function Calls',
     description: 'Geocoding + OpenWeatherMap — handling multiple tool calls across rounds',
     status: 'available',
+    completions: true,
   },
   {
     id: 4,
     title: 'Lesson 4: Built-in Tools — Web Search',
     description: 'Use the web_search built-in tool — no back-and-forth loop required',
     status: 'available',
+    completions: true,
   },
   {
     id: 5,
     title: 'Lesson 5: Streaming Function Calls',
     description: 'Streaming function calls and responses in real-time',
     status: 'available',
+    completions: true,
   },
   {
     id: 6,
     title: 'Lesson 6: Remote MCP Server',
-    description: 'Connect to a remote MCP server for flight search tools',
+    description: 'Connect to remote MCP servers with the hosted mcp tool',
     status: 'available',
   },
   {
@@ -62,8 +70,8 @@ const lessons: Lesson[] = [
   {
     id: 8,
     title: 'Lesson 8: Calling MCP Servers',
-    description: 'Connect to Model Context Protocol servers',
-    status: 'coming-soon',
+    description: 'Act as the MCP client — run a local MCP server\'s tools through function calling',
+    status: 'available',
   },
   {
     id: 9,
@@ -92,7 +100,7 @@ function App() {
             </CardHeader>
             <CardContent>
               {lesson.status === 'available' ? (
-                lesson.id === 1 || lesson.id === 2 || lesson.id === 3 || lesson.id === 4 || lesson.id === 5 || lesson.id === 6 ? (
+                !lesson.completions ? (
                   <Button asChild variant="default" size="sm" className="w-full">
                     <Link to={`/lesson-${String(lesson.id).padStart(2, '0')}/responses`}>
                       Responses API
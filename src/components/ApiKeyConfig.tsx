@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { AlertCircle, CheckCircle2 } from 'lucide-react'
+import { AlertCircle, CheckCircle2, Loader2, Server } from 'lucide-react'
+import { OPENAI_PROXY_URL, PROXY_API_KEY } from '@/lib/openaiClient'
+import { checkApiKey } from '@/lib/apiKeyCheck'
+import type { ApiKeyCheck } from '@/lib/apiKeyCheck'
+import { saveDiscoveredModels } from '@/lib/requestSettings'
 
 const API_KEY_STORAGE_KEY = 'openai_api_key'
 
@@ -10,56 +15,156 @@ interface ApiKeyConfigProps {
   onKeyValidated?: (key: string) => void
 }
 
+/** Quick format check before asking the API; keys start with 'sk-' and are long. */
+function looksLikeApiKey(key: string): boolean {
+  return key.startsWith('sk-') && key.length > 20
+}
+
+/** The key saved by an earlier visit, if it still looks usable; never used in proxy mode. */
+function storedApiKey(): string | null {
+  if (OPENAI_PROXY_URL) return null
+  const stored = localStorage.getItem(API_KEY_STORAGE_KEY)
+  return stored && looksLikeApiKey(stored) ? stored : null
+}
+
+/** The key to check on mount: the proxy's placeholder, or the key saved by an earlier visit. */
+function initialKey(): string | null {
+  return OPENAI_PROXY_URL ? PROXY_API_KEY : storedApiKey()
+}
+
 export function ApiKeyConfig({ onKeyValidated }: ApiKeyConfigProps) {
-  const [apiKey, setApiKey] = useState('')
+  const [apiKey, setApiKey] = useState(() => storedApiKey() ?? '')
   const [isValid, setIsValid] = useState(false)
+  const [isChecking, setIsChecking] = useState(() => initialKey() !== null)
+  const [verified, setVerified] = useState<Extract<ApiKeyCheck, { ok: true }> | null>(null)
   const [error, setError] = useState('')
 
+  /**
+   * Check the saved key — or, in proxy mode, the server's key through the
+   * proxy — before handing it to the page, so a key revoked since the last
+   * visit is reported here. The models list also fills the model picker.
+   */
   useEffect(() => {
-    // Check for stored API key on mount
-    const stored = localStorage.getItem(API_KEY_STORAGE_KEY)
-    if (stored && validateApiKey(stored)) {
-      setApiKey(stored)
-      setIsValid(true)
-      onKeyValidated?.(stored)
-    }
-  }, [onKeyValidated])
+    const key = initialKey()
+    if (!key) return
 
-  function validateApiKey(key: string): boolean {
-    // Basic validation: should start with 'sk-' and have reasonable length
-    return key.startsWith('sk-') && key.length > 20
-  }
+    const controller = new AbortController()
+    checkApiKey(key, controller.signal)
+      .then((result) => {
+        setIsChecking(false)
+        if (!result.ok) {
+          setError(result.message)
+          return
+        }
+        if (result.models.length > 0) saveDiscoveredModels(result.models)
+        onKeyValidated?.(key)
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error('Failed to check API key:', error)
+      })
+    return () => controller.abort()
+  }, [onKeyValidated])
 
-  function handleSaveKey() {
+  /**
+   * Verify the key with a models list call before saving it, so a bad key is
+   * reported here rather than on the first chat request.
+   * See: https://platform.openai.com/docs/api-reference/models/list
+   */
+  async function handleSaveKey() {
     setError('')
-    
-    if (!validateApiKey(apiKey)) {
+
+    if (!looksLikeApiKey(apiKey)) {
       setError('Invalid API key format. Key should start with "sk-" and be at least 20 characters.')
       setIsValid(false)
       return
     }
 
+    setIsChecking(true)
+    const result = await checkApiKey(apiKey)
+    setIsChecking(false)
+
+    if (!result.ok) {
+      setError(result.message)
+      setIsValid(false)
+      return
+    }
+
     localStorage.setItem(API_KEY_STORAGE_KEY, apiKey)
+    // The request settings model picker offers these instead of its default list
+    if (result.models.length > 0) saveDiscoveredModels(result.models)
+    setVerified(result)
     setIsValid(true)
-    onKeyValidated?.(apiKey)
   }
 
   function handleClearKey() {
     localStorage.removeItem(API_KEY_STORAGE_KEY)
     setApiKey('')
     setIsValid(false)
+    setVerified(null)
     setError('')
   }
 
-  if (isValid) {
+  if (OPENAI_PROXY_URL) {
+    return (
+      <div className="space-y-4 mb-4">
+        <Alert>
+          <Server className="h-4 w-4" />
+          <AlertDescription>
+            Requests go through the server proxy at <code>{OPENAI_PROXY_URL}</code>; the API key stays on the server
+          </AlertDescription>
+        </Alert>
+
+        {isChecking && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking the server's API key…
+          </p>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    )
+  }
+
+  if (isValid && verified) {
     return (
       <Alert className="mb-4">
         <CheckCircle2 className="h-4 w-4" />
-        <AlertDescription className="flex items-center justify-between">
-          <span>OpenAI API key is configured</span>
-          <Button variant="outline" size="sm" onClick={handleClearKey}>
-            Clear Key
-          </Button>
+        <AlertDescription className="space-y-3">
+          <div>
+            <p className="font-medium text-foreground">API key verified</p>
+            <p>
+              Organization: <code>{verified.organization ?? 'not reported'}</code> · Project:{' '}
+              <code>{verified.project ?? 'default'}</code>
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p>
+              {verified.models.length > 0
+                ? `${verified.models.length} models support the Responses API with tools:`
+                : 'No models that support the Responses API with tools are available to this key.'}
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {verified.models.map((model) => (
+                <Badge key={model} variant="outline" className="font-mono">
+                  {model}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => onKeyValidated?.(apiKey)}>
+              Continue
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleClearKey}>
+              Clear Key
+            </Button>
+          </div>
         </AlertDescription>
       </Alert>
     )
@@ -87,14 +192,24 @@ export function ApiKeyConfig({ onKeyValidated }: ApiKeyConfigProps) {
           type="password"
           placeholder="sk-proj-..."
           value={apiKey}
+          disabled={isChecking}
           onChange={(e) => setApiKey(e.target.value)}
           onKeyDown={(e) => {
             if (e.key === 'Enter') {
-              handleSaveKey()
+              void handleSaveKey()
             }
           }}
         />
-        <Button onClick={handleSaveKey}>Save Key</Button>
+        <Button onClick={() => void handleSaveKey()} disabled={isChecking}>
+          {isChecking ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking…
+            </>
+          ) : (
+            'Save Key'
+          )}
+        </Button>
       </div>
 
       {error && (
@@ -1,16 +1,23 @@
 import { useEffect, useRef } from 'react'
 import { ChatMessage } from '@/components/ChatMessage'
 import { ChatInput } from '@/components/ChatInput'
+import { FunctionCallStatus } from '@/components/FunctionCallStatus'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import type { Message } from '@/types/chat'
+import type { ApprovalDecision, Message } from '@/types/chat'
 
 interface ChatAreaProps {
   messages: Message[]
   isLoading: boolean
   onSend: (input: string) => void
+  /** Handles Approve / Edit / Reject on function calls awaiting approval */
+  onFunctionCallDecision?: (callId: string, decision: ApprovalDecision) => void
+  /** Cancels the running request; shows a Stop button while `isLoading` */
+  onStop?: () => void
+  /** Replaces the input with a notice, e.g. for an imported conversation */
+  readOnly?: boolean
 }
 
-export function ChatArea({ messages, isLoading, onSend }: ChatAreaProps) {
+export function ChatArea({ messages, isLoading, onSend, onFunctionCallDecision, onStop, readOnly }: ChatAreaProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -28,6 +35,22 @@ export function ChatArea({ messages, isLoading, onSend }: ChatAreaProps) {
               </div>
             ) : (
               messages.map((message, index) => {
+                // Live function calls (approval mode) render as tool call cards
+                if (message.role === 'function' && message.functionCall) {
+                  const { callId } = message.functionCall
+                  return (
+                    <FunctionCallStatus
+                      key={callId ?? index}
+                      functionCall={message.functionCall}
+                      onDecision={
+                        callId && onFunctionCallDecision
+                          ? (decision) => onFunctionCallDecision(callId, decision)
+                          : undefined
+                      }
+                    />
+                  )
+                }
+
                 // Determine if any tools were used: function calls, built-in tools, or MCP calls
                 const usedTools = message.functionCall ||
                   (Array.isArray(message.responseOutput) &&
@@ -60,7 +83,13 @@ export function ChatArea({ messages, isLoading, onSend }: ChatAreaProps) {
 
       {/* Input */}
       <div className="flex-shrink-0 border-t border-gray-200 p-4">
-        <ChatInput onSend={onSend} isLoading={isLoading} />
+        {readOnly ? (
+          <p className="text-center text-sm text-muted-foreground">
+            Imported conversation (read-only). Start a new conversation to chat.
+          </p>
+        ) : (
+          <ChatInput onSend={onSend} isLoading={isLoading} onStop={onStop} />
+        )}
       </div>
     </div>
   )
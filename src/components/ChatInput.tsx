@@ -1,15 +1,17 @@
 import { useState, useRef, useEffect } from 'react'
 import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
-import { SendHorizontal } from 'lucide-react'
+import { SendHorizontal, Square } from 'lucide-react'
 
 interface ChatInputProps {
   onSend: (message: string) => void
   isLoading?: boolean
   placeholder?: string
+  /** When set, a Stop button replaces Send while a request is running */
+  onStop?: () => void
 }
 
-export function ChatInput({ onSend, isLoading = false, placeholder = 'Type your message...' }: ChatInputProps) {
+export function ChatInput({ onSend, isLoading = false, placeholder = 'Type your message...', onStop }: ChatInputProps) {
   const [input, setInput] = useState('')
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -51,9 +53,15 @@ export function ChatInput({ onSend, isLoading = false, placeholder = 'Type your
           <kbd className="px-1 py-0.5 bg-muted rounded text-xs">Enter</kbd> for new line
         </p>
       </div>
-      <Button onClick={handleSend} disabled={isLoading || !input.trim()} size="lg" className="self-start mt-1">
-        <SendHorizontal className="h-5 w-5" />
-      </Button>
+      {isLoading && onStop ? (
+        <Button onClick={onStop} variant="destructive" size="lg" className="self-start mt-1" title="Stop the request">
+          <Square className="h-5 w-5" />
+        </Button>
+      ) : (
+        <Button onClick={handleSend} disabled={isLoading || !input.trim()} size="lg" className="self-start mt-1">
+          <SendHorizontal className="h-5 w-5" />
+        </Button>
+      )}
     </div>
   )
 }
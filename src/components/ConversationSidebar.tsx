@@ -0,0 +1,158 @@
+import { useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Copy, FileBraces, FileText, Pencil, Plus, Trash2, Upload } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  conversationToMarkdown,
+  downloadFile,
+  exportFileName,
+  parseConversationExport,
+  toConversationExport,
+} from '@/lib/conversationExport'
+import type { StoredConversation } from '@/lib/conversationStore'
+import type { ConversationHistory, ImportedConversationState } from '@/hooks/useConversationHistory'
+
+interface ConversationSidebarProps {
+  history: ConversationHistory
+  /** Starts a new conversation; pages pass their clear handler so pending approvals are rejected too */
+  onNew: () => void
+  /** Disables switching while a request is running */
+  disabled?: boolean
+}
+
+/** Saved conversations for the current lesson page (shown in the `PageLayout` sidebar). */
+export function ConversationSidebar({ history, onNew, disabled }: ConversationSidebarProps) {
+  const { conversations, activeId, selectConversation, renameConversation, duplicateConversation, deleteConversation } = history
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [title, setTitle] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const navigate = useNavigate()
+
+  function startRename(id: string, currentTitle: string) {
+    setRenamingId(id)
+    setTitle(currentTitle)
+  }
+
+  function finishRename() {
+    if (renamingId) void renameConversation(renamingId, title)
+    setRenamingId(null)
+  }
+
+  function handleExport(conversation: StoredConversation, type: 'json' | 'markdown') {
+    const exported = toConversationExport(conversation)
+    if (type === 'json') {
+      downloadFile(exportFileName(exported, 'json'), JSON.stringify(exported, null, 2), 'application/json')
+    } else {
+      downloadFile(exportFileName(exported, 'md'), conversationToMarkdown(exported), 'text/markdown')
+    }
+  }
+
+  /** Open an exported JSON file read-only on the lesson page it was recorded on. */
+  async function handleImport(file: File) {
+    try {
+      const importedConversation = parseConversationExport(await file.text())
+      setImportError(null)
+      navigate(importedConversation.route, { state: { importedConversation } satisfies ImportedConversationState })
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Import failed')
+    }
+  }
+
+  return (
+    <Card className="flex flex-col overflow-hidden">
+      <div className="flex-shrink-0 flex items-center justify-between border-b border-gray-200 p-4">
+        <h2 className="font-semibold">Conversations</h2>
+        <div className="flex items-center">
+          <Button variant="ghost" size="icon-sm" onClick={() => fileInputRef.current?.click()} disabled={disabled} title="Import a JSON export (read-only)">
+            <Upload className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={onNew} disabled={disabled} title="New conversation">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) void handleImport(file)
+          }}
+        />
+      </div>
+
+      {importError && <p className="px-4 pt-2 text-sm text-destructive">{importError}</p>}
+
+      <ScrollArea className="flex-1 min-h-0">
+        {conversations.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">No saved conversations yet.</p>
+        ) : (
+          <ul className="p-2 space-y-1">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={cn(
+                  'group rounded-md px-2 py-1.5 text-sm',
+                  conversation.id === activeId ? 'bg-accent' : 'hover:bg-accent/50'
+                )}
+              >
+                {renamingId === conversation.id ? (
+                  <Input
+                    autoFocus
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onBlur={finishRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishRename()
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    className="h-7 text-sm"
+                  />
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => selectConversation(conversation.id)}
+                      disabled={disabled}
+                      className="flex-1 min-w-0 text-left disabled:opacity-50"
+                      title={conversation.title}
+                    >
+                      <span className="block truncate">{conversation.title}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(conversation.updatedAt).toLocaleString()}
+                      </span>
+                    </button>
+                    <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                      <Button variant="ghost" size="icon-xs" onClick={() => startRename(conversation.id, conversation.title)} title="Rename">
+                        <Pencil />
+                      </Button>
+                      <Button variant="ghost" size="icon-xs" onClick={() => handleExport(conversation, 'json')} title="Export as JSON">
+                        <FileBraces />
+                      </Button>
+                      <Button variant="ghost" size="icon-xs" onClick={() => handleExport(conversation, 'markdown')} title="Export as Markdown">
+                        <FileText />
+                      </Button>
+                      <Button variant="ghost" size="icon-xs" onClick={() => void duplicateConversation(conversation.id)} disabled={disabled} title="Duplicate">
+                        <Copy />
+                      </Button>
+                      <Button variant="ghost" size="icon-xs" onClick={() => void deleteConversation(conversation.id)} disabled={disabled} title="Delete">
+                        <Trash2 />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+    </Card>
+  )
+}
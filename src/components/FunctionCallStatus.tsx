@@ -1,36 +1,84 @@
 import { useState } from 'react'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
 import { ChevronDown, ChevronRight, WrenchIcon } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { FunctionCall } from '@/types/chat'
+import type { ApprovalDecision, FunctionCall } from '@/types/chat'
 
 interface FunctionCallStatusProps {
   functionCall: FunctionCall
+  /** When set, a `pending-approval` call shows Approve / Edit arguments / Reject controls */
+  onDecision?: (decision: ApprovalDecision) => void
 }
 
-export function FunctionCallStatus({ functionCall }: FunctionCallStatusProps) {
-  const [isOpen, setIsOpen] = useState(false)
+/** Pretty-print a JSON arguments string, falling back to the raw text if it doesn't parse */
+function formatArguments(args: string) {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2)
+  } catch {
+    return args
+  }
+}
+
+export function FunctionCallStatus({ functionCall, onDecision }: FunctionCallStatusProps) {
+  const awaitingDecision = functionCall.status === 'pending-approval' && onDecision !== undefined
+  const [isOpen, setIsOpen] = useState(awaitingDecision)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editedArguments, setEditedArguments] = useState(() => formatArguments(functionCall.arguments))
+  const [editError, setEditError] = useState('')
 
   const statusColors = {
+    'pending-approval': 'bg-amber-500',
     executing: 'bg-blue-500',
     completed: 'bg-green-500',
     error: 'bg-red-500',
+    rejected: 'bg-gray-500',
   }
 
   const statusLabels = {
+    'pending-approval': 'Awaiting approval',
     executing: 'Executing...',
     completed: 'Completed ✓',
     error: 'Error',
+    rejected: 'Rejected',
+  }
+
+  function handleApprove() {
+    if (!isEditing) {
+      onDecision?.({ action: 'approve' })
+      return
+    }
+
+    // Only send edited arguments that are valid JSON objects
+    try {
+      const parsed = JSON.parse(editedArguments)
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setEditError('Arguments must be a JSON object.')
+        return
+      }
+      onDecision?.({ action: 'approve', arguments: JSON.stringify(parsed) })
+    } catch (err) {
+      setEditError(`Invalid JSON: ${err instanceof Error ? err.message : 'parse error'}`)
+    }
   }
 
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen} className="my-2">
-      <div className={cn('border rounded-lg p-3', functionCall.status === 'error' && 'border-red-300')}>
+      <div
+        className={cn(
+          'border rounded-lg p-3',
+          functionCall.status === 'error' && 'border-red-300',
+          functionCall.status === 'pending-approval' && 'border-amber-300'
+        )}
+      >
         <CollapsibleTrigger className="flex items-center justify-between w-full hover:opacity-80">
           <div className="flex items-center gap-2">
             <span className="text-lg"><WrenchIcon size={20} color="#000" /></span>
-            <span className="font-semibold">Tool Called: {functionCall.name}</span>
+            <span className="font-semibold">
+              Tool Called: {functionCall.serverLabel ? `${functionCall.serverLabel} → ` : ''}{functionCall.name}
+            </span>
           </div>
           <div className="flex items-center gap-2">
             <Badge className={cn('text-white', statusColors[functionCall.status])}>
@@ -43,9 +91,23 @@ export function FunctionCallStatus({ functionCall }: FunctionCallStatusProps) {
         <CollapsibleContent className="mt-4 space-y-3">
           <div>
             <h4 className="text-sm font-semibold mb-1">Parameters:</h4>
-            <pre className="text-sm text-left bg-muted p-2 rounded overflow-x-auto max-w-full">
-              {JSON.stringify(JSON.parse(functionCall.arguments), null, 2)}
-            </pre>
+            {isEditing ? (
+              <Textarea
+                value={editedArguments}
+                onChange={(e) => {
+                  setEditedArguments(e.target.value)
+                  setEditError('')
+                }}
+                rows={6}
+                className="font-mono text-sm"
+                aria-label={`Edit arguments for ${functionCall.name}`}
+              />
+            ) : (
+              <pre className="text-sm text-left bg-muted p-2 rounded overflow-x-auto max-w-full">
+                {formatArguments(functionCall.arguments)}
+              </pre>
+            )}
+            {editError && <p className="text-sm text-red-600 mt-1">{editError}</p>}
           </div>
 
           {functionCall.response !== undefined && (
@@ -58,6 +120,27 @@ export function FunctionCallStatus({ functionCall }: FunctionCallStatusProps) {
               </pre>
             </div>
           )}
+
+          {awaitingDecision && (
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleApprove}>
+                {isEditing ? 'Approve with edits' : 'Approve'}
+              </Button>
+              {/* MCP approval responses can only approve or deny, not change arguments */}
+              {!isEditing && !functionCall.serverLabel && (
+                <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
+                  Edit arguments
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => onDecision?.({ action: 'reject', reason: 'The user declined to run this tool.' })}
+              >
+                Reject
+              </Button>
+            </div>
+          )}
         </CollapsibleContent>
       </div>
     </Collapsible>
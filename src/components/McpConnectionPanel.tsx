@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, Plug, Unplug } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { McpClientStatus } from '@/hooks/useMcpClient'
+import type { McpConnection, McpConnectionOptions, McpTransportType } from '@/lib/mcpClient'
+
+interface McpConnectionPanelProps {
+  connection: McpConnection | null
+  status: McpClientStatus
+  error: string | null
+  defaultUrl: string
+  onConnect: (options: McpConnectionOptions) => void
+  onDisconnect: () => void
+}
+
+const statusColors: Record<McpClientStatus, string> = {
+  disconnected: 'bg-gray-500',
+  connecting: 'bg-blue-500',
+  connected: 'bg-green-500',
+  error: 'bg-red-500',
+}
+
+/**
+ * Connect the browser to a local MCP server and show the tools it lists.
+ * See: https://modelcontextprotocol.io/docs/develop/build-client
+ */
+export function McpConnectionPanel({ connection, status, error, defaultUrl, onConnect, onDisconnect }: McpConnectionPanelProps) {
+  const [url, setUrl] = useState(defaultUrl)
+  const [transport, setTransport] = useState<McpTransportType>('auto')
+  const [authorization, setAuthorization] = useState('')
+
+  function handleConnect() {
+    const token = authorization.trim()
+    onConnect({
+      url: url.trim(),
+      transport,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    })
+  }
+
+  const isConnected = status === 'connected' && connection !== null
+
+  return (
+    <div className="border-b p-3 space-y-2 text-left">
+      <div className="flex items-center gap-2">
+        <Input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="http://localhost:3001/mcp"
+          disabled={isConnected || status === 'connecting'}
+          aria-label="MCP server URL"
+        />
+        <select
+          value={transport}
+          onChange={(e) => setTransport(e.target.value as McpTransportType)}
+          disabled={isConnected || status === 'connecting'}
+          className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+          aria-label="MCP transport"
+        >
+          <option value="auto">Auto</option>
+          <option value="streamable-http">Streamable HTTP</option>
+          <option value="sse">SSE</option>
+        </select>
+        {isConnected ? (
+          <Button size="sm" variant="outline" onClick={onDisconnect}>
+            <Unplug className="h-4 w-4" /> Disconnect
+          </Button>
+        ) : (
+          <Button size="sm" onClick={handleConnect} disabled={status === 'connecting' || !url.trim()}>
+            <Plug className="h-4 w-4" /> Connect
+          </Button>
+        )}
+      </div>
+
+      {!isConnected && (
+        <Input
+          type="password"
+          value={authorization}
+          onChange={(e) => setAuthorization(e.target.value)}
+          placeholder="Bearer token (optional)"
+          aria-label="Authorization token"
+        />
+      )}
+
+      <div className="flex items-center gap-2 text-sm">
+        <Badge className={cn('text-white', statusColors[status])}>{status}</Badge>
+        {isConnected && (
+          <span className="text-muted-foreground">
+            {connection.serverInfo ? `${connection.serverInfo.name} ${connection.serverInfo.version}` : 'MCP server'} via {connection.transport}
+            {' · '}
+            {connection.tools.length} tool{connection.tools.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isConnected && connection.tools.length > 0 && (
+        <ul className="text-sm space-y-1 max-h-32 overflow-y-auto">
+          {connection.tools.map((tool) => (
+            <li key={tool.name}>
+              <code className="font-mono">{tool.name}</code>
+              {tool.description && <span className="text-muted-foreground"> — {tool.description}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
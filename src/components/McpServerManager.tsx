@@ -0,0 +1,245 @@
+import { useState } from 'react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Textarea } from '@/components/ui/textarea'
+import { ToggleButton } from '@/components/ToggleButton'
+import { AlertCircle, Pencil, Plus, Trash2 } from 'lucide-react'
+import { validateMcpServer } from '@/lib/mcp'
+import type { DiscoveredMcpTools, McpServerConfig } from '@/lib/mcp'
+
+interface McpServerManagerProps {
+  servers: McpServerConfig[]
+  /** Tools each server exposed in the latest `mcp_list_tools` output, keyed by label */
+  discoveredTools: DiscoveredMcpTools
+  onSave: (server: McpServerConfig) => void
+  onRemove: (id: string) => void
+  onReset: () => void
+}
+
+/** Editable text fields for one server; converted to a `McpServerConfig` on save */
+interface ServerFormState {
+  label: string
+  description: string
+  url: string
+  authorization: string
+  headers: string
+  allowedTools: string
+  approvalMode: McpServerConfig['approval']['mode']
+  autoApprove: string
+}
+
+function toFormState(server?: McpServerConfig): ServerFormState {
+  return {
+    label: server?.label ?? '',
+    description: server?.description ?? '',
+    url: server?.url ?? '',
+    authorization: server?.authorization ?? '',
+    headers: Object.entries(server?.headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n'),
+    allowedTools: server?.allowedTools?.join(', ') ?? '',
+    approvalMode: server?.approval.mode ?? 'always',
+    autoApprove: server?.approval.autoApprove?.join(', ') ?? '',
+  }
+}
+
+/** Split a comma-separated list, dropping blanks */
+function splitList(value: string) {
+  return value.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+/** Narrow the approval `<select>`'s value; anything unexpected keeps the safe default */
+function toApprovalMode(value: string): ServerFormState['approvalMode'] {
+  return value === 'never' ? 'never' : 'always'
+}
+
+/** Parse "Name: value" lines into a headers object */
+function parseHeaders(value: string) {
+  const headers: Record<string, string> = {}
+  for (const line of value.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+    }
+  }
+  return headers
+}
+
+function fromFormState(form: ServerFormState, base?: McpServerConfig): McpServerConfig {
+  return {
+    id: base?.id ?? crypto.randomUUID(),
+    enabled: base?.enabled ?? true,
+    label: form.label.trim(),
+    description: form.description.trim() || undefined,
+    url: form.url.trim(),
+    authorization: form.authorization.trim() || undefined,
+    headers: parseHeaders(form.headers),
+    allowedTools: splitList(form.allowedTools),
+    approval: { mode: form.approvalMode, autoApprove: splitList(form.autoApprove) },
+  }
+}
+
+interface ServerFormProps {
+  server?: McpServerConfig
+  servers: McpServerConfig[]
+  onSave: (server: McpServerConfig) => void
+  onCancel: () => void
+}
+
+function ServerForm({ server, servers, onSave, onCancel }: ServerFormProps) {
+  const [form, setForm] = useState(() => toFormState(server))
+  const [errors, setErrors] = useState<string[]>([])
+
+  function update<K extends keyof ServerFormState>(field: K, value: ServerFormState[K]) {
+    setForm((prev) => ({ ...prev, [field]: value }))
+    setErrors([])
+  }
+
+  function handleSave() {
+    const next = fromFormState(form, server)
+    const problems = validateMcpServer(next, servers)
+    if (problems.length > 0) {
+      setErrors(problems)
+      return
+    }
+    onSave(next)
+  }
+
+  return (
+    <div className="space-y-3 border rounded-lg p-3 text-left">
+      <div className="grid grid-cols-2 gap-2">
+        <Input placeholder="Label (e.g. flights)" value={form.label} onChange={(e) => update('label', e.target.value)} aria-label="Server label" />
+        <Input placeholder="https://example.com/mcp" value={form.url} onChange={(e) => update('url', e.target.value)} aria-label="Server URL" />
+      </div>
+      <Input placeholder="Description (helps the model decide when to use it)" value={form.description} onChange={(e) => update('description', e.target.value)} aria-label="Server description" />
+      <Input type="password" placeholder="Authorization token (optional)" value={form.authorization} onChange={(e) => update('authorization', e.target.value)} aria-label="Authorization token" />
+      <Textarea placeholder={'Headers, one per line (e.g. X-Api-Key: abc123)'} value={form.headers} onChange={(e) => update('headers', e.target.value)} rows={2} className="font-mono text-sm" aria-label="Headers" />
+      <p className="text-xs text-muted-foreground">
+        The token and headers are saved in this browser's <code>localStorage</code> in plain text; avoid long-lived credentials.
+      </p>
+      <Input placeholder="Allowed tools, comma separated (empty = all)" value={form.allowedTools} onChange={(e) => update('allowedTools', e.target.value)} aria-label="Allowed tools" />
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={form.approvalMode}
+          onChange={(e) => update('approvalMode', toApprovalMode(e.target.value))}
+          className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+          aria-label="Approval policy"
+        >
+          <option value="always">Require approval</option>
+          <option value="never">Never require approval</option>
+        </select>
+        <Input
+          placeholder="Auto-approve tools, comma separated"
+          value={form.autoApprove}
+          onChange={(e) => update('autoApprove', e.target.value)}
+          disabled={form.approvalMode === 'never'}
+          aria-label="Auto-approved tools"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {errors.map((error) => <div key={error}>{error}</div>)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave}>Save</Button>
+        <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Settings panel for the remote MCP servers sent as `mcp` tools.
+ * See: https://platform.openai.com/docs/guides/tools-connectors-mcp
+ */
+export function McpServerManager({ servers, discoveredTools, onSave, onRemove, onReset }: McpServerManagerProps) {
+  // `null` = no form open, 'new' = adding a server, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+
+  function handleSave(server: McpServerConfig) {
+    onSave(server)
+    setEditing(null)
+  }
+
+  return (
+    <ScrollArea className="h-full w-full">
+      <div className="space-y-4 p-4 pr-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">MCP servers</h2>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={onReset}>Reset to defaults</Button>
+            <Button size="sm" onClick={() => setEditing('new')} disabled={editing === 'new'}>
+              <Plus className="h-4 w-4" /> Add server
+            </Button>
+          </div>
+        </div>
+
+        {editing === 'new' && (
+          <ServerForm servers={servers} onSave={handleSave} onCancel={() => setEditing(null)} />
+        )}
+
+        {servers.length === 0 && editing !== 'new' && (
+          <p className="text-sm text-muted-foreground">No MCP servers configured.</p>
+        )}
+
+        {servers.map((server) =>
+          editing === server.id ? (
+            <ServerForm key={server.id} server={server} servers={servers} onSave={handleSave} onCancel={() => setEditing(null)} />
+          ) : (
+            <div key={server.id} className="border rounded-lg p-3 space-y-2 text-left">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{server.label}</span>
+                <Badge variant="outline">
+                  {server.approval.mode === 'never'
+                    ? 'No approval'
+                    : server.approval.autoApprove?.length
+                      ? `Approval (except ${server.approval.autoApprove.join(', ')})`
+                      : 'Approval required'}
+                </Badge>
+                <div className="ml-auto flex items-center gap-1">
+                  <ToggleButton
+                    label="Enabled"
+                    pressed={server.enabled}
+                    onPressedChange={(enabled) => onSave({ ...server, enabled })}
+                  />
+                  <Button variant="ghost" size="icon-sm" onClick={() => setEditing(server.id)} title="Edit server">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon-sm" onClick={() => onRemove(server.id)} title="Remove server">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground break-all">{server.url}</p>
+              {server.description && <p className="text-sm">{server.description}</p>}
+              {server.allowedTools && server.allowedTools.length > 0 && (
+                <p className="text-sm">Allowed tools: {server.allowedTools.join(', ')}</p>
+              )}
+
+              {/* Tool discovery results from the latest `mcp_list_tools` output */}
+              {discoveredTools[server.label] ? (
+                <ul className="text-sm space-y-1">
+                  {discoveredTools[server.label].map((tool) => (
+                    <li key={tool.name}>
+                      <code className="font-mono">{tool.name}</code>
+                      {tool.description && <span className="text-muted-foreground"> — {tool.description}</span>}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-muted-foreground">Tools are listed after the first request that uses this server.</p>
+              )}
+            </div>
+          )
+        )}
+      </div>
+    </ScrollArea>
+  )
+}
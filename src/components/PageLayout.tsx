@@ -1,13 +1,24 @@
 import type { ReactNode } from 'react'
 import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { RefreshCcw } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import { FilePenLine, RefreshCcw, SlidersHorizontal } from 'lucide-react'
+import { cn } from '@/lib/utils'
 
 interface PageLayoutProps {
   title: string
   subtitle?: string
   chatContent: ReactNode
   inspectorContent: ReactNode
+  /** Extra controls rendered in the chat header, e.g. `ToggleButton`s for request options */
+  headerActions?: ReactNode
+  /** Content of the settings popover in the chat header, e.g. a `RequestSettingsForm` */
+  settingsContent?: ReactNode
+  /** Content of the instructions and tools panel, e.g. a `PlaygroundEditor` */
+  editorContent?: ReactNode
+  /** Left-hand column, e.g. a `ConversationSidebar` */
+  sidebarContent?: ReactNode
   onClear?: () => void
 }
 
@@ -16,11 +27,21 @@ export function PageLayout({
   subtitle,
   chatContent,
   inspectorContent,
+  headerActions,
+  settingsContent,
+  editorContent,
+  sidebarContent,
   onClear,
 }: PageLayoutProps) {
   return (
-    <div className="grid grid-cols-2 gap-4 h-[calc(100vh-4rem)] m-4" style={{ backgroundColor: 'oklch(0.208 0.042 265.755)', borderRadius: '2rem' }}>
-      {/* Left Column: Chat Interface */}
+    <div
+      className={cn('grid gap-4 h-[calc(100vh-4rem)] m-4', sidebarContent ? 'grid-cols-[16rem_1fr_1fr]' : 'grid-cols-2')}
+      style={{ backgroundColor: 'oklch(0.208 0.042 265.755)', borderRadius: '2rem' }}
+    >
+      {/* Optional Sidebar: Saved Conversations */}
+      {sidebarContent}
+
+      {/* Chat Interface */}
       <Card className="flex flex-col overflow-hidden">
         {/* Header */}
         <div className="flex-shrink-0 flex items-center justify-between border-b border-gray-200">
@@ -28,17 +49,47 @@ export function PageLayout({
             <h1 className="text-2xl font-bold text-left">{title}</h1>
             {subtitle && <p className="text-sm text-muted-foreground">{subtitle}</p>}
           </div>
-          {onClear && (
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={onClear}
-              className="mr-4"
-              title="Clear chat history"
-            >
-              <RefreshCcw className="h-4 w-4" />
-            </Button>
-          )}
+          <div className="flex items-center gap-2 mr-4">
+            {headerActions}
+            {editorContent && (
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button variant="ghost" size="icon" title="Instructions and tools">
+                    <FilePenLine className="h-4 w-4" />
+                  </Button>
+                </SheetTrigger>
+                <SheetContent className="w-full sm:max-w-2xl">
+                  <SheetHeader>
+                    <SheetTitle>Instructions and tools</SheetTitle>
+                    <SheetDescription>Change what this page sends with each request, then re-run the last message</SheetDescription>
+                  </SheetHeader>
+                  <div className="flex-1 overflow-y-auto px-4 pb-4">{editorContent}</div>
+                </SheetContent>
+              </Sheet>
+            )}
+            {settingsContent && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="icon" title="Model and request settings">
+                    <SlidersHorizontal className="h-4 w-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-80 max-h-[80vh] overflow-y-auto">
+                  {settingsContent}
+                </PopoverContent>
+              </Popover>
+            )}
+            {onClear && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onClear}
+                title="New conversation"
+              >
+                <RefreshCcw className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Chat Content Area */}
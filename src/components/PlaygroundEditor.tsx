@@ -0,0 +1,213 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { SheetClose } from '@/components/ui/sheet'
+import { diffLines, formatTools, lintTools } from '@/lib/playgroundConfig'
+import type { PlaygroundConfig, ToolLintOptions } from '@/lib/playgroundConfig'
+import { cn } from '@/lib/utils'
+
+interface PlaygroundEditorProps {
+  /** The config the page is using. */
+  config: PlaygroundConfig
+  /** The page's built-in config, for the diff and "Reset to defaults". */
+  defaults: PlaygroundConfig
+  lintOptions?: ToolLintOptions
+  onSave: (config: PlaygroundConfig) => void
+  onReset: () => void
+  /** Save `config`, then send the last user message again with it. */
+  onRerun?: (config: PlaygroundConfig) => void
+  /** Whether there is a user message to re-run and no request running. */
+  canRerun?: boolean
+  /**
+   * Where the page's tools come from, for pages whose tools aren't edited here
+   * (e.g. MCP servers); replaces the tools JSON with this note.
+   */
+  toolsSource?: string
+}
+
+const textareaClassName = 'w-full rounded-md border border-input bg-transparent px-2 py-1.5 text-sm font-mono'
+
+const DIFF_LINE_STYLE = {
+  same: { prefix: ' ', className: 'text-muted-foreground' },
+  added: { prefix: '+', className: 'bg-green-950 text-green-300' },
+  removed: { prefix: '-', className: 'bg-red-950 text-red-300' },
+}
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs font-medium">{label}</span>
+      {children}
+      {hint && <span className="block text-xs text-muted-foreground">{hint}</span>}
+    </label>
+  )
+}
+
+/** One section of the diff against the page defaults; nothing when unchanged. */
+function DiffSection({ label, before, after }: { label: string; before: string; after: string }) {
+  if (before === after) return null
+  return (
+    <section className="space-y-1">
+      <h4 className="text-xs font-medium">{label}</h4>
+      <pre className="overflow-x-auto rounded-md border text-xs leading-5">
+        {diffLines(before, after).map((line, index) => {
+          const { prefix, className } = DIFF_LINE_STYLE[line.kind]
+          return (
+            <div key={index} className={cn('px-2 whitespace-pre-wrap', className)}>
+              {prefix} {line.text}
+            </div>
+          )
+        })}
+      </pre>
+    </section>
+  )
+}
+
+/**
+ * Edit the page's `instructions` and `tools`, shown in the `PageLayout` editor panel.
+ * Tool JSON is checked with `lintTools` as you type; a config with errors can't be saved.
+ * With `toolsSource` set, only the instructions are edited.
+ * See: https://platform.openai.com/docs/api-reference/responses/create#responses_create-instructions
+ */
+export function PlaygroundEditor({
+  config,
+  defaults,
+  lintOptions,
+  onSave,
+  onReset,
+  onRerun,
+  canRerun = false,
+  toolsSource,
+}: PlaygroundEditorProps) {
+  const [instructions, setInstructions] = useState(config.instructions)
+  const [followUpInstructions, setFollowUpInstructions] = useState(config.followUpInstructions)
+  const [toolsJson, setToolsJson] = useState(() => formatTools(config.tools))
+  const [view, setView] = useState<'edit' | 'diff'>('edit')
+
+  const { tools, problems } = lintTools(toolsJson, lintOptions)
+  const draft: PlaygroundConfig | null = tools
+    ? { instructions, ...(followUpInstructions !== undefined && { followUpInstructions }), tools }
+    : null
+  const isSaved = draft !== null && JSON.stringify(draft) === JSON.stringify(config)
+  const isDefault = JSON.stringify(config) === JSON.stringify(defaults)
+  const isDraftDefault = draft !== null && JSON.stringify(draft) === JSON.stringify(defaults)
+
+  function handleReset() {
+    setInstructions(defaults.instructions)
+    setFollowUpInstructions(defaults.followUpInstructions)
+    setToolsJson(formatTools(defaults.tools))
+    onReset()
+  }
+
+  const diff = (
+    <div className="space-y-3">
+      <DiffSection label="Instructions" before={defaults.instructions} after={instructions} />
+      {followUpInstructions !== undefined && (
+        <DiffSection label="Follow-up instructions" before={defaults.followUpInstructions ?? ''} after={followUpInstructions} />
+      )}
+      {/* Compare formatted JSON so whitespace-only edits don't show up */}
+      <DiffSection label="Tools" before={formatTools(defaults.tools)} after={tools ? formatTools(tools) : toolsJson} />
+      {isDraftDefault && (
+        <p className="text-sm text-muted-foreground">No changes from the page defaults.</p>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {isDefault ? 'Using the page defaults' : 'Using an edited config, saved for this page'}
+        </p>
+        <div className="flex gap-1">
+          <Button variant={view === 'edit' ? 'secondary' : 'ghost'} size="xs" onClick={() => setView('edit')}>
+            Edit
+          </Button>
+          <Button variant={view === 'diff' ? 'secondary' : 'ghost'} size="xs" onClick={() => setView('diff')}>
+            Diff against defaults
+          </Button>
+        </div>
+      </div>
+
+      {view === 'diff' ? (
+        diff
+      ) : (
+        <>
+          <Field label="Instructions" hint={followUpInstructions !== undefined ? 'Sent with the first request of each turn' : undefined}>
+            <textarea
+              rows={6}
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              className={textareaClassName}
+            />
+          </Field>
+
+          {followUpInstructions !== undefined && (
+            <Field label="Follow-up instructions" hint="Sent with the requests that return tool results">
+              <textarea
+                rows={5}
+                value={followUpInstructions}
+                onChange={(e) => setFollowUpInstructions(e.target.value)}
+                className={textareaClassName}
+              />
+            </Field>
+          )}
+
+          {toolsSource !== undefined ? (
+            <p className="text-xs text-muted-foreground">{toolsSource}</p>
+          ) : (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium">Tools (JSON)</span>
+                <Button variant="ghost" size="xs" disabled={!tools} onClick={() => tools && setToolsJson(formatTools(tools))}>
+                  Format
+                </Button>
+              </div>
+              <textarea
+                rows={16}
+                spellCheck={false}
+                value={toolsJson}
+                onChange={(e) => setToolsJson(e.target.value)}
+                aria-invalid={!tools}
+                className={cn(textareaClassName, 'aria-invalid:border-destructive')}
+              />
+              {problems.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No problems found</p>
+              ) : (
+                <ul className="space-y-0.5 text-xs">
+                  {problems.map((problem, index) => (
+                    <li key={index} className={problem.severity === 'error' ? 'text-destructive' : 'text-amber-400'}>
+                      {problem.severity === 'error' ? 'Error' : 'Warning'}: <code>{problem.path}</code> {problem.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        <Button size="sm" disabled={!draft || isSaved} onClick={() => draft && onSave(draft)}>
+          Save
+        </Button>
+        {onRerun && (
+          <SheetClose asChild>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={!draft || !canRerun}
+              onClick={() => draft && onRerun(draft)}
+              title="Save, then send the last user message again in place of its answer"
+            >
+              Save and re-run last message
+            </Button>
+          </SheetClose>
+        )}
+        <Button size="sm" variant="outline" disabled={isDefault && isDraftDefault} onClick={handleReset}>
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  getModelOptions,
+  isGpt5Model,
+  isReasoningModel,
+  reasoningEffortOptions,
+  supportsTemperature,
+} from '@/lib/requestSettings'
+import type { ReasoningEffort, RequestSettings, ToolChoiceSetting, Verbosity } from '@/lib/requestSettings'
+
+interface RequestSettingsFormProps {
+  settings: RequestSettings
+  onChange: (patch: Partial<RequestSettings>) => void
+  onReset: () => void
+  /** Show `parallel_tool_calls` and `tool_choice`; pages without tools hide them. */
+  hasTools?: boolean
+  /** Function tools `tool_choice` can force by name. */
+  functionNames?: string[]
+}
+
+const selectClassName = 'h-8 w-full rounded-md border border-input bg-transparent px-2 text-sm'
+
+/** `tool_choice` as a `<select>` value; forced functions are `function:<name>`. */
+function toToolChoiceValue(toolChoice: ToolChoiceSetting) {
+  return typeof toolChoice === 'string' ? toolChoice : `function:${toolChoice.function}`
+}
+
+function fromToolChoiceValue(value: string): ToolChoiceSetting {
+  return value.startsWith('function:') ? { function: value.slice('function:'.length) } : (value as ToolChoiceSetting)
+}
+
+/** Parse a number input; empty (or not a number) means "use the default". */
+function parseOptionalNumber(value: string) {
+  const number = Number(value)
+  return value.trim() === '' || Number.isNaN(number) ? null : number
+}
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs font-medium">{label}</span>
+      {children}
+      {hint && <span className="block text-xs text-muted-foreground">{hint}</span>}
+    </label>
+  )
+}
+
+/**
+ * Model and request parameters for the page, shown in the `PageLayout` settings popover.
+ * Fields the selected model doesn't accept are hidden (see `toRequestParams`).
+ * See: https://platform.openai.com/docs/api-reference/responses/create
+ */
+export function RequestSettingsForm({ settings, onChange, onReset, hasTools = false, functionNames = [] }: RequestSettingsFormProps) {
+  const [modelOptions] = useState(getModelOptions)
+  const models = modelOptions.includes(settings.model) ? modelOptions : [settings.model, ...modelOptions]
+  const { model } = settings
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Request settings</h3>
+        <Button variant="ghost" size="xs" onClick={onReset}>
+          Reset
+        </Button>
+      </div>
+
+      <Field label="Model">
+        <select value={model} onChange={(e) => onChange({ model: e.target.value })} className={selectClassName}>
+          {models.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </Field>
+
+      {isReasoningModel(model) && (
+        <Field label="Reasoning effort" hint="reasoning.effort — less effort answers faster with fewer reasoning tokens">
+          <select
+            value={settings.reasoningEffort ?? ''}
+            onChange={(e) => onChange({ reasoningEffort: (e.target.value || null) as ReasoningEffort | null })}
+            className={selectClassName}
+          >
+            <option value="">Model default</option>
+            {reasoningEffortOptions(model).map((effort) => (
+              <option key={effort} value={effort}>
+                {effort}
+              </option>
+            ))}
+          </select>
+        </Field>
+      )}
+
+      {isGpt5Model(model) && (
+        <Field label="Verbosity" hint="text.verbosity — how long and detailed the answer is">
+          <select
+            value={settings.verbosity ?? ''}
+            onChange={(e) => onChange({ verbosity: (e.target.value || null) as Verbosity | null })}
+            className={selectClassName}
+          >
+            <option value="">Model default</option>
+            <option value="low">low</option>
+            <option value="medium">medium</option>
+            <option value="high">high</option>
+          </select>
+        </Field>
+      )}
+
+      {supportsTemperature(model) && (
+        <Field label="Temperature" hint="0–2; empty for the model default">
+          <Input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            className="h-8"
+            value={settings.temperature ?? ''}
+            onChange={(e) => onChange({ temperature: parseOptionalNumber(e.target.value) })}
+          />
+        </Field>
+      )}
+
+      <Field label="Max output tokens" hint="Includes reasoning tokens; empty for no limit">
+        <Input
+          type="number"
+          min={16}
+          step={1}
+          className="h-8"
+          value={settings.maxOutputTokens ?? ''}
+          onChange={(e) => onChange({ maxOutputTokens: parseOptionalNumber(e.target.value) })}
+        />
+      </Field>
+
+      {hasTools && (
+        <>
+          <Field label="Tool choice">
+            <select
+              value={toToolChoiceValue(settings.toolChoice)}
+              onChange={(e) => onChange({ toolChoice: fromToolChoiceValue(e.target.value) })}
+              className={selectClassName}
+            >
+              <option value="auto">auto — the model decides</option>
+              <option value="required">required — must call a tool</option>
+              <option value="none">none — never call tools</option>
+              {functionNames.map((name) => (
+                <option key={name} value={`function:${name}`}>
+                  force {name}()
+                </option>
+              ))}
+            </select>
+          </Field>
+
+          <label className="flex items-center gap-2 text-xs font-medium">
+            <input
+              type="checkbox"
+              checked={settings.parallelToolCalls}
+              onChange={(e) => onChange({ parallelToolCalls: e.target.checked })}
+            />
+            Parallel tool calls
+          </label>
+        </>
+      )}
+    </div>
+  )
+}
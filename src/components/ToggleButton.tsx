@@ -0,0 +1,27 @@
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+interface ToggleButtonProps {
+  label: string
+  pressed: boolean
+  onPressedChange: (pressed: boolean) => void
+  title?: string
+  disabled?: boolean
+}
+
+/** Small on/off switch for per-page request options (shown in the `PageLayout` header). */
+export function ToggleButton({ label, pressed, onPressedChange, title, disabled }: ToggleButtonProps) {
+  return (
+    <Button
+      variant={pressed ? 'default' : 'outline'}
+      size="xs"
+      aria-pressed={pressed}
+      title={title}
+      disabled={disabled}
+      onClick={() => onPressedChange(!pressed)}
+      className={cn('border-2', !pressed && 'text-muted-foreground')}
+    >
+      {label}: {pressed ? 'On' : 'Off'}
+    </Button>
+  )
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useLocation } from 'react-router-dom'
+import {
+  listConversations,
+  saveConversation,
+  putConversation,
+  deleteConversation as deleteStoredConversation,
+} from '@/lib/conversationStore'
+import type { ConversationSnapshot, StoredConversation } from '@/lib/conversationStore'
+import type { ConversationExport } from '@/lib/conversationExport'
+import type { Message, TraceStep } from '@/types/chat'
+
+/** Delay before saving, so a streamed answer is written once rather than per delta. */
+const SAVE_DELAY_MS = 500
+
+/** Router state for opening an imported conversation (see `ConversationSidebar`). */
+export interface ImportedConversationState {
+  importedConversation: ConversationExport
+}
+
+interface UseConversationHistoryOptions {
+  /** The page's current trace (`useTrace().traceSteps`), saved with each conversation */
+  traceSteps: TraceStep[]
+  /** Replaces the page's trace when a conversation is opened (`useTrace().restoreTrace`) */
+  restoreTrace: (steps: TraceStep[]) => void
+}
+
+/**
+ * The page's messages, persisted per lesson route in IndexedDB.
+ *
+ * Replaces `useState<Message[]>` on a lesson page: `messages` / `setMessages`
+ * work the same, and every change is saved (with the trace) to the active
+ * conversation. The most recent conversation is reopened on load — or, when
+ * the page was opened with `ImportedConversationState`, the imported one,
+ * read-only and unsaved.
+ *
+ * - `newConversation()` — starts an empty conversation (the old one stays saved)
+ * - `selectConversation(id)` — opens a saved conversation and its trace
+ * - `renameConversation(id, title)`, `duplicateConversation(id)`, `deleteConversation(id)`
+ */
+export function useConversationHistory({ traceSteps, restoreTrace }: UseConversationHistoryOptions) {
+  const { pathname: route, state } = useLocation()
+  const imported = (state as ImportedConversationState | null)?.importedConversation
+  const [messages, setMessages] = useState<Message[]>([])
+  const [conversations, setConversations] = useState<StoredConversation[]>([])
+  const [activeId, setActiveId] = useState<string>(() => crypto.randomUUID())
+  const [readOnly, setReadOnly] = useState(false)
+  // The messages and trace as last opened, so reopening a conversation doesn't re-save it
+  const opened = useRef<{ messages: Message[]; traceSteps: TraceStep[] } | null>(null)
+  // Changes waiting for the save delay; flushed early on switch and unmount
+  const pendingSave = useRef<ConversationSnapshot | null>(null)
+
+  const flushSave = useCallback(() => {
+    const snapshot = pendingSave.current
+    if (!snapshot) return
+    pendingSave.current = null
+    saveConversation(snapshot)
+      .then((saved) => setConversations((prev) => [saved, ...prev.filter((c) => c.id !== saved.id)]))
+      .catch((error) => console.error('Failed to save conversation:', error))
+  }, [])
+
+  // The messages as last rendered, for the load below to check without re-running on every change
+  const currentMessages = useRef(messages)
+  useEffect(() => {
+    currentMessages.current = messages
+  }, [messages])
+
+  // Load this route's conversations and reopen the most recent one (or show the import)
+  useEffect(() => {
+    let ignore = false
+    listConversations(route)
+      .then((stored) => {
+        if (ignore) return
+        setConversations(stored)
+        const latest = imported ?? stored[0]
+        // A message sent before the load finished starts a new conversation; don't replace it
+        if (latest && currentMessages.current.length === 0) {
+          opened.current = latest
+          setActiveId(imported ? crypto.randomUUID() : stored[0].id)
+          setReadOnly(Boolean(imported))
+          setMessages(latest.messages)
+          restoreTrace(latest.traceSteps)
+        }
+      })
+      .catch((error) => console.error('Failed to load conversations:', error))
+    return () => {
+      ignore = true
+    }
+  }, [route, imported, restoreTrace])
+
+  // Save the active conversation shortly after it changes; empty ones aren't stored
+  useEffect(() => {
+    if (messages.length === 0 || readOnly) return
+    if (messages === opened.current?.messages && traceSteps === opened.current.traceSteps) return
+    pendingSave.current = { id: activeId, route, messages, traceSteps }
+    const timer = setTimeout(flushSave, SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [activeId, route, messages, traceSteps, readOnly, flushSave])
+
+  // Don't lose the last changes when leaving the page
+  useEffect(() => flushSave, [flushSave])
+
+  const open = useCallback(
+    (conversation: Pick<StoredConversation, 'id' | 'messages' | 'traceSteps'>) => {
+      flushSave()
+      opened.current = conversation
+      setReadOnly(false)
+      setActiveId(conversation.id)
+      setMessages(conversation.messages)
+      restoreTrace(conversation.traceSteps)
+    },
+    [flushSave, restoreTrace]
+  )
+
+  const newConversation = useCallback(
+    () => open({ id: crypto.randomUUID(), messages: [], traceSteps: [] }),
+    [open]
+  )
+
+  const selectConversation = useCallback(
+    (id: string) => {
+      const conversation = conversations.find((c) => c.id === id)
+      if (conversation) open(conversation)
+    },
+    [conversations, open]
+  )
+
+  const renameConversation = useCallback(
+    async (id: string, title: string) => {
+      const conversation = conversations.find((c) => c.id === id)
+      if (!conversation || !title.trim()) return
+      const renamed = { ...conversation, title: title.trim() }
+      await putConversation(renamed)
+      setConversations((prev) => prev.map((c) => (c.id === id ? renamed : c)))
+    },
+    [conversations]
+  )
+
+  const duplicateConversation = useCallback(
+    async (id: string) => {
+      const conversation = conversations.find((c) => c.id === id)
+      if (!conversation) return
+      const now = Date.now()
+      const copy = { ...conversation, id: crypto.randomUUID(), title: `${conversation.title} (copy)`, createdAt: now, updatedAt: now }
+      await putConversation(copy)
+      setConversations((prev) => [copy, ...prev])
+      open(copy)
+    },
+    [conversations, open]
+  )
+
+  const deleteConversation = useCallback(
+    async (id: string) => {
+      // Drop unsaved changes to the deleted conversation, or switching away would write it back
+      if (pendingSave.current?.id === id) pendingSave.current = null
+      await deleteStoredConversation(id)
+      setConversations((prev) => prev.filter((c) => c.id !== id))
+      if (id === activeId) newConversation()
+    },
+    [activeId, newConversation]
+  )
+
+  return {
+    messages,
+    setMessages,
+    conversations,
+    activeId,
+    /** An imported conversation is shown read-only until another one is opened */
+    readOnly,
+    newConversation,
+    selectConversation,
+    renameConversation,
+    duplicateConversation,
+    deleteConversation,
+  }
+}
+
+export type ConversationHistory = ReturnType<typeof useConversationHistory>
@@ -0,0 +1,105 @@
+import { useRef, useCallback } from 'react'
+import type { Dispatch, SetStateAction } from 'react'
+import type { FunctionExecution, PendingFunctionCall } from '@/lib/toolLoop'
+import type { ApprovalDecision, FunctionCall, Message } from '@/types/chat'
+
+/**
+ * Human-in-the-loop approval for `runToolLoop`.
+ *
+ * - `requestApproval(call)` — pass as `approve`; adds a `role: 'function'`
+ *    message with a `pending-approval` card and waits for the user
+ * - `decide(callId, decision)` — pass to `ChatArea`'s `onFunctionCallDecision`
+ * - `recordExecution(execution)` — pass as `onExecution`; shows the result on the card
+ * - `updateCall(callId, update)` — patch a card directly (e.g. with an `mcp_call` result)
+ * - `rejectPending(reason)` — rejects every open request (e.g. when clearing the chat)
+ * - `cancelCalls(reason)` — rejects open requests and closes every unfinished card
+ *    (e.g. when the user stops the request)
+ */
+export function useFunctionCallApproval(setMessages: Dispatch<SetStateAction<Message[]>>) {
+  const resolvers = useRef(new Map<string, (decision: ApprovalDecision) => void>())
+
+  const updateCall = useCallback(
+    (callId: string, update: Partial<FunctionCall>) =>
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.role === 'function' && msg.functionCall?.callId === callId
+            ? { ...msg, functionCall: { ...msg.functionCall, ...update } }
+            : msg
+        )
+      ),
+    [setMessages]
+  )
+
+  const requestApproval = useCallback(
+    (call: PendingFunctionCall) =>
+      new Promise<ApprovalDecision>((resolve) => {
+        resolvers.current.set(call.call_id, resolve)
+        setMessages((prev) => [
+          ...prev,
+          {
+            role: 'function',
+            content: '',
+            functionCall: {
+              callId: call.call_id,
+              serverLabel: call.server_label,
+              name: call.name,
+              arguments: call.arguments,
+              status: 'pending-approval',
+            },
+          },
+        ])
+      }),
+    [setMessages]
+  )
+
+  const decide = useCallback(
+    (callId: string, decision: ApprovalDecision) => {
+      const resolve = resolvers.current.get(callId)
+      if (!resolve) return
+      resolvers.current.delete(callId)
+      updateCall(
+        callId,
+        decision.action === 'reject'
+          ? { status: 'rejected' }
+          : { status: 'executing', ...(decision.arguments !== undefined && { arguments: decision.arguments }) }
+      )
+      resolve(decision)
+    },
+    [updateCall]
+  )
+
+  const recordExecution = useCallback(
+    (execution: FunctionExecution) =>
+      updateCall(execution.call_id, { status: execution.status, response: execution.result }),
+    [updateCall]
+  )
+
+  const rejectPending = useCallback(
+    (reason: string) => {
+      for (const [callId, resolve] of resolvers.current) {
+        resolve({ action: 'reject', reason })
+        resolvers.current.delete(callId)
+      }
+    },
+    []
+  )
+
+  const cancelCalls = useCallback(
+    (reason: string) => {
+      rejectPending(reason)
+      setMessages((prev) =>
+        prev.map((msg) => {
+          const status = msg.functionCall?.status
+          if (msg.role !== 'function' || (status !== 'pending-approval' && status !== 'executing')) return msg
+          return {
+            ...msg,
+            functionCall: { ...msg.functionCall!, status: status === 'executing' ? 'error' : 'rejected', response: { error: reason } },
+          }
+        })
+      )
+    },
+    [rejectPending, setMessages]
+  )
+
+  return { requestApproval, decide, recordExecution, updateCall, rejectPending, cancelCalls }
+}
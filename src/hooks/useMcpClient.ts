@@ -0,0 +1,50 @@
+import { useState, useCallback, useEffect } from 'react'
+import { connectMcpServer } from '@/lib/mcpClient'
+import type { McpConnection, McpConnectionOptions } from '@/lib/mcpClient'
+
+export type McpClientStatus = 'disconnected' | 'connecting' | 'connected' | 'error'
+
+/**
+ * Connection to one MCP server made from the browser.
+ *
+ * - `connect(options)` — closes any open connection, connects and lists tools
+ * - `disconnect()` — closes the connection
+ *
+ * The connection is closed when the page unmounts.
+ */
+export function useMcpClient() {
+  const [connection, setConnection] = useState<McpConnection | null>(null)
+  const [status, setStatus] = useState<McpClientStatus>('disconnected')
+  const [error, setError] = useState<string | null>(null)
+
+  const connect = useCallback(async (options: McpConnectionOptions) => {
+    setStatus('connecting')
+    setError(null)
+    setConnection(null)
+
+    try {
+      const next = await connectMcpServer(options)
+      setConnection(next)
+      setStatus('connected')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not connect to the MCP server')
+      setStatus('error')
+    }
+  }, [])
+
+  const disconnect = useCallback(() => {
+    setConnection(null)
+    setStatus('disconnected')
+    setError(null)
+  }, [])
+
+  // Close the previous connection whenever it is replaced, and on unmount
+  useEffect(
+    () => () => {
+      connection?.close().catch((error) => console.error('Failed to close MCP connection:', error))
+    },
+    [connection]
+  )
+
+  return { connection, status, error, connect, disconnect }
+}
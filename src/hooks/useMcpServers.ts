@@ -0,0 +1,54 @@
+import { useState, useCallback } from 'react'
+import { DEFAULT_MCP_SERVERS } from '@/lib/mcp'
+import type { McpServerConfig } from '@/lib/mcp'
+
+const MCP_SERVERS_STORAGE_KEY = 'mcp_servers'
+
+function loadServers(): McpServerConfig[] {
+  try {
+    const stored = localStorage.getItem(MCP_SERVERS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : DEFAULT_MCP_SERVERS
+  } catch {
+    return DEFAULT_MCP_SERVERS
+  }
+}
+
+/**
+ * Configured MCP servers, persisted in localStorage.
+ *
+ * - `saveServer(server)` — adds a new server or replaces the one with the same `id`
+ * - `removeServer(id)` — deletes a server
+ * - `resetServers()` — restores the defaults
+ */
+export function useMcpServers() {
+  const [servers, setServers] = useState<McpServerConfig[]>(loadServers)
+
+  const persist = useCallback(
+    (update: (prev: McpServerConfig[]) => McpServerConfig[]) =>
+      setServers((prev) => {
+        const next = update(prev)
+        localStorage.setItem(MCP_SERVERS_STORAGE_KEY, JSON.stringify(next))
+        return next
+      }),
+    []
+  )
+
+  const saveServer = useCallback(
+    (server: McpServerConfig) =>
+      persist((prev) =>
+        prev.some((s) => s.id === server.id)
+          ? prev.map((s) => (s.id === server.id ? server : s))
+          : [...prev, server]
+      ),
+    [persist]
+  )
+
+  const removeServer = useCallback(
+    (id: string) => persist((prev) => prev.filter((s) => s.id !== id)),
+    [persist]
+  )
+
+  const resetServers = useCallback(() => persist(() => DEFAULT_MCP_SERVERS), [persist])
+
+  return { servers, saveServer, removeServer, resetServers }
+}
@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react'
+import { useLocation } from 'react-router-dom'
+import { parsePlaygroundConfig } from '@/lib/playgroundConfig'
+import type { PlaygroundConfig, ToolLintOptions } from '@/lib/playgroundConfig'
+
+/**
+ * The page's instructions and tools, saved in `localStorage` per route.
+ *
+ * - `config` — the edited `PlaygroundConfig`, or `defaults` when nothing was saved
+ * - `isEdited` — whether a saved edit is in use
+ * - `saveConfig(config)` — use and save an edited config
+ * - `resetConfig()` — back to `defaults`
+ *
+ * `lintOptions` are the page's `lintTools` options; a saved config whose tools
+ * no longer pass them falls back to the default tools.
+ */
+export function usePlaygroundConfig(defaults: PlaygroundConfig, lintOptions?: ToolLintOptions) {
+  const { pathname } = useLocation()
+  const storageKey = `playground_config:${pathname}`
+  const [saved, setSaved] = useState(() => localStorage.getItem(storageKey))
+  const [config, setConfig] = useState(() => parsePlaygroundConfig(saved, defaults, lintOptions))
+
+  const saveConfig = useCallback(
+    (next: PlaygroundConfig) => {
+      const serialized = JSON.stringify(next)
+      localStorage.setItem(storageKey, serialized)
+      setSaved(serialized)
+      setConfig(next)
+    },
+    [storageKey]
+  )
+
+  const resetConfig = useCallback(() => {
+    localStorage.removeItem(storageKey)
+    setSaved(null)
+    setConfig(defaults)
+  }, [storageKey, defaults])
+
+  return { config, isEdited: saved !== null, saveConfig, resetConfig }
+}
@@ -0,0 +1,26 @@
+import { useRef, useCallback } from 'react'
+
+/**
+ * `AbortController` bookkeeping for a page's in-flight request.
+ *
+ * - `startRequest()` — returns a fresh `AbortSignal` for the new request
+ *    (aborting any request still running)
+ * - `cancelRequest()` — aborts the current request (the Stop button)
+ *
+ * Pass the signal to the OpenAI client (`{ signal }` request option), the
+ * tool loops and tool handlers; after a catch, `signal.aborted` tells a
+ * user cancellation apart from a real error.
+ */
+export function useRequestCancellation() {
+  const controller = useRef<AbortController | null>(null)
+
+  const startRequest = useCallback(() => {
+    controller.current?.abort()
+    controller.current = new AbortController()
+    return controller.current.signal
+  }, [])
+
+  const cancelRequest = useCallback(() => controller.current?.abort(), [])
+
+  return { startRequest, cancelRequest }
+}
@@ -0,0 +1,35 @@
+import { useState, useCallback } from 'react'
+import { useLocation } from 'react-router-dom'
+import { DEFAULT_REQUEST_SETTINGS, parseRequestSettings } from '@/lib/requestSettings'
+import type { RequestSettings } from '@/lib/requestSettings'
+
+/**
+ * The page's model and request parameters, saved in `localStorage` per route.
+ *
+ * - `settings` — the current `RequestSettings`; build the request with `toRequestParams`
+ * - `updateSettings(patch)` — change some fields and save
+ * - `resetSettings()` — back to `DEFAULT_REQUEST_SETTINGS`
+ */
+export function useRequestSettings() {
+  const { pathname } = useLocation()
+  const storageKey = `request_settings:${pathname}`
+  const [settings, setSettings] = useState<RequestSettings>(() => parseRequestSettings(localStorage.getItem(storageKey)))
+
+  const updateSettings = useCallback(
+    (patch: Partial<RequestSettings>) => {
+      setSettings((prev) => {
+        const next = { ...prev, ...patch }
+        localStorage.setItem(storageKey, JSON.stringify(next))
+        return next
+      })
+    },
+    [storageKey]
+  )
+
+  const resetSettings = useCallback(() => {
+    localStorage.removeItem(storageKey)
+    setSettings(DEFAULT_REQUEST_SETTINGS)
+  }, [storageKey])
+
+  return { settings, updateSettings, resetSettings }
+}
@@ -8,6 +8,8 @@ import type { TraceStep } from '@/types/chat'
  * - `trace(id, label, data?)` — marks a step in-progress and returns
  *    a `done(label?, data?)` callback that completes it
  * - `clearTrace()` — resets all steps
+ * - `restoreTrace(steps)` — replaces all steps (e.g. when reopening a saved conversation)
+ * - `cancelTrace()` — marks every in-progress step as a cancelled error
  */
 export function useTrace() {
   const [traceSteps, setTraceSteps] = useState<TraceStep[]>([])
@@ -44,5 +46,17 @@ export function useTrace() {
 
   const clearTrace = useCallback(() => setTraceSteps([]), [])
 
-  return { traceSteps, trace, pushTrace, clearTrace }
+  const restoreTrace = useCallback((steps: TraceStep[]) => setTraceSteps(steps), [])
+
+  const cancelTrace = useCallback(
+    () =>
+      setTraceSteps((prev) =>
+        prev.map((s) =>
+          s.status === 'in-progress' ? { ...s, label: `${s.label} — cancelled`, status: 'error', timestamp: Date.now() } : s
+        )
+      ),
+    []
+  )
+
+  return { traceSteps, trace, pushTrace, clearTrace, cancelTrace, restoreTrace }
 }
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RateLimitError } from 'openai'
+import { checkApiKey, requestErrorMessage, supportsResponsesTools } from '@/lib/apiKeyCheck'
+
+const fetchMock = vi.fn<typeof fetch>()
+
+function apiError(status: number, code: string, message = 'error') {
+  return Response.json({ error: { message, type: 'invalid_request_error', param: null, code } }, { status })
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.unstubAllGlobals()
+})
+
+describe('supportsResponsesTools', () => {
+  it.each(['gpt-5', 'gpt-5-mini', 'gpt-4.1-nano', 'gpt-4o-2024-11-20', 'o3', 'o4-mini'])('accepts %s', (id) => {
+    expect(supportsResponsesTools(id)).toBe(true)
+  })
+
+  it.each(['gpt-4o-audio-preview', 'gpt-4o-mini-search-preview', 'gpt-realtime', 'gpt-image-1', 'o1-mini', 'text-embedding-3-small', 'whisper-1', 'dall-e-3'])(
+    'rejects %s',
+    (id) => {
+      expect(supportsResponsesTools(id)).toBe(false)
+    }
+  )
+})
+
+describe('checkApiKey', () => {
+  it('returns the organization, project and usable models', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json(
+        {
+          object: 'list',
+          data: ['whisper-1', 'gpt-5-mini', 'gpt-5', 'gpt-4o-audio-preview'].map((id) => ({ id, object: 'model', created: 0, owned_by: 'openai' })),
+        },
+        { headers: { 'openai-organization': 'acme-inc', 'openai-project': 'proj_123' } }
+      )
+    )
+
+    await expect(checkApiKey('sk-test-key-that-is-long-enough')).resolves.toEqual({
+      ok: true,
+      organization: 'acme-inc',
+      project: 'proj_123',
+      models: ['gpt-5', 'gpt-5-mini'],
+    })
+    expect(String(fetchMock.mock.calls[0][0])).toMatch(/\/models$/)
+  })
+
+  it('reports missing context headers as null', async () => {
+    fetchMock.mockResolvedValue(Response.json({ object: 'list', data: [] }))
+
+    await expect(checkApiKey('sk-test-key-that-is-long-enough')).resolves.toMatchObject({ ok: true, organization: null, project: null, models: [] })
+  })
+
+  it('reports a revoked key', async () => {
+    fetchMock.mockResolvedValue(apiError(401, 'invalid_api_key', 'Incorrect API key provided'))
+
+    await expect(checkApiKey('sk-revoked-key-that-is-long-enough')).resolves.toMatchObject({ ok: false, problem: 'invalid_key' })
+  })
+
+  it('tells an exhausted quota apart from rate limiting', async () => {
+    fetchMock.mockResolvedValueOnce(apiError(429, 'insufficient_quota'))
+    await expect(checkApiKey('sk-test-key-that-is-long-enough')).resolves.toMatchObject({ ok: false, problem: 'quota_exceeded' })
+
+    fetchMock.mockResolvedValueOnce(apiError(429, 'rate_limit_exceeded'))
+    await expect(checkApiKey('sk-test-key-that-is-long-enough')).resolves.toMatchObject({ ok: false, problem: 'rate_limited' })
+  })
+
+  it('reports missing permissions', async () => {
+    fetchMock.mockResolvedValue(apiError(403, 'insufficient_permissions', 'You have insufficient permissions for this operation'))
+
+    await expect(checkApiKey('sk-test-key-that-is-long-enough')).resolves.toMatchObject({
+      ok: false,
+      problem: 'permission_denied',
+      message: expect.stringContaining('insufficient permissions'),
+    })
+  })
+
+  it('reports network failures', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+    await expect(checkApiKey('sk-test-key-that-is-long-enough')).resolves.toMatchObject({ ok: false, problem: 'network' })
+  })
+
+  it('reports server errors', async () => {
+    fetchMock.mockResolvedValue(apiError(503, 'server_error'))
+
+    await expect(checkApiKey('sk-test-key-that-is-long-enough')).resolves.toMatchObject({ ok: false, problem: 'server' })
+  })
+})
+
+describe('requestErrorMessage', () => {
+  it('explains an exhausted quota the same way as the key check', async () => {
+    fetchMock.mockResolvedValue(apiError(429, 'insufficient_quota'))
+    const check = await checkApiKey('sk-test-key-that-is-long-enough')
+
+    const error = new RateLimitError(429, { code: 'insufficient_quota' }, 'You exceeded your current quota', new Headers())
+    expect(check).toMatchObject({ ok: false, message: requestErrorMessage(error) })
+  })
+
+  it('passes other errors through', () => {
+    expect(requestErrorMessage(new RateLimitError(429, { code: 'rate_limit_exceeded', message: 'Rate limit reached' }, undefined, new Headers()))).toBe('429 Rate limit reached')
+    expect(requestErrorMessage('oops')).toBe('Unknown error')
+  })
+})
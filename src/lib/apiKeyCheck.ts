@@ -0,0 +1,109 @@
+/**
+ * Verify an API key before the lessons use it
+ *
+ * API Reference: https://platform.openai.com/docs/api-reference/models/list
+ * Errors: https://platform.openai.com/docs/guides/error-codes
+ *
+ * Listing models is the cheapest authenticated call: it costs no tokens and
+ * fails the same way a real request would for a bad or revoked key. The
+ * response headers name the organization and project the key belongs to, and
+ * the list shows which models the lessons can use.
+ *
+ * The list is free, so a key with no quota left still passes it; the first real
+ * request is refused with `insufficient_quota`. Pages report that with the same
+ * message through `requestErrorMessage`.
+ */
+
+import {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  AuthenticationError,
+  InternalServerError,
+  PermissionDeniedError,
+  RateLimitError,
+} from 'openai'
+import { createOpenAIClient } from '@/lib/openaiClient'
+
+/** Why a key could not be verified; each reason gets its own message in `ApiKeyConfig`. */
+export type ApiKeyProblem = 'invalid_key' | 'permission_denied' | 'quota_exceeded' | 'rate_limited' | 'network' | 'server' | 'unknown'
+
+export type ApiKeyCheck =
+  | {
+      ok: true
+      /** From the `openai-organization` header; `null` when the browser can't read it. */
+      organization: string | null
+      /** From the `openai-project` header; `null` when the browser can't read it. */
+      project: string | null
+      /** Model ids usable with the Responses API and function tools, sorted. */
+      models: string[]
+    }
+  | { ok: false; problem: ApiKeyProblem; message: string }
+
+/** Model families that accept Responses API requests with function tools. */
+const RESPONSES_MODEL_PATTERN = /^(gpt-5|gpt-4\.1|gpt-4o|o1|o3|o4-mini)/
+/** Variants of those families for audio, search, images and other special-purpose endpoints. */
+const SPECIAL_PURPOSE_PATTERN = /(audio|realtime|transcribe|tts|search|image|o1-mini|o1-preview|chat-latest)/
+
+/** Whether a model id can run the lessons (Responses API plus function tools). */
+export function supportsResponsesTools(modelId: string) {
+  return RESPONSES_MODEL_PATTERN.test(modelId) && !SPECIAL_PURPOSE_PATTERN.test(modelId)
+}
+
+const QUOTA_MESSAGE = 'This key has no quota left. Add credits or raise the limit in your billing settings.'
+
+function isQuotaError(err: unknown) {
+  return err instanceof RateLimitError && err.code === 'insufficient_quota'
+}
+
+/** Turn an SDK error into the problem and message shown to the user. */
+function toProblem(err: unknown): { problem: ApiKeyProblem; message: string } {
+  // Timeouts are connection errors too, so check them first
+  if (err instanceof APIConnectionTimeoutError) {
+    return { problem: 'network', message: 'The request to OpenAI timed out. Check your connection and try again.' }
+  }
+  if (err instanceof APIConnectionError) {
+    return { problem: 'network', message: 'Could not reach the OpenAI API. Check your connection, VPN or proxy, then try again.' }
+  }
+  if (err instanceof AuthenticationError) {
+    return { problem: 'invalid_key', message: 'OpenAI rejected this key: it is incorrect, revoked or deleted. Create a new one at platform.openai.com/api-keys.' }
+  }
+  if (err instanceof PermissionDeniedError) {
+    return { problem: 'permission_denied', message: `This key can't list models: ${err.message}. Check the key's permissions or the project's allowed models.` }
+  }
+  if (err instanceof RateLimitError) {
+    return isQuotaError(err)
+      ? { problem: 'quota_exceeded', message: QUOTA_MESSAGE }
+      : { problem: 'rate_limited', message: 'Too many requests with this key right now. Wait a moment and try again.' }
+  }
+  if (err instanceof InternalServerError) {
+    return { problem: 'server', message: `OpenAI had a problem (HTTP ${err.status}). Try again in a moment.` }
+  }
+  return { problem: 'unknown', message: err instanceof Error ? err.message : 'The key could not be verified.' }
+}
+
+/**
+ * Verify `apiKey` with a models list call.
+ * See: https://platform.openai.com/docs/api-reference/models/list
+ */
+export async function checkApiKey(apiKey: string, signal?: AbortSignal): Promise<ApiKeyCheck> {
+  try {
+    const { data: page, response } = await createOpenAIClient(apiKey)
+      .models.list({ signal, maxRetries: 0 })
+      .withResponse()
+    return {
+      ok: true,
+      organization: response.headers.get('openai-organization'),
+      project: response.headers.get('openai-project'),
+      models: page.data.map((model) => model.id).filter(supportsResponsesTools).sort(),
+    }
+  } catch (err) {
+    signal?.throwIfAborted()
+    return { ok: false, ...toProblem(err) }
+  }
+}
+
+/** The message a page shows in the chat when a request fails. */
+export function requestErrorMessage(err: unknown) {
+  if (isQuotaError(err)) return QUOTA_MESSAGE
+  return err instanceof Error ? err.message : 'Unknown error'
+}
@@ -0,0 +1,355 @@
+/**
+ * Shared tool-calling loop for the Chat Completions API
+ *
+ * Docs: https://platform.openai.com/docs/guides/function-calling?api-mode=chat
+ * API Reference: https://platform.openai.com/docs/api-reference/chat/create
+ *
+ * The same flow as `runToolLoop` (Responses API), in Chat Completions terms:
+ *   1. Send the messages + `tools` (each wrapped as `{ type: 'function', function }`)
+ *   2. Read `choices[0].message.tool_calls` instead of `function_call` output items
+ *   3. Execute each call with the matching handler from the tool registry
+ *   4. Append the assistant message (with its `tool_calls`) and one
+ *      `role: 'tool'` message per call, linked by `tool_call_id`
+ *   5. Send the messages back and repeat until the model answers with text
+ *
+ * Instructions have no dedicated parameter here; they are sent as a leading
+ * `developer` message on every request.
+ *
+ * With `stream: true` each completion is streamed: text deltas are forwarded to
+ * `onTextDelta`, and tool call deltas — which arrive as `{ index, id?, function:
+ * { name?, arguments? } }` fragments — are accumulated into complete tool calls.
+ * See: https://platform.openai.com/docs/guides/function-calling?api-mode=chat#streaming
+ *
+ * Aborting `signal` cancels the open request or stream and the running tool
+ * handlers; the loop then rejects with the abort error.
+ */
+
+import type OpenAI from 'openai'
+import { createTrace, handleFunctionCall, parseArgumentsForTrace } from '@/lib/toolCalls'
+import type { ToolRegistry } from '@/lib/toolRegistry'
+import type { FunctionExecution, PendingFunctionCall } from '@/lib/toolLoop'
+import type { ApprovalDecision, TraceStep } from '@/types/chat'
+
+export interface RunCompletionsToolLoopOptions {
+  client: OpenAI
+  model: string
+  /** Sent as a `developer` message at the start of every request. */
+  instructions?: string
+  /** Instructions for the follow-up requests; defaults to `instructions`. */
+  followUpInstructions?: string
+  /** Function tools and their handlers (see `createToolRegistry`). */
+  registry: ToolRegistry
+  /** Conversation so far, ending with the latest user message. */
+  messages: OpenAI.Chat.ChatCompletionMessageParam[]
+  /** Stream every completion, accumulating text and tool call argument deltas. */
+  stream?: boolean
+  /** Receives streamed text as it arrives (only with `stream: true`). */
+  onTextDelta?: (delta: string) => void
+  /** Receives trace steps as the loop progresses (e.g. `useTrace().pushTrace`). */
+  onTrace?: (step: TraceStep) => void
+  /** Human-in-the-loop hook: resolve with the user's decision before each call runs. */
+  approve?: (call: PendingFunctionCall) => Promise<ApprovalDecision>
+  /** Called after each function call has been executed, rejected or failed. */
+  onExecution?: (execution: FunctionExecution) => void
+  /** Safety limit on the number of tool-calling rounds. */
+  maxRounds?: number
+  /** Cancels the loop: the current request, any running handlers and later rounds. */
+  signal?: AbortSignal
+}
+
+export interface CompletionsToolLoopResult {
+  /** The final completion — the one without any `tool_calls`. */
+  completion: OpenAI.Chat.ChatCompletion
+  /** The full message list, including every assistant `tool_calls` message and `tool` message. */
+  messages: OpenAI.Chat.ChatCompletionMessageParam[]
+  executions: FunctionExecution[]
+  rounds: number
+}
+
+const DEFAULT_MAX_ROUNDS = 10
+
+/**
+ * Wrap Responses-style function tools in the Chat Completions `tools` format.
+ * See: https://platform.openai.com/docs/api-reference/chat/create#chat-create-tools
+ */
+export function toChatCompletionTools(tools: OpenAI.Responses.FunctionTool[]): OpenAI.Chat.ChatCompletionFunctionTool[] {
+  return tools.map(({ name, description, parameters, strict }) => ({
+    type: 'function',
+    function: {
+      name,
+      ...(description && { description }),
+      ...(parameters && { parameters }),
+      ...(strict !== null && { strict }),
+    },
+  }))
+}
+
+export interface StreamChatCompletionHandlers {
+  onTextDelta?: (delta: string) => void
+  /** Called with the accumulated state of a tool call each time one of its deltas arrives. */
+  onToolCallDelta?: (toolCall: OpenAI.Chat.ChatCompletionMessageFunctionToolCall, index: number) => void
+}
+
+/**
+ * Consume a streamed completion and rebuild the `ChatCompletion` it describes.
+ * See: https://platform.openai.com/docs/api-reference/chat-streaming
+ *
+ * Text arrives as `choices[0].delta.content` fragments. Tool calls arrive as
+ * `delta.tool_calls` fragments keyed by `index`: the first carries the `id`
+ * and function `name`, later ones append to `function.arguments`.
+ */
+export async function streamChatCompletion(
+  stream: AsyncIterable<OpenAI.Chat.ChatCompletionChunk>,
+  { onTextDelta, onToolCallDelta }: StreamChatCompletionHandlers = {}
+): Promise<OpenAI.Chat.ChatCompletion> {
+  let id = ''
+  let created = 0
+  let model = ''
+  let content = ''
+  let refusal: string | null = null
+  let finishReason: OpenAI.Chat.ChatCompletion.Choice['finish_reason'] = 'stop'
+  let usage: OpenAI.CompletionUsage | undefined
+  const toolCalls: OpenAI.Chat.ChatCompletionMessageFunctionToolCall[] = []
+
+  for await (const chunk of stream) {
+    id ||= chunk.id
+    created ||= chunk.created
+    model ||= chunk.model
+    // With `stream_options.include_usage`, the last chunk has usage and no choices
+    if (chunk.usage) usage = chunk.usage
+
+    const choice = chunk.choices[0]
+    if (!choice) continue
+
+    const { delta } = choice
+    if (delta.content) {
+      content += delta.content
+      onTextDelta?.(delta.content)
+    }
+    if (delta.refusal) {
+      refusal = (refusal ?? '') + delta.refusal
+    }
+
+    for (const toolCallDelta of delta.tool_calls ?? []) {
+      const toolCall = (toolCalls[toolCallDelta.index] ??= {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' },
+      })
+      if (toolCallDelta.id) toolCall.id = toolCallDelta.id
+      if (toolCallDelta.function?.name) toolCall.function.name += toolCallDelta.function.name
+      if (toolCallDelta.function?.arguments) toolCall.function.arguments += toolCallDelta.function.arguments
+      onToolCallDelta?.(toolCall, toolCallDelta.index)
+    }
+
+    if (choice.finish_reason) finishReason = choice.finish_reason
+  }
+
+  return {
+    id,
+    object: 'chat.completion',
+    created,
+    model,
+    choices: [
+      {
+        index: 0,
+        finish_reason: finishReason,
+        logprobs: null,
+        message: {
+          role: 'assistant',
+          content: content || null,
+          refusal,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+      },
+    ],
+    ...(usage && { usage }),
+  }
+}
+
+/**
+ * Run the Chat Completions tool-calling loop until the model returns a final answer.
+ * See: https://platform.openai.com/docs/guides/function-calling?api-mode=chat#handling-function-calls
+ */
+export async function runCompletionsToolLoop({
+  client,
+  model,
+  instructions,
+  followUpInstructions = instructions,
+  registry,
+  messages,
+  stream = false,
+  onTextDelta,
+  onTrace = () => {},
+  approve,
+  onExecution = () => {},
+  maxRounds = DEFAULT_MAX_ROUNDS,
+  signal,
+}: RunCompletionsToolLoopOptions): Promise<CompletionsToolLoopResult> {
+  const trace = createTrace(onTrace)
+
+  const tools = toChatCompletionTools(registry.tools)
+
+  // Running message list; the developer message is added per request, not stored here
+  const messageList: OpenAI.Chat.ChatCompletionMessageParam[] = [...messages]
+  const executions: FunctionExecution[] = []
+  let roundNumber = 0
+
+  /** Send one request, streamed or not, and return the (rebuilt) completion. */
+  async function createCompletion(requestInstructions: string | undefined) {
+    const request = {
+      model,
+      messages: [
+        ...(requestInstructions ? [{ role: 'developer' as const, content: requestInstructions }] : []),
+        ...messageList,
+      ],
+      ...(tools.length > 0 && { tools }),
+    }
+
+    if (!stream) {
+      return client.chat.completions.create(request, { signal })
+    }
+
+    const chunks = await client.chat.completions.create(
+      { ...request, stream: true, stream_options: { include_usage: true } },
+      { signal }
+    )
+    return streamChatCompletion(chunks, {
+      onTextDelta,
+      // Show the arguments building up as their deltas arrive
+      onToolCallDelta: (toolCall, index) =>
+        onTrace({
+          id: `stream-${roundNumber}-tool-call-${index}`,
+          label: `Streaming arguments: ${toolCall.function.name}()`,
+          status: 'in-progress',
+          timestamp: Date.now(),
+          data: { id: toolCall.id, arguments: toolCall.function.arguments },
+        }),
+    })
+  }
+
+  /** Complete the "Streaming arguments" steps once their completion has finished. */
+  function completeStreamedToolCalls(toolCalls: OpenAI.Chat.ChatCompletionMessageFunctionToolCall[]) {
+    if (!stream) return
+    toolCalls.forEach((toolCall, index) =>
+      onTrace({
+        id: `stream-${roundNumber}-tool-call-${index}`,
+        label: `Streamed arguments: ${toolCall.function.name}()`,
+        status: 'completed',
+        timestamp: Date.now(),
+        data: { id: toolCall.id, arguments: parseArgumentsForTrace(toolCall.function.arguments) },
+      })
+    )
+  }
+
+  /**
+   * Step 1: Make initial request with tools defined
+   * See: https://platform.openai.com/docs/guides/function-calling?api-mode=chat#the-tool-calling-flow
+   */
+  const initialDone = trace('initial-request', stream ? 'Streaming request to model' : 'Sending request to model', {
+    model,
+    messageCount: messages.length,
+    strict: registry.strict,
+    stream,
+  })
+
+  let completion = await createCompletion(instructions)
+
+  // Loop while the model keeps requesting tool calls
+  while (true) {
+    /**
+     * Step 2: Check for tool calls on the assistant message
+     * Each tool call has: id, and function.name / function.arguments (JSON string)
+     */
+    const assistantMessage = completion.choices[0].message
+    const toolCalls = (assistantMessage.tool_calls ?? []).filter(
+      (toolCall): toolCall is OpenAI.Chat.ChatCompletionMessageFunctionToolCall => toolCall.type === 'function'
+    )
+    completeStreamedToolCalls(toolCalls)
+
+    if (toolCalls.length === 0) {
+      // No tool calls — model responded directly with text
+      if (roundNumber === 0) {
+        initialDone('Model responded (no tool calls)', assistantMessage)
+      }
+      break
+    }
+
+    if (roundNumber >= maxRounds) {
+      throw new Error(`Tool loop stopped after ${maxRounds} rounds without a final response`)
+    }
+
+    roundNumber++
+
+    // --- Trace: model requested tool call(s) ---
+    const callSummary = toolCalls.map((toolCall) => ({
+      name: toolCall.function.name,
+      tool_call_id: toolCall.id,
+      arguments: parseArgumentsForTrace(toolCall.function.arguments),
+    }))
+    if (roundNumber === 1) {
+      initialDone('Model requested tool call(s)', callSummary)
+    } else {
+      onTrace({
+        id: `round-${roundNumber}-calls`,
+        label: `Round ${roundNumber}: ${toolCalls.length} tool call(s)`,
+        status: 'completed',
+        timestamp: Date.now(),
+        data: callSummary,
+      })
+    }
+
+    // Append the assistant message (including its tool_calls) to the message list
+    const replayedMessage: OpenAI.Chat.ChatCompletionAssistantMessageParam = {
+      role: 'assistant',
+      content: assistantMessage.content,
+      tool_calls: toolCalls.map((toolCall) => ({ ...toolCall, function: { ...toolCall.function } })),
+    }
+    messageList.push(replayedMessage)
+
+    /**
+     * Step 3: Execute each tool call and collect outputs
+     * See: https://platform.openai.com/docs/guides/function-calling?api-mode=chat#handling-function-calls
+     */
+    for (const [index, toolCall] of toolCalls.entries()) {
+      const { execution, arguments: executedArguments } = await handleFunctionCall(
+        { call_id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments },
+        { registry, round: roundNumber, onTrace, approve, signal }
+      )
+      executions.push(execution)
+      onExecution(execution)
+
+      if (executedArguments !== toolCall.function.arguments) {
+        // Keep the replayed tool call consistent with what actually ran
+        const replayedCall = replayedMessage.tool_calls![index] as OpenAI.Chat.ChatCompletionMessageFunctionToolCall
+        replayedCall.function.arguments = executedArguments
+      }
+
+      /**
+       * Step 4: Append a `tool` message with the result
+       * See: https://platform.openai.com/docs/guides/function-calling?api-mode=chat#formatting-results
+       *
+       * Errors are sent back as output too, so the model can self-correct.
+       */
+      messageList.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: JSON.stringify(execution.result),
+      })
+    }
+
+    /**
+     * Step 5: Send results back to the model
+     * The model may respond with more tool calls or a final text response.
+     */
+    const followupDone = trace(`round-${roundNumber}-followup`, `Sending round ${roundNumber} results to model`, {
+      messageCount: messageList.length,
+    })
+
+    completion = await createCompletion(followUpInstructions)
+
+    followupDone(`Round ${roundNumber} response received`, completion.choices[0].message)
+  }
+
+  return { completion, messages: messageList, executions, rounds: roundNumber }
+}
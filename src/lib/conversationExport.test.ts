@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { parseConversationExport, toConversationExport } from '@/lib/conversationExport'
+import type { StoredConversation } from '@/lib/conversationStore'
+
+const tools = [{ type: 'function' as const, name: 'get_weather', description: 'Weather for a city', parameters: { type: 'object' } }]
+
+function conversation(overrides: Partial<StoredConversation> = {}): StoredConversation {
+  return {
+    id: 'c1',
+    route: '/lesson-01/completions',
+    title: 'Weather in Paris?',
+    messages: [
+      { role: 'user', content: 'Weather in Paris?', request: { instructions: 'Use the tools.', tools } },
+      { role: 'assistant', content: 'Sunny.', rawResponse: { object: 'chat.completion', model: 'gpt-5-2025-08-07' } },
+    ],
+    traceSteps: [{ id: 'request', label: 'Sending request', status: 'completed', timestamp: 1 }],
+    createdAt: 1,
+    updatedAt: 2,
+    ...overrides,
+  }
+}
+
+describe('toConversationExport', () => {
+  it('exports the instructions and tools the latest message was sent with', () => {
+    expect(toConversationExport(conversation()).request).toEqual({
+      model: 'gpt-5-2025-08-07',
+      instructions: 'Use the tools.',
+      tools,
+    })
+  })
+})
+
+describe('parseConversationExport', () => {
+  const exported = (overrides: Record<string, unknown> = {}) =>
+    JSON.stringify({ ...toConversationExport(conversation()), ...overrides })
+
+  it('reads back an export', () => {
+    expect(parseConversationExport(exported()).messages).toEqual(conversation().messages)
+  })
+
+  it('rejects a route that is not a lesson page', () => {
+    expect(() => parseConversationExport(exported({ route: '/elsewhere' }))).toThrow('unknown lesson page: /elsewhere')
+  })
+
+  it('rejects a malformed message', () => {
+    const messages = [...conversation().messages, { role: 'assistant', content: null }]
+    expect(() => parseConversationExport(exported({ messages }))).toThrow('Message 3 of the export has no text content.')
+  })
+
+  it('rejects a malformed function call', () => {
+    const messages = [{ role: 'function', content: '', functionCall: { name: 'get_weather', arguments: '{}', status: 'done' } }]
+    expect(() => parseConversationExport(exported({ messages }))).toThrow('function call with an unknown status ("done")')
+  })
+
+  it('rejects a malformed trace step', () => {
+    const traceSteps = [{ id: 'request', label: 'Sending request', status: 'completed' }]
+    expect(() => parseConversationExport(exported({ traceSteps }))).toThrow('Trace step 1 of the export has no timestamp.')
+  })
+})
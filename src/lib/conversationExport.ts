@@ -0,0 +1,241 @@
+/**
+ * Export and import of saved conversations
+ *
+ * A conversation is exported as a versioned JSON document — every message
+ * (with its `responseOutput` and `rawResponse`), the trace steps, and the
+ * model, instructions and tools of the latest request — or as a Markdown
+ * report for reading. Importing a JSON export opens it read-only on the
+ * lesson page it came from.
+ *
+ * Bump `CONVERSATION_EXPORT_VERSION` whenever the shape changes, and keep
+ * `parseConversationExport` accepting the older versions it can still read.
+ */
+
+import type OpenAI from 'openai'
+import { isLessonRoute } from '@/lib/lessonRoutes'
+import { parseArgumentsForTrace } from '@/lib/toolCalls'
+import type { StoredConversation } from '@/lib/conversationStore'
+import type { FunctionCall, Message, TraceStep } from '@/types/chat'
+
+export const CONVERSATION_EXPORT_FORMAT = 'openai-function-calling-course/conversation'
+export const CONVERSATION_EXPORT_VERSION = 1
+
+/** The request behind a conversation's latest turn. */
+export interface ConversationRequestConfig {
+  model?: string
+  instructions?: unknown
+  tools?: unknown[]
+}
+
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT
+  version: typeof CONVERSATION_EXPORT_VERSION
+  exportedAt: string
+  /** Route of the lesson page the conversation was recorded on */
+  route: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  /** Model, instructions and tools of the latest request */
+  request: ConversationRequestConfig
+  messages: Message[]
+  traceSteps: TraceStep[]
+}
+
+/**
+ * The model, instructions and tools of the latest request.
+ *
+ * Instructions and tools come from the latest user message's `request`, as
+ * the page sent them (edits included). The model is the one the API echoed.
+ * Messages saved before `request` was recorded fall back to the Responses
+ * API echo; a Chat Completions response only echoes the model.
+ */
+function requestConfig(messages: Message[]): ConversationRequestConfig {
+  const newestFirst = messages.slice().reverse()
+  const response = newestFirst.find((msg) => msg.role === 'assistant' && msg.rawResponse)?.rawResponse as
+    | OpenAI.Responses.Response
+    | OpenAI.Chat.ChatCompletion
+    | undefined
+  const request = newestFirst.find((msg) => msg.role === 'user' && msg.request)?.request
+  const model = response?.model
+
+  if (request) return { model, instructions: request.instructions, tools: request.tools }
+  if (response?.object === 'response') return { model, instructions: response.instructions ?? undefined, tools: response.tools }
+  return { model }
+}
+
+export function toConversationExport(conversation: StoredConversation): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    route: conversation.route,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    request: requestConfig(conversation.messages),
+    messages: conversation.messages,
+    traceSteps: conversation.traceSteps,
+  }
+}
+
+const MESSAGE_ROLES: Message['role'][] = ['user', 'assistant', 'function']
+const FUNCTION_CALL_STATUSES: FunctionCall['status'][] = ['pending-approval', 'executing', 'completed', 'error', 'rejected']
+const TRACE_STEP_STATUSES: TraceStep['status'][] = ['in-progress', 'completed', 'error']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** What's wrong with an imported message, or `null` if it can be shown. */
+function messageProblem(message: unknown): string | null {
+  if (!isRecord(message)) return 'is not an object'
+  if (!MESSAGE_ROLES.includes(message.role as Message['role'])) return `has an unknown role (${JSON.stringify(message.role)})`
+  if (typeof message.content !== 'string') return 'has no text content'
+  const { functionCall } = message
+  if (functionCall === undefined) return null
+  if (!isRecord(functionCall) || typeof functionCall.name !== 'string' || typeof functionCall.arguments !== 'string') {
+    return 'has a function call without a name or arguments'
+  }
+  if (!FUNCTION_CALL_STATUSES.includes(functionCall.status as FunctionCall['status'])) {
+    return `has a function call with an unknown status (${JSON.stringify(functionCall.status)})`
+  }
+  return null
+}
+
+/** What's wrong with an imported trace step, or `null` if it can be shown. */
+function traceStepProblem(step: unknown): string | null {
+  if (!isRecord(step)) return 'is not an object'
+  if (typeof step.id !== 'string' || typeof step.label !== 'string') return 'has no id or label'
+  if (!TRACE_STEP_STATUSES.includes(step.status as TraceStep['status'])) return `has an unknown status (${JSON.stringify(step.status)})`
+  if (typeof step.timestamp !== 'number') return 'has no timestamp'
+  return null
+}
+
+/**
+ * Parse and check an exported JSON file.
+ * Throws an `Error` with a readable message when the file can't be imported.
+ */
+export function parseConversationExport(text: string): ConversationExport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+
+  if (!isRecord(data) || data.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error('The file is not an exported conversation.')
+  }
+  if (typeof data.version !== 'number' || data.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${data.version}; this app reads up to version ${CONVERSATION_EXPORT_VERSION}.`)
+  }
+  if (typeof data.route !== 'string' || !Array.isArray(data.messages) || !Array.isArray(data.traceSteps)) {
+    throw new Error('The export is missing its route, messages or trace steps.')
+  }
+  // Only open exports on a lesson page; the route comes from the file and is otherwise untrusted
+  if (!isLessonRoute(data.route)) {
+    throw new Error(`The export is from an unknown lesson page: ${data.route}`)
+  }
+  if (typeof data.title !== 'string' || typeof data.createdAt !== 'number' || typeof data.updatedAt !== 'number') {
+    throw new Error('The export is missing its title or timestamps.')
+  }
+  if (!isRecord(data.request)) {
+    throw new Error('The export is missing its request settings.')
+  }
+  data.messages.forEach((message, index) => {
+    const problem = messageProblem(message)
+    if (problem) throw new Error(`Message ${index + 1} of the export ${problem}.`)
+  })
+  data.traceSteps.forEach((step, index) => {
+    const problem = traceStepProblem(step)
+    if (problem) throw new Error(`Trace step ${index + 1} of the export ${problem}.`)
+  })
+  return data as unknown as ConversationExport
+}
+
+/** A fenced JSON code block. */
+function jsonBlock(value: unknown) {
+  return ['```json', JSON.stringify(value, null, 2), '```'].join('\n')
+}
+
+/** Collapsible section, so large payloads don't swamp the report. */
+function details(summary: string, body: string) {
+  return ['<details>', `<summary>${summary}</summary>`, '', body, '', '</details>'].join('\n')
+}
+
+function messageToMarkdown(message: Message) {
+  if (message.role === 'function' && message.functionCall) {
+    const { name, arguments: args, status, response } = message.functionCall
+    return [
+      `### Function call: \`${name}\` (${status})`,
+      '',
+      jsonBlock(parseArgumentsForTrace(args)),
+      ...(response !== undefined ? ['', details('Result', jsonBlock(response))] : []),
+    ].join('\n')
+  }
+
+  const heading = message.role === 'user' ? '### User' : '### Assistant'
+  const sections = [heading, '', message.content]
+  if (message.functionCall) {
+    sections.push('', details(`Function trace (\`${message.functionCall.name}\`)`, jsonBlock(message.functionCall.response)))
+  }
+  if (message.rawResponse) {
+    sections.push('', details('Raw response', jsonBlock(message.rawResponse)))
+  }
+  return sections.join('\n')
+}
+
+function traceStepToMarkdown(step: TraceStep) {
+  const line = `- **${step.status}** — ${step.label} (${new Date(step.timestamp).toISOString()})`
+  if (step.data === undefined) return line
+  return `${line}\n\n${details('Data', jsonBlock(step.data))
+    .split('\n')
+    .map((l) => (l ? `  ${l}` : l))
+    .join('\n')}`
+}
+
+/** Render an export as a human-readable Markdown report. */
+export function conversationToMarkdown(exported: ConversationExport) {
+  const { request } = exported
+  return [
+    `# ${exported.title}`,
+    '',
+    `- Lesson page: \`${exported.route}\``,
+    `- Exported: ${exported.exportedAt}`,
+    ...(request.model ? [`- Model: \`${request.model}\``] : []),
+    ...(request.instructions
+      ? ['', '## Instructions', '', typeof request.instructions === 'string' ? request.instructions : jsonBlock(request.instructions)]
+      : []),
+    ...(request.tools?.length ? ['', '## Tools', '', jsonBlock(request.tools)] : []),
+    '',
+    '## Messages',
+    '',
+    exported.messages.map(messageToMarkdown).join('\n\n'),
+    '',
+    '## Trace',
+    '',
+    exported.traceSteps.length > 0 ? exported.traceSteps.map(traceStepToMarkdown).join('\n') : '_No trace steps._',
+    '',
+  ].join('\n')
+}
+
+/** Safe file name for an export, e.g. `lesson-03-responses-whats-the-weather.json`. */
+export function exportFileName(exported: Pick<ConversationExport, 'route' | 'title'>, extension: 'json' | 'md') {
+  const slug = `${exported.route}-${exported.title}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+  return `${slug || 'conversation'}.${extension}`
+}
+
+/** Save text as a file through a temporary download link. */
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,110 @@
+/**
+ * Persistent conversation history in IndexedDB
+ *
+ * Docs: https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API
+ *
+ * Each lesson page keeps its conversations under its route (e.g.
+ * `/lesson-03/responses`). A record holds the full `Message[]` — including
+ * every `rawResponse` and `responseOutput` — plus the trace steps of the
+ * latest turn, so the inspector can be reviewed after a reload.
+ *
+ * Records are stored with the structured clone algorithm, so everything in a
+ * message (API responses, tool results) must be plain data.
+ */
+
+import type { Message, TraceStep } from '@/types/chat'
+
+export interface StoredConversation {
+  id: string
+  /** Route of the lesson page the conversation belongs to */
+  route: string
+  title: string
+  messages: Message[]
+  /** Trace steps of the latest turn, as shown in the inspector */
+  traceSteps: TraceStep[]
+  createdAt: number
+  updatedAt: number
+}
+
+/** The fields a page saves; the store fills in the title and timestamps. */
+export type ConversationSnapshot = Pick<StoredConversation, 'id' | 'route' | 'messages' | 'traceSteps'>
+
+const DB_NAME = 'function-calling-course'
+const DB_VERSION = 1
+const STORE_NAME = 'conversations'
+const TITLE_MAX_LENGTH = 48
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/** Open (and on first use, create) the database; the connection is shared. */
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      store.createIndex('route', 'route')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+/** Wrap an `IDBRequest` in a promise. */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function objectStore(mode: IDBTransactionMode) {
+  const db = await openDatabase()
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+}
+
+/** Default title: the first user message, shortened. */
+export function conversationTitle(messages: Message[]) {
+  const first = messages.find((msg) => msg.role === 'user')?.content.trim().replace(/\s+/g, ' ')
+  if (!first) return 'New conversation'
+  return first.length > TITLE_MAX_LENGTH ? `${first.slice(0, TITLE_MAX_LENGTH - 1)}…` : first
+}
+
+/** All conversations for a route, most recently updated first. */
+export async function listConversations(route: string): Promise<StoredConversation[]> {
+  const store = await objectStore('readonly')
+  const conversations = await promisify(store.index('route').getAll(route) as IDBRequest<StoredConversation[]>)
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * Insert or update a conversation. An existing record keeps its title and
+ * `createdAt`; a new one is titled after its first user message.
+ */
+export async function saveConversation(snapshot: ConversationSnapshot): Promise<StoredConversation> {
+  const store = await objectStore('readwrite')
+  const existing = await promisify(store.get(snapshot.id) as IDBRequest<StoredConversation | undefined>)
+  const now = Date.now()
+  const conversation: StoredConversation = {
+    ...snapshot,
+    title: existing?.title ?? conversationTitle(snapshot.messages),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  }
+  await promisify(store.put(conversation))
+  return conversation
+}
+
+/** Replace a stored conversation as-is (e.g. after a rename or for a duplicate). */
+export async function putConversation(conversation: StoredConversation): Promise<void> {
+  const store = await objectStore('readwrite')
+  await promisify(store.put(conversation))
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const store = await objectStore('readwrite')
+  await promisify(store.delete(id))
+}
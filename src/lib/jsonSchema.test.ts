@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { fromStrictArguments, toStrictSchema, validateJsonSchema } from '@/lib/jsonSchema'
+import type { JsonSchema } from '@/lib/jsonSchema'
+
+const locationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    city: { type: 'string', minLength: 1 },
+    units: { type: 'string', enum: ['metric', 'imperial'] },
+    days: { type: 'integer', minimum: 1, maximum: 7 },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+  },
+  required: ['city'],
+  additionalProperties: false,
+}
+
+describe('validateJsonSchema', () => {
+  it('accepts a valid value', () => {
+    expect(validateJsonSchema(locationSchema, { city: 'Paris', units: 'metric', days: 3, tags: ['a'] })).toEqual([])
+  })
+
+  it('reports a type mismatch once, without further checks', () => {
+    expect(validateJsonSchema(locationSchema, 'Paris')).toEqual(['$: expected object, got string'])
+  })
+
+  it('treats integers as numbers but not the other way round', () => {
+    expect(validateJsonSchema({ type: 'number' }, 3)).toEqual([])
+    expect(validateJsonSchema({ type: 'integer' }, 3.5)).toEqual(['$: expected integer, got number'])
+  })
+
+  it('accepts any of a list of types', () => {
+    expect(validateJsonSchema({ type: ['number', 'null'] }, null)).toEqual([])
+    expect(validateJsonSchema({ type: ['number', 'null'] }, 'x')).toEqual(['$: expected number or null, got string'])
+  })
+
+  it('reports every problem with its path', () => {
+    expect(validateJsonSchema(locationSchema, { units: 'kelvin', days: 9, tags: ['a', 2, 'c'], extra: true })).toEqual([
+      '$.city: is required',
+      '$.units: must be one of "metric", "imperial"',
+      '$.days: must be <= 7',
+      '$.tags: must contain at most 2 items',
+      '$.tags[1]: expected string, got integer',
+      '$.extra: is not an allowed property',
+    ])
+  })
+
+  it('checks string length and pattern', () => {
+    expect(validateJsonSchema({ type: 'string', minLength: 2, pattern: '^[a-z]+$' }, 'A')).toEqual([
+      '$: must be at least 2 characters',
+      '$: must match pattern ^[a-z]+$',
+    ])
+  })
+
+  it('skips a pattern JavaScript cannot compile instead of throwing', () => {
+    expect(validateJsonSchema({ type: 'string', pattern: '(?i)^paris$', maxLength: 3 }, 'Paris')).toEqual([
+      '$: must be at most 3 characters',
+    ])
+  })
+
+  it('allows unknown properties unless additionalProperties is false', () => {
+    expect(validateJsonSchema({ type: 'object', properties: {} }, { extra: 1 })).toEqual([])
+  })
+})
+
+describe('toStrictSchema', () => {
+  it('requires every property, makes optional ones nullable and closes objects', () => {
+    expect(toStrictSchema(locationSchema)).toEqual({
+      type: 'object',
+      properties: {
+        city: { type: 'string', minLength: 1 },
+        units: { type: ['string', 'null'], enum: ['metric', 'imperial', null] },
+        days: { type: ['integer', 'null'], minimum: 1, maximum: 7 },
+        tags: { type: ['array', 'null'], items: { type: 'string' }, maxItems: 2 },
+      },
+      required: ['city', 'units', 'days', 'tags'],
+      additionalProperties: false,
+    })
+  })
+
+  it('rewrites nested objects, including array items', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { stops: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } } },
+      required: ['stops'],
+    }
+    expect(toStrictSchema(schema).properties?.stops.items).toEqual({
+      type: 'object',
+      properties: { name: { type: ['string', 'null'] } },
+      required: ['name'],
+      additionalProperties: false,
+    })
+  })
+
+  it('does not add null twice', () => {
+    const schema: JsonSchema = { type: 'object', properties: { note: { type: ['string', 'null'] } } }
+    expect(toStrictSchema(schema).properties?.note).toEqual({ type: ['string', 'null'] })
+  })
+})
+
+describe('fromStrictArguments', () => {
+  it('drops nulls the strict schema added for optional properties', () => {
+    expect(fromStrictArguments(locationSchema, { city: 'Paris', units: null, days: null, tags: null })).toEqual({ city: 'Paris' })
+  })
+
+  it('keeps nulls that the original schema allowed', () => {
+    const schema: JsonSchema = { type: 'object', properties: { note: { type: ['string', 'null'] } } }
+    expect(fromStrictArguments(schema, { note: null })).toEqual({ note: null })
+  })
+
+  it('keeps nulls for required properties so validation can report them', () => {
+    expect(fromStrictArguments(locationSchema, { city: null })).toEqual({ city: null })
+  })
+
+  it('maps array items', () => {
+    const schema: JsonSchema = { type: 'array', items: { type: 'object', properties: { a: { type: 'number' } } } }
+    expect(fromStrictArguments(schema, [{ a: null }, { a: 1 }])).toEqual([{}, { a: 1 }])
+  })
+})
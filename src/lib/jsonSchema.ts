@@ -0,0 +1,216 @@
+/**
+ * Minimal JSON Schema validator for function call arguments
+ *
+ * Docs: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ *
+ * With `strict: false` the model's `arguments` string is not guaranteed to
+ * match the tool's `parameters` schema. `validateJsonSchema` checks parsed
+ * arguments against the subset of JSON Schema our tools use (see `JsonSchema`)
+ * and returns human-readable errors that can be sent back to the model.
+ */
+
+/** The subset of JSON Schema used to describe function tool parameters. */
+export interface JsonSchema {
+  type?: JsonSchemaTypeName | readonly JsonSchemaTypeName[]
+  description?: string
+  properties?: Readonly<Record<string, JsonSchema>>
+  required?: readonly string[]
+  items?: JsonSchema
+  enum?: readonly (string | number | boolean | null)[]
+  additionalProperties?: boolean
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+  pattern?: string
+}
+
+export type JsonSchemaTypeName = 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'null'
+
+function typeOf(value: unknown): JsonSchemaTypeName {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JsonSchemaTypeName
+}
+
+function matchesType(value: unknown, type: JsonSchemaTypeName): boolean {
+  const actual = typeOf(value)
+  // Every integer is also a valid JSON Schema `number`
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+/**
+ * Compile a schema `pattern`, or `null` when JavaScript can't compile it.
+ * Schemas from MCP servers may use other regex dialects (e.g. Python's `(?i)`);
+ * such a pattern is left for the tool itself to enforce.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * @param schema - The schema to validate against (e.g. a tool's `parameters`)
+ * @param value - The parsed value to check
+ * @param path - JSONPath-style location used in error messages
+ * @returns A list of validation errors; empty when the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = '$'): string[] {
+  const errors: string[] = []
+
+  if (schema.type !== undefined) {
+    const allowed = typeof schema.type === 'string' ? [schema.type] : schema.type
+    if (!allowed.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${allowed.join(' or ')}, got ${typeOf(value)}`)
+      // Further checks would only repeat the type mismatch
+      return errors
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`)
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`)
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`)
+    }
+    const pattern = schema.pattern !== undefined ? compilePattern(schema.pattern) : null
+    if (pattern && !pattern.test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must contain at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must contain at most ${schema.maxItems} items`)
+    }
+    if (schema.items) {
+      const itemSchema = schema.items
+      value.forEach((item, index) => errors.push(...validateJsonSchema(itemSchema, item, `${path}[${index}]`)))
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>
+    const properties = schema.properties ?? {}
+
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${path}.${key}: is required`)
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = properties[key]
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertySchema, propertyValue, `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not an allowed property`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/** Add `null` to a schema's allowed types (and enum values, if any). */
+function toNullable(schema: JsonSchema): JsonSchema {
+  const nullable: JsonSchema = { ...schema }
+  if (schema.type !== undefined) {
+    const types = typeof schema.type === 'string' ? [schema.type] : [...schema.type]
+    nullable.type = types.includes('null') ? types : [...types, 'null']
+  }
+  if (schema.enum && !schema.enum.includes(null)) {
+    nullable.enum = [...schema.enum, null]
+  }
+  return nullable
+}
+
+/**
+ * Rewrite a schema into the subset required by strict mode (structured outputs).
+ * See: https://platform.openai.com/docs/guides/function-calling#strict-mode
+ *
+ * - every object lists all of its properties in `required`
+ * - properties that were optional become nullable (e.g. `type: ['number', 'null']`)
+ * - every object sets `additionalProperties: false`
+ */
+export function toStrictSchema(schema: JsonSchema): JsonSchema {
+  const strict: JsonSchema = { ...schema }
+
+  if (schema.items) {
+    strict.items = toStrictSchema(schema.items)
+  }
+
+  const isObject = schema.type === 'object' || (Array.isArray(schema.type) && schema.type.includes('object'))
+  if (isObject || schema.properties) {
+    const properties = schema.properties ?? {}
+    const required = new Set(schema.required ?? [])
+    strict.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, property]) => {
+        const strictProperty = toStrictSchema(property)
+        return [key, required.has(key) ? strictProperty : toNullable(strictProperty)]
+      })
+    )
+    strict.required = Object.keys(properties)
+    strict.additionalProperties = false
+  }
+
+  return strict
+}
+
+/**
+ * Undo the nullable transform of `toStrictSchema` on model-produced arguments:
+ * `null` values for properties that were optional in the original schema are
+ * removed, so handlers see `undefined` exactly as in non-strict mode.
+ *
+ * @param schema - The original (non-strict) schema
+ * @param value - Arguments produced against the strict version of `schema`
+ */
+export function fromStrictArguments(schema: JsonSchema, value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const itemSchema = schema.items
+    return itemSchema ? value.map((item) => fromStrictArguments(itemSchema, item)) : value
+  }
+
+  if (typeOf(value) !== 'object' || !schema.properties) {
+    return value
+  }
+
+  const required = new Set(schema.required ?? [])
+  const result: Record<string, unknown> = {}
+  for (const [key, propertyValue] of Object.entries(value as Record<string, unknown>)) {
+    const propertySchema = schema.properties[key]
+    const optional = propertySchema && !required.has(key)
+    // An optional property the model filled with `null` is treated as omitted,
+    // unless `null` was already a legitimate value in the original schema
+    if (propertyValue === null && optional && validateJsonSchema(propertySchema, null).length > 0) {
+      continue
+    }
+    result[key] = propertySchema ? fromStrictArguments(propertySchema, propertyValue) : propertyValue
+  }
+  return result
+}
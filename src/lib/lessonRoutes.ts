@@ -0,0 +1,29 @@
+/**
+ * Routes of the lesson pages
+ *
+ * `main.tsx` renders one `Route` per entry, and imported conversations are
+ * only opened on one of these pages.
+ */
+
+export const LESSON_ROUTES = [
+  '/baseline/responses',
+  '/baseline/completions',
+  '/lesson-01/responses',
+  '/lesson-01/completions',
+  '/lesson-02/responses',
+  '/lesson-02/completions',
+  '/lesson-03/responses',
+  '/lesson-03/completions',
+  '/lesson-04/responses',
+  '/lesson-04/completions',
+  '/lesson-05/responses',
+  '/lesson-05/completions',
+  '/lesson-06/responses',
+  '/lesson-08/responses',
+] as const
+
+export type LessonRoute = (typeof LESSON_ROUTES)[number]
+
+export function isLessonRoute(route: string): route is LessonRoute {
+  return (LESSON_ROUTES as readonly string[]).includes(route)
+}
@@ -0,0 +1,149 @@
+/**
+ * Helpers for the hosted `mcp` tool
+ *
+ * Docs: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
+ *
+ * By default the Responses API asks for approval before sharing data with a
+ * remote MCP server: instead of calling the tool it returns an
+ * `mcp_approval_request` output item. The app answers with an
+ * `mcp_approval_response` input item, chained to the previous response with
+ * `previous_response_id`, and the model continues from there.
+ *
+ * `McpServerConfig` describes a user-configured server; `toMcpTool` turns it
+ * into one `mcp` tool entry, so several servers can be sent in one request.
+ */
+
+import type OpenAI from 'openai'
+import type { ApprovalDecision } from '@/types/chat'
+
+/**
+ * Approval policy for one MCP server.
+ * - `always` asks before every call, except for tools listed in `autoApprove`
+ * - `never` runs every call without asking
+ */
+export interface McpApprovalPolicy {
+  mode: 'always' | 'never'
+  /** Tool names that never need approval (per-tool allowlist, only used with `always`) */
+  autoApprove?: string[]
+}
+
+/**
+ * Convert an approval policy into the `require_approval` value of an `mcp` tool.
+ * See: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
+ */
+export function toRequireApproval({ mode, autoApprove = [] }: McpApprovalPolicy): OpenAI.Responses.Tool.Mcp['require_approval'] {
+  if (mode === 'never') return 'never'
+  if (autoApprove.length === 0) return 'always'
+  // Listed tools skip approval; every other tool still requires it
+  return { never: { tool_names: autoApprove } }
+}
+
+/** The `mcp_approval_request` items in a response's output. */
+export function getApprovalRequests(response: OpenAI.Responses.Response) {
+  return response.output.filter(
+    (item): item is OpenAI.Responses.ResponseOutputItem.McpApprovalRequest => item.type === 'mcp_approval_request'
+  )
+}
+
+/**
+ * Build the `mcp_approval_response` input item answering an approval request.
+ * See: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
+ */
+export function toApprovalResponse(
+  request: OpenAI.Responses.ResponseOutputItem.McpApprovalRequest,
+  decision: ApprovalDecision
+): OpenAI.Responses.ResponseInputItem.McpApprovalResponse {
+  return {
+    type: 'mcp_approval_response',
+    approval_request_id: request.id,
+    approve: decision.action === 'approve',
+    ...(decision.action === 'reject' && decision.reason && { reason: decision.reason }),
+  }
+}
+
+/** A remote MCP server the user has configured (persisted in localStorage). */
+export interface McpServerConfig {
+  id: string
+  enabled: boolean
+  /** `server_label` — letters, digits, `_` and `-` only; must be unique */
+  label: string
+  description?: string
+  url: string
+  /** Extra HTTP headers sent to the server (e.g. API keys) */
+  headers?: Record<string, string>
+  /** OAuth access token, sent as the `authorization` field */
+  authorization?: string
+  /** Only expose these tools to the model; empty or omitted exposes all */
+  allowedTools?: string[]
+  approval: McpApprovalPolicy
+}
+
+/** The server Lesson 06 ships with. */
+export const DEFAULT_MCP_SERVERS: McpServerConfig[] = [
+  {
+    id: 'openai_docs',
+    enabled: true,
+    label: 'openai_docs',
+    description: 'OpenAI developer documentation MCP server for searching and reading docs.',
+    url: 'https://developers.openai.com/mcp',
+    approval: { mode: 'never' },
+  },
+]
+
+/**
+ * Check a server config before saving; returns a list of problems.
+ *
+ * @param server - The config being saved
+ * @param others - The other configured servers (for the unique label check)
+ */
+export function validateMcpServer(server: McpServerConfig, others: McpServerConfig[]): string[] {
+  const errors: string[] = []
+  if (!/^[a-zA-Z0-9_-]+$/.test(server.label)) {
+    errors.push('Label may only contain letters, digits, "_" and "-".')
+  }
+  if (others.some((other) => other.id !== server.id && other.label === server.label)) {
+    errors.push(`Another server is already labelled "${server.label}".`)
+  }
+  try {
+    const { protocol } = new URL(server.url)
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      errors.push('URL must start with http:// or https://.')
+    }
+  } catch {
+    errors.push('URL is not valid.')
+  }
+  return errors
+}
+
+/**
+ * Convert a server config into an `mcp` tool for the Responses API.
+ * See: https://platform.openai.com/docs/guides/tools-connectors-mcp#quickstart
+ */
+export function toMcpTool(server: McpServerConfig): OpenAI.Responses.Tool.Mcp {
+  return {
+    type: 'mcp',
+    server_label: server.label,
+    server_url: server.url,
+    ...(server.description && { server_description: server.description }),
+    ...(server.headers && Object.keys(server.headers).length > 0 && { headers: server.headers }),
+    ...(server.authorization && { authorization: server.authorization }),
+    // See: https://platform.openai.com/docs/guides/tools-connectors-mcp#filtering-tools
+    ...(server.allowedTools && server.allowedTools.length > 0 && { allowed_tools: server.allowedTools }),
+    // See: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
+    require_approval: toRequireApproval(server.approval),
+  }
+}
+
+/** Tools a server exposed, taken from an `mcp_list_tools` output item. */
+export type DiscoveredMcpTools = Record<string, OpenAI.Responses.ResponseOutputItem.McpListTools['tools']>
+
+/** Collect the `mcp_list_tools` results in a response, keyed by server label. */
+export function getDiscoveredTools(response: OpenAI.Responses.Response): DiscoveredMcpTools {
+  const discovered: DiscoveredMcpTools = {}
+  for (const item of response.output) {
+    if (item.type === 'mcp_list_tools') {
+      discovered[item.server_label] = item.tools
+    }
+  }
+  return discovered
+}
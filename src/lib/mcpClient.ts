@@ -0,0 +1,161 @@
+/**
+ * Local MCP client — runs MCP tools in the app instead of on OpenAI's servers
+ *
+ * MCP docs: https://modelcontextprotocol.io/docs/develop/build-client
+ * TypeScript SDK: https://github.com/modelcontextprotocol/typescript-sdk
+ * Function calling: https://platform.openai.com/docs/guides/function-calling
+ *
+ * The hosted `mcp` tool (Lesson 06) only works with servers OpenAI can reach.
+ * For servers on localhost, the app itself connects as the MCP client:
+ *   1. Connect over Streamable HTTP (falling back to the legacy SSE transport)
+ *   2. `tools/list` — convert each MCP tool into a Responses `function` tool
+ *   3. Route the model's `function_call`s back through `tools/call`
+ *
+ * `createMcpToolRegistry` returns a regular `ToolRegistry`, so the MCP tools
+ * plug straight into `runToolLoop` with argument validation and tracing.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { createToolRegistry } from '@/lib/toolRegistry'
+import type { ObjectSchema, ToolDefinition, ToolRegistryOptions } from '@/lib/toolRegistry'
+
+export type McpTransportType = 'auto' | 'streamable-http' | 'sse'
+
+export interface McpConnectionOptions {
+  url: string
+  /** `auto` tries Streamable HTTP first and falls back to SSE */
+  transport?: McpTransportType
+  /** Extra HTTP headers (e.g. `Authorization`) sent with every request */
+  headers?: Record<string, string>
+}
+
+/** A tool advertised by the server in its `tools/list` result. */
+export type McpTool = Awaited<ReturnType<Client['listTools']>>['tools'][number]
+
+export interface McpConnection {
+  client: Client
+  /** The transport that actually connected */
+  transport: Exclude<McpTransportType, 'auto'>
+  tools: McpTool[]
+  /** Name and version the server reported during initialization */
+  serverInfo?: { name: string; version: string }
+  close: () => Promise<void>
+}
+
+const CLIENT_INFO = { name: 'openai-function-calling-course', version: '1.0.0' }
+
+async function connectWith(transport: Exclude<McpTransportType, 'auto'>, url: URL, headers?: Record<string, string>) {
+  const client = new Client(CLIENT_INFO)
+  const requestInit = headers ? { headers } : undefined
+  try {
+    await client.connect(
+      transport === 'sse'
+        ? new SSEClientTransport(url, { requestInit })
+        : new StreamableHTTPClientTransport(url, { requestInit })
+    )
+  } catch (error) {
+    // Don't leave a half-open transport behind (e.g. before falling back to SSE)
+    await client.close().catch(() => undefined)
+    throw error
+  }
+  return client
+}
+
+/**
+ * Whether a failed Streamable HTTP connection may be an SSE-only server: it
+ * answered the `initialize` POST with a 4xx (e.g. 404 or 405), or the request
+ * failed at the network level (`fetch` rejects with a `TypeError`). Other
+ * errors, such as a 5xx or a bad response, are reported as they are.
+ * See: https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#backwards-compatibility
+ */
+function shouldFallBackToSse(error: unknown) {
+  if (error instanceof StreamableHTTPError) {
+    return error.code !== undefined && error.code >= 400 && error.code < 500
+  }
+  return error instanceof TypeError
+}
+
+/**
+ * Connect to an MCP server and list its tools.
+ * See: https://github.com/modelcontextprotocol/typescript-sdk#backwards-compatibility
+ */
+export async function connectMcpServer({ url, transport = 'auto', headers }: McpConnectionOptions): Promise<McpConnection> {
+  const serverUrl = new URL(url)
+  let client: Client
+  let connectedWith: Exclude<McpTransportType, 'auto'>
+
+  if (transport === 'auto') {
+    try {
+      client = await connectWith('streamable-http', serverUrl, headers)
+      connectedWith = 'streamable-http'
+    } catch (error) {
+      if (!shouldFallBackToSse(error)) throw error
+      // Older servers only speak the HTTP+SSE transport
+      client = await connectWith('sse', serverUrl, headers)
+      connectedWith = 'sse'
+    }
+  } else {
+    client = await connectWith(transport, serverUrl, headers)
+    connectedWith = transport
+  }
+
+  const { tools } = await client.listTools()
+
+  return {
+    client,
+    transport: connectedWith,
+    tools,
+    serverInfo: client.getServerVersion(),
+    close: () => client.close(),
+  }
+}
+
+/**
+ * Turn a `tools/call` result into a function call output.
+ * Prefers `structuredContent`; otherwise joins the text content blocks.
+ */
+function toFunctionOutput(result: Awaited<ReturnType<Client['callTool']>>): unknown {
+  const text = Array.isArray(result.content)
+    ? result.content
+        .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+        .map((block) => block.text)
+        .join('\n')
+    : undefined
+
+  if (result.isError) {
+    return { error: text || 'The MCP tool reported an error' }
+  }
+  return result.structuredContent ?? text ?? result
+}
+
+/**
+ * MCP input schemas are JSON Schema objects, the same shape function tools use.
+ * Only the keywords `parameters` needs are copied, so markers like `$schema` are left out.
+ */
+function toParameters({ properties, required, additionalProperties, description }: McpTool['inputSchema']): ObjectSchema {
+  return {
+    type: 'object',
+    properties: (properties ?? {}) as ObjectSchema['properties'],
+    ...(required && { required }),
+    ...(typeof additionalProperties === 'boolean' && { additionalProperties }),
+    ...(typeof description === 'string' && { description }),
+  }
+}
+
+/**
+ * Build a `ToolRegistry` whose handlers forward each call to the MCP server.
+ * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ */
+export function createMcpToolRegistry(connection: McpConnection, options?: ToolRegistryOptions) {
+  const definitions: ToolDefinition[] = connection.tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description ?? tool.title ?? tool.name,
+    parameters: toParameters(tool.inputSchema),
+    handler: async (args, { signal }) =>
+      toFunctionOutput(await connection.client.callTool({ name: tool.name, arguments: args }, undefined, { signal })),
+  }))
+
+  return createToolRegistry(definitions, options)
+}
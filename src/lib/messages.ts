@@ -0,0 +1,14 @@
+/**
+ * Helpers for the pages' chat message lists
+ */
+
+import type { Message } from '@/types/chat'
+
+/** Replace the most recent assistant message (the one being streamed). */
+export function updateLastAssistant(messages: Message[], update: (message: Message) => Message) {
+  let index = messages.length - 1
+  while (index > 0 && messages[index].role !== 'assistant') index--
+  const updated = [...messages]
+  updated[index] = update(updated[index])
+  return updated
+}
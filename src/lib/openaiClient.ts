@@ -0,0 +1,85 @@
+/**
+ * The `OpenAI` client used by every lesson page
+ *
+ * API Reference: https://github.com/openai/openai-node#usage
+ *
+ * `VITE_OPENAI_MODE` selects how requests are served:
+ * - `live` (default) — straight to the OpenAI API
+ * - `record` — to the API, saving every response as a fixture under
+ *   `fixtures/openai/` (through the dev server, see `server/fixtures`)
+ * - `replay` — from those fixtures only, fully offline; no API key is needed
+ *
+ * See `openaiFixtures.ts` for how requests are matched to fixtures.
+ *
+ * `VITE_OPENAI_BASE_URL` points the client at another server, such as the
+ * mock Responses API (`npm run mock-openai`, see `server/mock-openai`).
+ *
+ * `VITE_OPENAI_PROXY_URL` sends requests through a proxy that adds the API key
+ * on the server (see `server/openai-proxy`), so the browser never sees it.
+ * The dev server sets it to `/openai/v1` when `OPENAI_API_KEY` is configured.
+ */
+
+import OpenAI from 'openai'
+import { createRecordingFetch, createReplayFetch } from '@/lib/openaiFixtures'
+import type { OpenAIFixture } from '@/lib/openaiFixtures'
+
+export type OpenAIMode = 'live' | 'record' | 'replay'
+
+export const OPENAI_MODE: OpenAIMode = ['record', 'replay'].includes(import.meta.env.VITE_OPENAI_MODE)
+  ? import.meta.env.VITE_OPENAI_MODE
+  : 'live'
+
+/** Dev-server endpoint that reads and writes fixture files (see `server/fixtures/vitePlugin.ts`). */
+const FIXTURES_ENDPOINT = '/__openai-fixtures'
+
+/** Stand-in key for replay mode; it is never sent anywhere. */
+const REPLAY_API_KEY = 'sk-replay-mode-no-key-needed'
+
+/** The proxy's URL (absolute, or a path on this origin), or `null` to call the API directly. */
+export const OPENAI_PROXY_URL: string | null = import.meta.env.VITE_OPENAI_PROXY_URL || null
+
+/** Stand-in key for proxy mode; the proxy replaces it with the real one. */
+export const PROXY_API_KEY = 'sk-proxy-mode-key-stays-on-server'
+
+async function saveFixture(key: string, fixture: OpenAIFixture) {
+  const res = await fetch(`${FIXTURES_ENDPOINT}/${key}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fixture, null, 2),
+  })
+  if (!res.ok) throw new Error(`Saving fixture ${key} failed: ${res.status}`)
+}
+
+async function loadFixture(key: string): Promise<OpenAIFixture | undefined> {
+  const res = await fetch(`${FIXTURES_ENDPOINT}/${key}`)
+  return res.ok ? res.json() : undefined
+}
+
+/**
+ * The API key a page starts with: `VITE_OPENAI_API_KEY`, or a placeholder in
+ * replay mode, which needs no key. Otherwise `null`: `ApiKeyConfig` checks the
+ * saved key (or, in proxy mode, the proxy) before handing it to the page.
+ */
+export function getInitialApiKey(): string | null {
+  if (OPENAI_MODE === 'replay') return REPLAY_API_KEY
+  if (OPENAI_PROXY_URL) return null
+  return import.meta.env.VITE_OPENAI_API_KEY || null
+}
+
+/** The SDK needs an absolute base URL; a proxy path is resolved against this origin. */
+function getBaseURL(): string | undefined {
+  if (OPENAI_PROXY_URL) return new URL(OPENAI_PROXY_URL, window.location.origin).href
+  return import.meta.env.VITE_OPENAI_BASE_URL || undefined
+}
+
+/** Create the client for a request, wired for the current `OPENAI_MODE` and proxy. */
+export function createOpenAIClient(apiKey: string) {
+  const baseURL = getBaseURL()
+  return new OpenAI({
+    apiKey,
+    dangerouslyAllowBrowser: true, // Only the placeholder key reaches the browser in proxy mode
+    ...(baseURL && { baseURL }),
+    ...(OPENAI_MODE === 'record' && { fetch: createRecordingFetch({ save: saveFixture }) }),
+    ...(OPENAI_MODE === 'replay' && { fetch: createReplayFetch({ load: loadFixture }) }),
+  })
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest'
+import { canonicalJson, createRecordingFetch, createReplayFetch, fixtureKey, splitEvents } from '@/lib/openaiFixtures'
+import type { OpenAIFixture } from '@/lib/openaiFixtures'
+
+const RESPONSES_URL = 'https://api.openai.com/v1/responses'
+
+function post(body: unknown): RequestInit {
+  return { method: 'POST', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } }
+}
+
+/** A follow-up request answering the `get_weather` call `callId` with `output`. */
+function followUp(output: unknown, callId = 'call_1') {
+  return {
+    model: 'gpt-5-mini',
+    input: [
+      { role: 'user', content: 'Weather in Paris?' },
+      { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' },
+      { type: 'function_call_output', call_id: callId, output: JSON.stringify(output) },
+    ],
+  }
+}
+
+/** Record and replay fetches sharing an in-memory fixture store. */
+function fixtureStore(baseFetch: typeof fetch) {
+  const fixtures = new Map<string, OpenAIFixture>()
+  const record = createRecordingFetch({
+    save: async (key, fixture) => {
+      fixtures.set(key, fixture)
+    },
+    fetch: baseFetch,
+  })
+  const replay = createReplayFetch({ load: async (key) => fixtures.get(key) })
+  return { fixtures, record, replay }
+}
+
+describe('canonicalJson', () => {
+  it('sorts object keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ z: 1, y: 2 }], c: null } })).toBe('{"a":{"c":null,"d":[{"y":2,"z":1}]},"b":1}')
+  })
+
+  it('drops undefined properties, like JSON.stringify', () => {
+    expect(canonicalJson({ a: undefined, b: 'x' })).toBe('{"b":"x"}')
+    expect(canonicalJson(undefined)).toBe('null')
+  })
+})
+
+describe('splitEvents', () => {
+  it('splits a stream into events that keep their blank line', () => {
+    const text = 'event: a\ndata: {"n":1}\n\nevent: b\ndata: {"n":2}\n\n'
+    expect(splitEvents(text)).toEqual(['event: a\ndata: {"n":1}\n\n', 'event: b\ndata: {"n":2}\n\n'])
+  })
+
+  it('ignores trailing whitespace', () => {
+    expect(splitEvents('data: [DONE]\n\n\n')).toEqual(['data: [DONE]\n\n'])
+  })
+})
+
+describe('fixtureKey', () => {
+  it('ignores object key order', async () => {
+    const a = await fixtureKey({ method: 'POST', path: '/v1/responses', body: { model: 'gpt-5', input: 'Hi' } })
+    const b = await fixtureKey({ method: 'POST', path: '/v1/responses', body: { input: 'Hi', model: 'gpt-5' } })
+    expect(a).toMatch(/^[0-9a-f]{16}$/)
+    expect(a).toBe(b)
+  })
+
+  it('ignores tool results but not which call they answer', async () => {
+    const key = (body: unknown) => fixtureKey({ method: 'POST', path: '/v1/responses', body })
+    const recorded = await key(followUp({ temperature: 21 }))
+    expect(await key(followUp({ temperature: 17 }))).toBe(recorded)
+    expect(await key(followUp({ temperature: 21 }, 'call_2'))).not.toBe(recorded)
+  })
+
+  it('ignores Chat Completions tool message content', async () => {
+    const body = (content: string) => ({
+      model: 'gpt-5-mini',
+      messages: [
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'tool', tool_call_id: 'call_1', content },
+      ],
+    })
+    const key = (content: string) => fixtureKey({ method: 'POST', path: '/v1/chat/completions', body: body(content) })
+    expect(await key('{"temperature":17}')).toBe(await key('{"temperature":21}'))
+  })
+})
+
+describe('record and replay', () => {
+  it('replays a follow-up request whose tool output changed since recording', async () => {
+    const baseFetch = vi.fn<typeof fetch>().mockResolvedValue(Response.json({ id: 'resp_1', output_text: 'It is 21°C in Paris.' }))
+    const { fixtures, record, replay } = fixtureStore(baseFetch)
+
+    await (await record(RESPONSES_URL, post(followUp({ temperature: 21 })))).json()
+    await vi.waitFor(() => expect(fixtures.size).toBe(1))
+
+    const replayed = await replay(RESPONSES_URL, post(followUp({ temperature: 17 })))
+    expect(replayed.status).toBe(200)
+    await expect(replayed.json()).resolves.toEqual({ id: 'resp_1', output_text: 'It is 21°C in Paris.' })
+    expect(baseFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('replays a streamed response event by event', async () => {
+    const text = 'event: response.created\ndata: {}\n\nevent: response.completed\ndata: {}\n\n'
+    const baseFetch = vi.fn<typeof fetch>().mockResolvedValue(new Response(text, { headers: { 'content-type': 'text/event-stream' } }))
+    const { fixtures, record, replay } = fixtureStore(baseFetch)
+
+    await expect((await record(RESPONSES_URL, post({ model: 'gpt-5', input: 'Hi', stream: true }))).text()).resolves.toBe(text)
+    await vi.waitFor(() => expect(fixtures.size).toBe(1))
+    expect([...fixtures.values()][0].response.events).toHaveLength(2)
+
+    const replayed = await replay(RESPONSES_URL, post({ model: 'gpt-5', input: 'Hi', stream: true }))
+    expect(replayed.headers.get('content-type')).toBe('text/event-stream')
+    await expect(replayed.text()).resolves.toBe(text)
+  })
+
+  it('answers an unrecorded request with a 404', async () => {
+    const replay = createReplayFetch({ load: async () => undefined })
+    const response = await replay(RESPONSES_URL, post({ model: 'gpt-5', input: 'Hi' }))
+    expect(response.status).toBe(404)
+    await expect(response.json()).resolves.toMatchObject({ error: { type: 'fixture_not_found' } })
+  })
+})
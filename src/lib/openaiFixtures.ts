@@ -0,0 +1,188 @@
+/**
+ * Record / replay of OpenAI API traffic
+ *
+ * The `OpenAI` client accepts a custom `fetch`. `createRecordingFetch` passes
+ * requests through to the API and saves each successful request/response pair
+ * as a fixture; `createReplayFetch` answers requests from those fixtures
+ * without touching the network, so pages and tests run offline and
+ * deterministically.
+ *
+ * Fixtures are keyed by a hash of the request — method, path and JSON body
+ * (with object keys sorted) — so the same request always replays the same
+ * response. Tool results are left out of the key: the weather and geocoding
+ * tools call live APIs, so their output differs between runs, and the
+ * follow-up request must still find the answer recorded for it.
+ *
+ * Streaming responses (`text/event-stream`) are stored as their sequence of
+ * server-sent events and replayed event by event.
+ *
+ * Where fixtures live is up to the caller (`save` / `load`); see
+ * `openaiClient.ts` for the browser setup backed by the dev server.
+ */
+
+export const FIXTURE_VERSION = 1
+
+export interface FixtureRequest {
+  method: string
+  /** URL path, e.g. `/v1/responses` — the host is ignored so fixtures survive a `baseURL` change */
+  path: string
+  body: unknown
+}
+
+export interface OpenAIFixture {
+  version: typeof FIXTURE_VERSION
+  request: FixtureRequest
+  response: {
+    status: number
+    contentType: string
+    /** Body of a regular response */
+    body?: string
+    /** Server-sent events of a streaming response, each ending with a blank line */
+    events?: string[]
+  }
+}
+
+type Fetch = typeof fetch
+
+/** JSON with object keys sorted, so key order doesn't change the fixture key. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/** Describe a `fetch` call as a `FixtureRequest`. */
+export function toFixtureRequest(input: RequestInfo | URL, init?: RequestInit): FixtureRequest {
+  const url = new URL(input instanceof Request ? input.url : String(input), 'http://localhost')
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase()
+  let body: unknown = null
+  if (typeof init?.body === 'string') {
+    try {
+      body = JSON.parse(init.body)
+    } catch {
+      body = init.body
+    }
+  }
+  return { method, path: `${url.pathname}${url.search}`, body }
+}
+
+/** Placeholder for tool results in the key; see `withoutToolOutputs`. */
+const TOOL_OUTPUT_PLACEHOLDER = '<tool output>'
+
+/**
+ * The request body with every tool result replaced by a placeholder: the
+ * Responses API's `function_call_output` items in `input`, and the Chat
+ * Completions `tool` messages in `messages`. Which call each result answers
+ * (`call_id` / `tool_call_id`) stays part of the key.
+ */
+function withoutToolOutputs(body: unknown): unknown {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return body
+  const { input, messages } = body as { input?: unknown; messages?: unknown }
+  return {
+    ...body,
+    ...(Array.isArray(input) && {
+      input: input.map((item) => (item?.type === 'function_call_output' ? { ...item, output: TOOL_OUTPUT_PLACEHOLDER } : item)),
+    }),
+    ...(Array.isArray(messages) && {
+      messages: messages.map((message) => (message?.role === 'tool' ? { ...message, content: TOOL_OUTPUT_PLACEHOLDER } : message)),
+    }),
+  }
+}
+
+/** Stable key for a request: the first 16 hex characters of its SHA-256, ignoring tool results. */
+export async function fixtureKey(request: FixtureRequest): Promise<string> {
+  const keyed = { ...request, body: withoutToolOutputs(request.body) }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(keyed)))
+  return Array.from(new Uint8Array(digest).slice(0, 8), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Split a server-sent event stream into its events (each keeps its trailing blank line). */
+export function splitEvents(text: string): string[] {
+  return text.split(/(?<=\n\n)/).filter((event) => event.trim() !== '')
+}
+
+export interface RecordingFetchOptions {
+  /** Persists a fixture; failures are logged, never thrown to the client */
+  save: (key: string, fixture: OpenAIFixture) => Promise<void>
+  fetch?: Fetch
+}
+
+/**
+ * A `fetch` that calls the API and records every successful response.
+ * Streaming bodies are teed: the client reads one branch as usual while the
+ * other is collected and saved once the stream ends.
+ */
+export function createRecordingFetch({ save, fetch: baseFetch = globalThis.fetch.bind(globalThis) }: RecordingFetchOptions): Fetch {
+  return async (input, init) => {
+    const response = await baseFetch(input, init)
+    if (!response.ok || !response.body) return response
+
+    const request = toFixtureRequest(input, init)
+    const contentType = response.headers.get('content-type') ?? 'application/json'
+    const [forClient, forFixture] = response.body.tee()
+
+    // An aborted or failed stream rejects here and is simply not recorded
+    void Promise.all([fixtureKey(request), new Response(forFixture).text()])
+      .then(([key, text]) =>
+        save(key, {
+          version: FIXTURE_VERSION,
+          request,
+          response: {
+            status: response.status,
+            contentType,
+            ...(contentType.includes('text/event-stream') ? { events: splitEvents(text) } : { body: text }),
+          },
+        })
+      )
+      .catch((error) => console.error('Failed to record OpenAI fixture:', error))
+
+    return new Response(forClient, { status: response.status, statusText: response.statusText, headers: response.headers })
+  }
+}
+
+export interface ReplayFetchOptions {
+  /** Looks up a fixture by key; resolves `undefined` when none was recorded */
+  load: (key: string) => Promise<OpenAIFixture | undefined>
+}
+
+/**
+ * A `fetch` that answers from recorded fixtures only. A request without a
+ * fixture gets a 404 API error (which the client does not retry) naming the
+ * missing request.
+ */
+export function createReplayFetch({ load }: ReplayFetchOptions): Fetch {
+  return async (input, init) => {
+    init?.signal?.throwIfAborted()
+    const request = toFixtureRequest(input, init)
+    const key = await fixtureKey(request)
+    const fixture = await load(key)
+
+    if (!fixture) {
+      const message = `No recorded response for ${request.method} ${request.path} (fixture ${key}). Record it first in record mode.`
+      return new Response(JSON.stringify({ error: { message, type: 'fixture_not_found' } }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      })
+    }
+
+    const { status, contentType, body, events } = fixture.response
+    if (!events) {
+      return new Response(body ?? '', { status, headers: { 'content-type': contentType } })
+    }
+
+    // Replay the stream one event per chunk, as the API sends it
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) controller.enqueue(encoder.encode(event))
+        controller.close()
+      },
+    })
+    return new Response(stream, { status, headers: { 'content-type': contentType } })
+  }
+}
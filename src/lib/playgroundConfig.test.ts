@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { applyToolEdits, diffLines, formatTools, lintTools, parsePlaygroundConfig, toPlaygroundTools } from '@/lib/playgroundConfig'
+import type { PlaygroundConfig } from '@/lib/playgroundConfig'
+import { calculateTipTool } from '@/tools/calculateTip'
+import { geocodeLocationTool } from '@/tools/geocodeLocation'
+import { getCurrentWeatherTool } from '@/tools/getCurrentWeather'
+
+const definitions = [calculateTipTool, geocodeLocationTool, getCurrentWeatherTool]
+const functionNames = definitions.map((definition) => definition.name)
+
+function weatherTool(parameters: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+  return { type: 'function' as const, name: 'get_current_weather', description: 'Current weather', parameters, ...extra }
+}
+
+function errors(json: string, options = { functionNames }) {
+  return lintTools(json, options).problems.filter((problem) => problem.severity === 'error')
+}
+
+describe('lintTools', () => {
+  it('accepts the tools defined in src/tools', () => {
+    const result = lintTools(formatTools(toPlaygroundTools(definitions)), { functionNames })
+    expect(result.problems).toEqual([])
+    expect(result.tools).toHaveLength(3)
+  })
+
+  it('reports invalid JSON and non-array tools', () => {
+    expect(lintTools('[{', { functionNames })).toMatchObject({ tools: null, problems: [{ severity: 'error', path: '$' }] })
+    expect(errors('{}')).toEqual([{ severity: 'error', path: '$', message: 'must be an array of tools' }])
+  })
+
+  it('rejects tool types the page cannot send', () => {
+    expect(errors('[{ "type": "web_search" }]')).toMatchObject([{ path: '$[0].type' }])
+    expect(lintTools('[{ "type": "web_search" }]', { toolTypes: ['web_search'] }).problems).toEqual([])
+  })
+
+  it('checks web search tool fields', () => {
+    const webSearch = (fields: Record<string, unknown>) => lintTools(JSON.stringify([{ type: 'web_search', ...fields }]), { toolTypes: ['web_search'] })
+    expect(
+      webSearch({
+        filters: { allowed_domains: ['wikipedia.org'] },
+        search_context_size: 'low',
+        user_location: { type: 'approximate', city: 'London', country: 'GB' },
+      }).problems
+    ).toEqual([])
+    expect(
+      webSearch({
+        filters: { allowed_domains: ['https://wikipedia.org'], blocked_domains: [] },
+        search_context_size: 'huge',
+        user_location: { type: 'exact', country: 'Britain', zip: 'N1' },
+        name: 'search',
+      }).problems.map(({ path }) => path)
+    ).toEqual([
+      '$[0].name',
+      '$[0].filters',
+      '$[0].search_context_size',
+      '$[0].user_location.type',
+      '$[0].user_location.zip',
+      '$[0].user_location.country',
+    ])
+    expect(webSearch({ filters: { allowed_domains: ['en.wikipedia.org/wiki'] } }).problems).toMatchObject([
+      { severity: 'error', path: '$[0].filters.allowed_domains[0]' },
+    ])
+  })
+
+  it('requires a valid, unique name with a handler on the page', () => {
+    const tools = [
+      weatherTool({ type: 'object', properties: {} }),
+      weatherTool({ type: 'object', properties: {} }),
+      { ...weatherTool({ type: 'object' }), name: 'get weather' },
+      { ...weatherTool({ type: 'object' }), name: 'get_forecast' },
+    ]
+    expect(errors(JSON.stringify(tools)).map(({ path, message }) => `${path} ${message}`)).toEqual([
+      '$[1].name "get_current_weather" is defined twice',
+      '$[2].name must be 1–64 letters, digits, underscores or dashes',
+      '$[3].name no handler for "get_forecast" on this page (available: calculate_tip, geocode_location, get_current_weather)',
+    ])
+  })
+
+  it('checks parameter schemas recursively', () => {
+    const parameters = {
+      type: 'object',
+      properties: { lat: { type: 'float' }, tags: { type: 'array', items: { type: 'string', pattern: '(' } } },
+      required: ['lat', 'lon'],
+      additionalProperties: 'no',
+    }
+    expect(errors(JSON.stringify([weatherTool(parameters)])).map(({ path }) => path)).toEqual([
+      '$[0].parameters.properties.lat.type',
+      '$[0].parameters.properties.tags.items.pattern',
+      '$[0].parameters.required',
+      '$[0].parameters.additionalProperties',
+    ])
+    expect(errors(JSON.stringify([weatherTool({ type: 'string' })]))).toMatchObject([{ path: '$[0].parameters' }])
+  })
+
+  it('warns about fields that are ignored or unchecked, without blocking', () => {
+    const tool = weatherTool({ type: 'object', properties: { lat: { type: 'number', format: 'double' } } }, { description: '', strict: true })
+    const result = lintTools(JSON.stringify([tool]), { functionNames })
+    expect(result.tools).not.toBeNull()
+    expect(result.problems.map(({ severity, path }) => `${severity} ${path}`)).toEqual([
+      'warning $[0].description',
+      'warning $[0].parameters.properties.lat.format',
+      'warning $[0].strict',
+    ])
+  })
+})
+
+describe('applyToolEdits', () => {
+  it('uses edited descriptions and schemas, in edited order, and drops removed tools', () => {
+    const parameters = { type: 'object', properties: { lat: { type: 'number' }, lon: { type: 'number' } }, required: ['lat', 'lon'] }
+    const edited = applyToolEdits(definitions, [weatherTool(parameters), toPlaygroundTools([calculateTipTool])[0]])
+    expect(edited.map((definition) => definition.name)).toEqual(['get_current_weather', 'calculate_tip'])
+    expect(edited[0]).toMatchObject({ description: 'Current weather', parameters, handler: getCurrentWeatherTool.handler })
+    expect(edited[1]).toEqual(calculateTipTool)
+  })
+})
+
+describe('diffLines', () => {
+  it('marks removed and added lines around the common ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'removed', text: 'b' },
+      { kind: 'added', text: 'B' },
+      { kind: 'same', text: 'c' },
+      { kind: 'added', text: 'd' },
+    ])
+  })
+
+  it('reports identical text as unchanged', () => {
+    expect(diffLines('same', 'same')).toEqual([{ kind: 'same', text: 'same' }])
+  })
+})
+
+describe('parsePlaygroundConfig', () => {
+  const defaults: PlaygroundConfig = { instructions: 'Be brief.', followUpInstructions: 'Summarize.', tools: toPlaygroundTools([calculateTipTool]) }
+
+  it('returns the defaults when nothing (or garbage) was saved', () => {
+    expect(parsePlaygroundConfig(null, defaults)).toBe(defaults)
+    expect(parsePlaygroundConfig('{nope', defaults)).toBe(defaults)
+  })
+
+  it('keeps saved edits and fills in missing fields', () => {
+    expect(parsePlaygroundConfig(JSON.stringify({ instructions: 'Be chatty.' }), defaults)).toEqual({ ...defaults, instructions: 'Be chatty.' })
+  })
+
+  it('falls back to the default tools when saved tools no longer lint', () => {
+    const saved = JSON.stringify({ ...defaults, tools: [weatherTool({ type: 'object' })] })
+    expect(parsePlaygroundConfig(saved, defaults, { functionNames: ['calculate_tip'] }).tools).toBe(defaults.tools)
+  })
+})
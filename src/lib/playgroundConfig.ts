@@ -0,0 +1,407 @@
+/**
+ * Editable instructions and tools for a lesson page
+ *
+ * Docs: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ *
+ * Each page declares the `PlaygroundConfig` it sends by default: its
+ * `instructions` and `tools`. The instructions editor (`PlaygroundEditor`)
+ * changes both. `lintTools` checks edited tool JSON before it can be saved,
+ * and `diffLines` compares the edits with the page defaults.
+ *
+ * Function tools stay paired with the handlers in `src/tools`: an edit can
+ * change a tool's description and parameter schema, or drop the tool, but
+ * every function tool must name a handler the page has (see `applyToolEdits`).
+ */
+
+import type OpenAI from 'openai'
+import type { ObjectSchema, ToolDefinition } from '@/lib/toolRegistry'
+
+/** A tool as edited; function tools leave `strict` to the page's Strict mode toggle. */
+export type PlaygroundTool =
+  | Omit<OpenAI.Responses.FunctionTool, 'strict'>
+  | Exclude<OpenAI.Responses.Tool, OpenAI.Responses.FunctionTool>
+
+export interface PlaygroundConfig {
+  /** System instructions sent with each request. */
+  instructions: string
+  /** Instructions for the tool loop's follow-up requests; unset means `instructions`. */
+  followUpInstructions?: string
+  tools: PlaygroundTool[]
+}
+
+/** The editable form of function tool definitions (no handlers). */
+export function toPlaygroundTools(definitions: ToolDefinition[]): PlaygroundTool[] {
+  return definitions.map(({ name, description, parameters }) => ({
+    type: 'function',
+    name,
+    description,
+    parameters: { ...parameters },
+  }))
+}
+
+/** Names of the function tools in `tools`, e.g. for `tool_choice`. */
+export function functionToolNames(tools: PlaygroundTool[]): string[] {
+  return tools.flatMap((tool) => (tool.type === 'function' ? [tool.name] : []))
+}
+
+/**
+ * The page's tool definitions with edited descriptions and schemas, in the
+ * edited order. Definitions whose tool was removed in the editor are left out.
+ */
+export function applyToolEdits(definitions: ToolDefinition[], tools: PlaygroundTool[]): ToolDefinition[] {
+  return tools.flatMap((tool) => {
+    const definition = tool.type === 'function' ? definitions.find(({ name }) => name === tool.name) : undefined
+    if (!definition || tool.type !== 'function') return []
+    // `lintTools` has checked that edited parameters are an object schema
+    return [{ ...definition, description: tool.description ?? '', parameters: tool.parameters as unknown as ObjectSchema }]
+  })
+}
+
+/** `tools` for a request on pages without a tool registry (hosted tools only). */
+export function toResponseTools(tools: PlaygroundTool[]): OpenAI.Responses.Tool[] {
+  return tools.map((tool) => (tool.type === 'function' ? { ...tool, parameters: tool.parameters ?? null, strict: false } : tool))
+}
+
+/** Tools as the editor shows them: indented JSON. */
+export function formatTools(tools: PlaygroundTool[]): string {
+  return JSON.stringify(tools, null, 2)
+}
+
+// --- Linting ---
+
+export interface LintProblem {
+  /** Errors block saving; warnings only point out likely mistakes. */
+  severity: 'error' | 'warning'
+  /** JSONPath-style location, e.g. `$[0].parameters.properties.city` */
+  path: string
+  message: string
+}
+
+/** Tool types `lintTools` can check. */
+export type LintedToolType = 'function' | 'web_search'
+
+export interface ToolLintOptions {
+  /** Function tools the page has handlers for; other function names are errors. */
+  functionNames?: string[]
+  /** Tool `type`s the page can send (default: `['function']`). */
+  toolTypes?: LintedToolType[]
+}
+
+export interface ToolLintResult {
+  /** The parsed tools, or `null` when there are errors. */
+  tools: PlaygroundTool[] | null
+  problems: LintProblem[]
+}
+
+/** Function names the API accepts. */
+const FUNCTION_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/
+
+const FUNCTION_TOOL_KEYS = new Set(['type', 'name', 'description', 'parameters', 'strict'])
+
+const WEB_SEARCH_TOOL_KEYS = new Set(['type', 'filters', 'search_context_size', 'user_location'])
+const SEARCH_CONTEXT_SIZES = ['low', 'medium', 'high']
+const USER_LOCATION_KEYS = ['type', 'city', 'country', 'region', 'timezone']
+
+const SCHEMA_TYPE_NAMES = new Set(['object', 'string', 'number', 'integer', 'boolean', 'array', 'null'])
+
+/** Keywords `validateJsonSchema` checks; others are sent to the model but not enforced on arguments. */
+const SCHEMA_KEYWORDS = new Set([
+  'type',
+  'description',
+  'properties',
+  'required',
+  'items',
+  'enum',
+  'additionalProperties',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'minItems',
+  'maxItems',
+  'pattern',
+])
+
+const NUMERIC_KEYWORDS = ['minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'] as const
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Check a JSON Schema against the subset function tools use (see `JsonSchema`).
+ * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ */
+function lintSchema(schema: unknown, path: string, problems: LintProblem[]) {
+  const error = (at: string, message: string) => problems.push({ severity: 'error', path: at, message })
+
+  if (!isRecord(schema)) {
+    error(path, 'must be a JSON Schema object')
+    return
+  }
+
+  for (const key of Object.keys(schema)) {
+    if (!SCHEMA_KEYWORDS.has(key)) {
+      problems.push({ severity: 'warning', path: `${path}.${key}`, message: 'is sent to the model but not checked when validating arguments' })
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    for (const type of types) {
+      if (typeof type !== 'string' || !SCHEMA_TYPE_NAMES.has(type)) {
+        error(`${path}.type`, `unknown type ${JSON.stringify(type)}; use ${[...SCHEMA_TYPE_NAMES].join(', ')}`)
+      }
+    }
+  }
+
+  if (schema.description !== undefined && typeof schema.description !== 'string') {
+    error(`${path}.description`, 'must be a string')
+  }
+
+  const properties = schema.properties
+  if (properties !== undefined) {
+    if (isRecord(properties)) {
+      for (const [key, property] of Object.entries(properties)) {
+        lintSchema(property, `${path}.properties.${key}`, problems)
+      }
+    } else {
+      error(`${path}.properties`, 'must be an object of property schemas')
+    }
+  }
+
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || !schema.required.every((key) => typeof key === 'string')) {
+      error(`${path}.required`, 'must be an array of property names')
+    } else {
+      for (const key of schema.required) {
+        if (!isRecord(properties) || !(key in properties)) {
+          error(`${path}.required`, `"${key}" is required but not listed in properties`)
+        }
+      }
+    }
+  }
+
+  if (schema.items !== undefined) {
+    lintSchema(schema.items, `${path}.items`, problems)
+  }
+
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    error(`${path}.enum`, 'must be a non-empty array of values')
+  }
+
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    error(`${path}.additionalProperties`, 'must be true or false')
+  }
+
+  for (const keyword of NUMERIC_KEYWORDS) {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+      error(`${path}.${keyword}`, 'must be a number')
+    }
+  }
+
+  if (schema.pattern !== undefined) {
+    try {
+      if (typeof schema.pattern !== 'string') throw new TypeError()
+      new RegExp(schema.pattern)
+    } catch {
+      error(`${path}.pattern`, 'must be a valid regular expression')
+    }
+  }
+}
+
+/** Check one function tool; `names` collects names seen so far to catch duplicates. */
+function lintFunctionTool(tool: Record<string, unknown>, path: string, names: Set<string>, options: ToolLintOptions, problems: LintProblem[]) {
+  const error = (at: string, message: string) => problems.push({ severity: 'error', path: at, message })
+
+  for (const key of Object.keys(tool)) {
+    if (!FUNCTION_TOOL_KEYS.has(key)) {
+      error(`${path}.${key}`, 'is not a function tool field (type, name, description, parameters)')
+    }
+  }
+
+  const { name, description, parameters } = tool
+  if (typeof name !== 'string' || !FUNCTION_NAME_PATTERN.test(name)) {
+    error(`${path}.name`, 'must be 1–64 letters, digits, underscores or dashes')
+  } else if (names.has(name)) {
+    error(`${path}.name`, `"${name}" is defined twice`)
+  } else {
+    names.add(name)
+    if (options.functionNames && !options.functionNames.includes(name)) {
+      error(`${path}.name`, `no handler for "${name}" on this page (available: ${options.functionNames.join(', ') || 'none'})`)
+    }
+  }
+
+  if (description === undefined || description === '') {
+    problems.push({ severity: 'warning', path: `${path}.description`, message: 'is empty; the model chooses tools by their descriptions' })
+  } else if (typeof description !== 'string') {
+    error(`${path}.description`, 'must be a string')
+  }
+
+  if (!isRecord(parameters) || parameters.type !== 'object') {
+    error(`${path}.parameters`, 'must be a JSON Schema with type "object"')
+  } else {
+    lintSchema(parameters, `${path}.parameters`, problems)
+  }
+
+  if (tool.strict !== undefined) {
+    problems.push({ severity: 'warning', path: `${path}.strict`, message: 'is ignored; the Strict mode toggle sets it' })
+  }
+}
+
+/**
+ * Check one hosted web search tool.
+ * See: https://platform.openai.com/docs/api-reference/responses/create#responses_create-tools
+ */
+function lintWebSearchTool(tool: Record<string, unknown>, path: string, problems: LintProblem[]) {
+  const error = (at: string, message: string) => problems.push({ severity: 'error', path: at, message })
+
+  for (const key of Object.keys(tool)) {
+    if (!WEB_SEARCH_TOOL_KEYS.has(key)) {
+      error(`${path}.${key}`, `is not a web search tool field (${[...WEB_SEARCH_TOOL_KEYS].join(', ')})`)
+    }
+  }
+
+  const { filters, search_context_size: contextSize, user_location: location } = tool
+  if (filters !== undefined && filters !== null) {
+    if (!isRecord(filters) || Object.keys(filters).some((key) => key !== 'allowed_domains')) {
+      error(`${path}.filters`, 'must be an object with only "allowed_domains"')
+    } else if (filters.allowed_domains !== undefined && filters.allowed_domains !== null) {
+      const domains = filters.allowed_domains
+      if (!Array.isArray(domains) || !domains.every((domain) => typeof domain === 'string' && domain !== '')) {
+        error(`${path}.filters.allowed_domains`, 'must be an array of domain names')
+      } else {
+        domains.forEach((domain, index) => {
+          if (domain.includes('://') || domain.includes('/')) {
+            error(`${path}.filters.allowed_domains[${index}]`, `"${domain}" must be a domain like "wikipedia.org", without a scheme or path`)
+          }
+        })
+      }
+    }
+  }
+
+  if (contextSize !== undefined && !SEARCH_CONTEXT_SIZES.includes(contextSize as string)) {
+    error(`${path}.search_context_size`, `must be one of ${SEARCH_CONTEXT_SIZES.join(', ')}`)
+  }
+
+  if (location !== undefined && location !== null) {
+    if (!isRecord(location)) {
+      error(`${path}.user_location`, 'must be an object')
+      return
+    }
+    for (const [key, value] of Object.entries(location)) {
+      if (!USER_LOCATION_KEYS.includes(key)) {
+        error(`${path}.user_location.${key}`, `is not a user location field (${USER_LOCATION_KEYS.join(', ')})`)
+      } else if (key === 'type' ? value !== 'approximate' : value !== null && typeof value !== 'string') {
+        error(`${path}.user_location.${key}`, key === 'type' ? 'must be "approximate"' : 'must be a string')
+      }
+    }
+    if (typeof location.country === 'string' && !/^[A-Z]{2}$/.test(location.country)) {
+      error(`${path}.user_location.country`, 'must be a two-letter ISO country code, e.g. "GB"')
+    }
+  }
+}
+
+/**
+ * Parse and check edited `tools` JSON: an array of tools of the page's types,
+ * function tools with a handler, a valid name and an object parameter schema,
+ * and web search tools with only the fields the API accepts.
+ * See: https://platform.openai.com/docs/api-reference/responses/create#responses_create-tools
+ */
+export function lintTools(json: string, options: ToolLintOptions = {}): ToolLintResult {
+  const problems: LintProblem[] = []
+  const toolTypes = options.toolTypes ?? ['function']
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    return { tools: null, problems: [{ severity: 'error', path: '$', message: `invalid JSON: ${error instanceof Error ? error.message : String(error)}` }] }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { tools: null, problems: [{ severity: 'error', path: '$', message: 'must be an array of tools' }] }
+  }
+
+  const names = new Set<string>()
+  parsed.forEach((tool, index) => {
+    const path = `$[${index}]`
+    if (!isRecord(tool) || typeof tool.type !== 'string') {
+      problems.push({ severity: 'error', path, message: 'must be a tool object with a "type"' })
+    } else if (!toolTypes.includes(tool.type as LintedToolType)) {
+      problems.push({ severity: 'error', path: `${path}.type`, message: `"${tool.type}" tools are not supported on this page (use ${toolTypes.join(', ')})` })
+    } else if (tool.type === 'function') {
+      lintFunctionTool(tool, path, names, options, problems)
+    } else {
+      lintWebSearchTool(tool, path, problems)
+    }
+  })
+
+  const hasErrors = problems.some((problem) => problem.severity === 'error')
+  return { tools: hasErrors ? null : (parsed as PlaygroundTool[]), problems }
+}
+
+// --- Diffing ---
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Line diff of `before` and `after` from their longest common subsequence.
+ * Removed lines come before the added lines that replace them.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // lengths[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] })
+    } else {
+      lines.push({ kind: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] })
+  return lines
+}
+
+// --- Persistence ---
+
+/**
+ * Read a saved config, falling back to `defaults` for missing fields and for
+ * saved tools that no longer pass `lintTools` (e.g. a handler was renamed).
+ */
+export function parsePlaygroundConfig(saved: string | null, defaults: PlaygroundConfig, options: ToolLintOptions = {}): PlaygroundConfig {
+  if (!saved) return defaults
+  try {
+    const parsed = JSON.parse(saved) as Partial<PlaygroundConfig>
+    const { tools } = lintTools(JSON.stringify(parsed.tools ?? defaults.tools), options)
+    return {
+      instructions: typeof parsed.instructions === 'string' ? parsed.instructions : defaults.instructions,
+      ...(defaults.followUpInstructions !== undefined && {
+        followUpInstructions: typeof parsed.followUpInstructions === 'string' ? parsed.followUpInstructions : defaults.followUpInstructions,
+      }),
+      tools: tools ?? defaults.tools,
+    }
+  } catch {
+    return defaults
+  }
+}
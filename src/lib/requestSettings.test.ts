@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_REQUEST_SETTINGS, parseRequestSettings, toRequestParams } from '@/lib/requestSettings'
+import type { RequestSettings } from '@/lib/requestSettings'
+
+function settings(patch: Partial<RequestSettings>): RequestSettings {
+  return { ...DEFAULT_REQUEST_SETTINGS, ...patch }
+}
+
+describe('toRequestParams', () => {
+  it('sends only the model by default', () => {
+    expect(toRequestParams(DEFAULT_REQUEST_SETTINGS, { hasTools: true })).toEqual({ model: 'gpt-5' })
+  })
+
+  it('sends reasoning effort, verbosity and max output tokens for GPT-5', () => {
+    expect(toRequestParams(settings({ reasoningEffort: 'minimal', verbosity: 'low', maxOutputTokens: 500 }))).toEqual({
+      model: 'gpt-5',
+      reasoning: { effort: 'minimal' },
+      text: { verbosity: 'low' },
+      max_output_tokens: 500,
+    })
+  })
+
+  it('drops parameters the model does not accept', () => {
+    expect(toRequestParams(settings({ temperature: 0.2 }))).toEqual({ model: 'gpt-5' })
+    expect(toRequestParams(settings({ model: 'o4-mini', reasoningEffort: 'minimal', verbosity: 'high' }))).toEqual({ model: 'o4-mini' })
+    expect(toRequestParams(settings({ model: 'gpt-4.1', reasoningEffort: 'high', verbosity: 'high', temperature: 0.2 }))).toEqual({
+      model: 'gpt-4.1',
+      temperature: 0.2,
+    })
+  })
+
+  it('sends tool settings only when the page has tools', () => {
+    const toolSettings = settings({ toolChoice: 'required', parallelToolCalls: false })
+    expect(toRequestParams(toolSettings)).toEqual({ model: 'gpt-5' })
+    expect(toRequestParams(toolSettings, { hasTools: true })).toEqual({ model: 'gpt-5', tool_choice: 'required', parallel_tool_calls: false })
+  })
+
+  it('forces a function tool by name, falling back to auto for unknown names', () => {
+    const forced = settings({ toolChoice: { function: 'calculate_tip' } })
+    expect(toRequestParams(forced, { hasTools: true, functionNames: ['calculate_tip'] })).toEqual({
+      model: 'gpt-5',
+      tool_choice: { type: 'function', name: 'calculate_tip' },
+    })
+    expect(toRequestParams(forced, { hasTools: true, functionNames: ['get_current_weather'] })).toEqual({ model: 'gpt-5' })
+  })
+})
+
+describe('parseRequestSettings', () => {
+  it('falls back to the defaults for missing or malformed settings', () => {
+    expect(parseRequestSettings(null)).toEqual(DEFAULT_REQUEST_SETTINGS)
+    expect(parseRequestSettings('{not json')).toEqual(DEFAULT_REQUEST_SETTINGS)
+  })
+
+  it('fills in fields missing from saved settings', () => {
+    expect(parseRequestSettings(JSON.stringify({ model: 'gpt-5-mini' }))).toEqual(settings({ model: 'gpt-5-mini' }))
+  })
+})
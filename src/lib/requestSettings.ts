@@ -0,0 +1,133 @@
+/**
+ * Per-page model and request parameters
+ *
+ * API Reference: https://platform.openai.com/docs/api-reference/responses/create
+ * Reasoning: https://platform.openai.com/docs/guides/reasoning
+ * Tool choice: https://platform.openai.com/docs/guides/function-calling#tool-choice
+ *
+ * `RequestSettings` is what the settings popover edits (see
+ * `RequestSettingsForm`) and `useRequestSettings` persists per page.
+ * `toRequestParams` turns it into `responses.create` parameters, sending only
+ * what differs from the API defaults and only what the chosen model accepts:
+ * reasoning effort for reasoning models, verbosity for GPT-5 models and
+ * temperature for the others.
+ */
+
+import type OpenAI from 'openai'
+
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high'
+export type Verbosity = 'low' | 'medium' | 'high'
+
+/** `auto` / `required` / `none`, or force one function tool by name. */
+export type ToolChoiceSetting = 'auto' | 'required' | 'none' | { function: string }
+
+export interface RequestSettings {
+  model: string
+  /** `null` leaves the model's default */
+  reasoningEffort: ReasoningEffort | null
+  /** `null` leaves the model's default */
+  verbosity: Verbosity | null
+  /** `null` for no limit */
+  maxOutputTokens: number | null
+  parallelToolCalls: boolean
+  toolChoice: ToolChoiceSetting
+  /** `null` leaves the model's default */
+  temperature: number | null
+}
+
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = {
+  model: 'gpt-5',
+  reasoningEffort: null,
+  verbosity: null,
+  maxOutputTokens: null,
+  parallelToolCalls: true,
+  toolChoice: 'auto',
+  temperature: null,
+}
+
+/** The request parameters a page's settings control. */
+export type RequestParams = { model: string } & Pick<
+  OpenAI.Responses.ResponseCreateParamsNonStreaming,
+  'reasoning' | 'text' | 'max_output_tokens' | 'parallel_tool_calls' | 'tool_choice' | 'temperature'
+>
+
+/** Offered when no key check has listed the account's models (see `ApiKeyConfig`). */
+const DEFAULT_MODELS = ['gpt-5', 'gpt-5-mini', 'gpt-5-nano', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4o', 'gpt-4o-mini', 'o3', 'o4-mini']
+
+const MODELS_STORAGE_KEY = 'openai_models'
+
+/** Remember the models the API key check found, for the model picker. */
+export function saveDiscoveredModels(models: string[]) {
+  localStorage.setItem(MODELS_STORAGE_KEY, JSON.stringify(models))
+}
+
+/** Models for the picker: those the key check found, or a default list. */
+export function getModelOptions(): string[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(MODELS_STORAGE_KEY) ?? 'null')
+    if (Array.isArray(stored) && stored.length > 0 && stored.every((model) => typeof model === 'string')) return stored
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_MODELS
+}
+
+/** GPT-5 and o-series models reason before answering and take `reasoning.effort`. */
+export function isReasoningModel(model: string) {
+  return /^(gpt-5|o\d)/.test(model)
+}
+
+/** `minimal` effort and `text.verbosity` are GPT-5 features. */
+export function isGpt5Model(model: string) {
+  return model.startsWith('gpt-5')
+}
+
+/** Reasoning models reject `temperature`. */
+export function supportsTemperature(model: string) {
+  return !isReasoningModel(model)
+}
+
+export function reasoningEffortOptions(model: string): ReasoningEffort[] {
+  return isGpt5Model(model) ? ['minimal', 'low', 'medium', 'high'] : ['low', 'medium', 'high']
+}
+
+export interface RequestParamsOptions {
+  /** Whether the page sends any tools; tool settings are dropped otherwise. */
+  hasTools?: boolean
+  /** Function tools that `toolChoice` may force; a stale name falls back to `auto`. */
+  functionNames?: string[]
+}
+
+/**
+ * Build the `responses.create` parameters for `settings`.
+ * See: https://platform.openai.com/docs/api-reference/responses/create
+ */
+export function toRequestParams(
+  settings: RequestSettings,
+  { hasTools = false, functionNames = [] }: RequestParamsOptions = {}
+): RequestParams {
+  const { model, reasoningEffort, verbosity, maxOutputTokens, parallelToolCalls, toolChoice, temperature } = settings
+  const effort = reasoningEffort && reasoningEffortOptions(model).includes(reasoningEffort) ? reasoningEffort : null
+  const forcedFunction = typeof toolChoice === 'object' && functionNames.includes(toolChoice.function) ? toolChoice.function : null
+
+  return {
+    model,
+    ...(effort && isReasoningModel(model) && { reasoning: { effort } }),
+    ...(verbosity && isGpt5Model(model) && { text: { verbosity } }),
+    ...(maxOutputTokens !== null && { max_output_tokens: maxOutputTokens }),
+    ...(temperature !== null && supportsTemperature(model) && { temperature }),
+    ...(hasTools && !parallelToolCalls && { parallel_tool_calls: false }),
+    ...(hasTools && typeof toolChoice === 'string' && toolChoice !== 'auto' && { tool_choice: toolChoice }),
+    ...(hasTools && forcedFunction && { tool_choice: { type: 'function', name: forcedFunction } }),
+  }
+}
+
+/** Read saved settings, filling in fields added since they were saved. */
+export function parseRequestSettings(saved: string | null): RequestSettings {
+  if (!saved) return DEFAULT_REQUEST_SETTINGS
+  try {
+    return { ...DEFAULT_REQUEST_SETTINGS, ...(JSON.parse(saved) as Partial<RequestSettings>) }
+  } catch {
+    return DEFAULT_REQUEST_SETTINGS
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Per-call handling shared by `runToolLoop` and `runCompletionsToolLoop`
+ *
+ * Docs: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
+ *
+ * Both APIs handle a function call the same way — optional approval, execution
+ * through the tool registry, trace steps and a `FunctionExecution` record —
+ * and only differ in how the call arrives and how its output is sent back.
+ * The loops map their API's call shape to a `PendingFunctionCall`, pass it to
+ * `handleFunctionCall`, and wrap `JSON.stringify(execution.result)` in a
+ * `function_call_output` item or a `tool` message.
+ */
+
+import { describeToolLocation } from '@/lib/toolRegistry'
+import type { ToolRegistry } from '@/lib/toolRegistry'
+import type { FunctionExecution, PendingFunctionCall } from '@/lib/toolLoop'
+import type { ApprovalDecision, TraceStep } from '@/types/chat'
+
+export interface HandleFunctionCallOptions {
+  registry: ToolRegistry
+  /** The tool-calling round the call belongs to, for the `FunctionExecution` record. */
+  round: number
+  onTrace: (step: TraceStep) => void
+  approve?: (call: PendingFunctionCall) => Promise<ApprovalDecision>
+  signal?: AbortSignal
+}
+
+export interface HandledFunctionCall {
+  /** The executed, rejected or failed call; send `result` back to the model. */
+  execution: FunctionExecution
+  /** The raw JSON arguments that actually ran (edited ones, if the user changed them). */
+  arguments: string
+}
+
+/** Parse a function call's JSON arguments for display, falling back to the raw string. */
+export function parseArgumentsForTrace(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+/** Mark a step as in-progress; returns a callback to complete it (mirrors `useTrace().trace`). */
+export function createTrace(onTrace: (step: TraceStep) => void) {
+  return (id: string, label: string, data?: unknown) => {
+    onTrace({ id, label, status: 'in-progress', timestamp: Date.now(), data })
+    return (completedLabel?: string, completedData?: unknown) =>
+      onTrace({ id, label: completedLabel ?? label, status: 'completed', timestamp: Date.now(), data: completedData })
+  }
+}
+
+/**
+ * Steps 3–4 for one call: optional approval, then execution through the registry.
+ * Rejected and failed calls still resolve, with an error `result` the model can
+ * respond to; only aborting `signal` rejects.
+ */
+export async function handleFunctionCall(
+  call: PendingFunctionCall,
+  { registry, round, onTrace, approve, signal }: HandleFunctionCallOptions
+): Promise<HandledFunctionCall> {
+  const trace = createTrace(onTrace)
+  const functionName = call.name
+  const execTraceId = `exec-${call.call_id}`
+  let rawArguments = call.arguments
+
+  /**
+   * Optional approval step: wait for the user before executing.
+   * Rejections are reported back to the model so it can respond gracefully.
+   */
+  if (approve) {
+    const approvalTraceId = `approval-${call.call_id}`
+    const approvalDone = trace(approvalTraceId, `Waiting for approval: ${functionName}()`, {
+      function: functionName,
+      arguments: parseArgumentsForTrace(rawArguments),
+    })
+
+    const decision = await approve(call)
+    // Stopping the request also rejects pending approvals; don't treat that as a user decision
+    signal?.throwIfAborted()
+
+    if (decision.action === 'reject') {
+      const result = {
+        error: `The user rejected this call to ${functionName}. Do not retry it; explain that the action was not performed.`,
+        reason: decision.reason,
+      }
+      onTrace({
+        id: approvalTraceId,
+        label: `${functionName}() rejected by user`,
+        status: 'error',
+        timestamp: Date.now(),
+        data: { function: functionName, arguments: parseArgumentsForTrace(rawArguments), result },
+      })
+      const execution: FunctionExecution = {
+        round,
+        call_id: call.call_id,
+        function_name: functionName,
+        arguments: parseArgumentsForTrace(rawArguments),
+        result,
+        status: 'rejected',
+      }
+      return { execution, arguments: rawArguments }
+    }
+
+    if (decision.arguments !== undefined && decision.arguments !== rawArguments) {
+      rawArguments = decision.arguments
+      approvalDone(`${functionName}() approved with edited arguments`, {
+        function: functionName,
+        original_arguments: parseArgumentsForTrace(call.arguments),
+        arguments: parseArgumentsForTrace(rawArguments),
+      })
+    } else {
+      approvalDone(`${functionName}() approved`)
+    }
+  }
+
+  const execDone = trace(execTraceId, `Executing ${functionName}() ${describeToolLocation(registry.location)}`, {
+    function: functionName,
+    arguments: parseArgumentsForTrace(rawArguments),
+  })
+
+  // The registry parses and validates the arguments before running the handler
+  const { status, error, arguments: functionArgs, result, ranOn } = await registry.execute(functionName, rawArguments, { signal })
+  // Handlers may swallow the abort error; never send a cancelled call's output
+  signal?.throwIfAborted()
+
+  // --- Trace: function completed, or was rejected before running ---
+  // `ranOn` is unset when the registry refused the call, so only calls that ran are labelled
+  const where = ranOn ? ` ${describeToolLocation(ranOn)}` : ''
+  if (status === 'error') {
+    onTrace({
+      id: execTraceId,
+      label: `${functionName}() failed${where}: ${error}`,
+      status: 'error',
+      timestamp: Date.now(),
+      data: { function: functionName, arguments: functionArgs, result, ran_on: ranOn },
+    })
+  } else {
+    execDone(`${functionName}() returned${where}`, { function: functionName, arguments: functionArgs, result, ran_on: ranOn })
+  }
+
+  const execution: FunctionExecution = {
+    round,
+    call_id: call.call_id,
+    function_name: functionName,
+    arguments: functionArgs,
+    result,
+    status,
+  }
+  return { execution, arguments: rawArguments }
+}
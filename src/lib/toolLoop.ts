@@ -0,0 +1,404 @@
+/**
+ * Shared tool-calling loop for the Responses API
+ *
+ * Docs: https://platform.openai.com/docs/guides/function-calling#the-tool-calling-flow
+ *
+ * Every function-calling lesson follows the same flow:
+ *   1. Send the conversation + tool definitions to the model
+ *   2. Filter `function_call` items out of `response.output`
+ *   3. Execute each call with the matching handler from the tool registry
+ *   4. Append `function_call_output` items to the running input list
+ *   5. Send the results back and repeat until the model stops calling tools
+ *
+ * `runToolLoop` implements that flow once, without any React dependency.
+ * Progress is reported through `onTrace` using the same `TraceStep` shape
+ * `useTrace().pushTrace` accepts, so `InspectorPanels` renders it unchanged.
+ *
+ * When an `approve` callback is supplied, each call waits for the user's
+ * decision before step 3; rejected calls are answered with an explanatory
+ * `function_call_output` instead of being executed.
+ *
+ * With `stream: true` every request is streamed. Function call arguments are
+ * accumulated from `response.function_call_arguments.delta` events per
+ * `item_id` and shown forming live in the trace; each call starts executing
+ * as soon as its `.done` event arrives, while the rest of the response is
+ * still streaming. Text deltas are forwarded to `onTextDelta`.
+ * See: https://platform.openai.com/docs/guides/function-calling#streaming
+ *
+ * With `chain: true` the responses are stored (`store: true`) and each follow-up
+ * round continues the stored chain with `previous_response_id`, sending only
+ * the new `function_call_output` items instead of replaying the input list.
+ * Pass the previous turn's `response.id` as `previousResponseId` (with just the
+ * new user message as `input`) to chain whole conversation turns the same way.
+ * See: https://platform.openai.com/docs/guides/conversation-state#passing-context-from-the-previous-response
+ *
+ * Aborting `signal` cancels the open request or stream and the running tool
+ * handlers; the loop then rejects with the abort error.
+ */
+
+import type OpenAI from 'openai'
+import { createTrace, handleFunctionCall, parseArgumentsForTrace } from '@/lib/toolCalls'
+import type { ToolRegistry } from '@/lib/toolRegistry'
+import type { RequestParams } from '@/lib/requestSettings'
+import type { ApprovalDecision, Message, TraceStep } from '@/types/chat'
+
+/** One executed function call, kept for the inspector's function trace. */
+export interface FunctionExecution {
+  round: number
+  call_id: string
+  function_name: string
+  arguments: unknown
+  result: unknown
+  status: 'completed' | 'error' | 'rejected'
+}
+
+/** A function call the model requested, as passed to the `approve` callback. */
+export interface PendingFunctionCall {
+  call_id: string
+  name: string
+  /** The model's raw JSON arguments string */
+  arguments: string
+  /** Set for hosted MCP tool approval requests, which can't have their arguments edited */
+  server_label?: string
+}
+
+export interface RunToolLoopOptions {
+  client: OpenAI
+  model: string
+  /** The page's other request settings (reasoning, `tool_choice`, …); see `toRequestParams`. */
+  parameters?: Omit<RequestParams, 'model'>
+  instructions?: string
+  /** Instructions for the follow-up requests; defaults to `instructions`. */
+  followUpInstructions?: string
+  /** Function tools and their handlers (see `createToolRegistry`). */
+  registry: ToolRegistry
+  /**
+   * Conversation so far, ending with the latest user message — or, with
+   * `previousResponseId`, only the items that follow that response.
+   */
+  input: OpenAI.Responses.ResponseInputItem[]
+  /** Store every response and chain the follow-up rounds with `previous_response_id`. */
+  chain?: boolean
+  /** Continue from this stored response instead of replaying the earlier conversation. */
+  previousResponseId?: string
+  /** Stream every request; function calls execute as soon as their arguments are complete. */
+  stream?: boolean
+  /** Receives streamed text as it arrives (only with `stream: true`). */
+  onTextDelta?: (delta: string) => void
+  /** Receives trace steps as the loop progresses (e.g. `useTrace().pushTrace`). */
+  onTrace?: (step: TraceStep) => void
+  /** Human-in-the-loop hook: resolve with the user's decision before each call runs. */
+  approve?: (call: PendingFunctionCall) => Promise<ApprovalDecision>
+  /** Called after each function call has been executed, rejected or failed. */
+  onExecution?: (execution: FunctionExecution) => void
+  /** Safety limit on the number of tool-calling rounds. */
+  maxRounds?: number
+  /** Cancels the loop: the current request, any running handlers and later rounds. */
+  signal?: AbortSignal
+}
+
+export interface ToolLoopResult {
+  /** The final response — the one without any `function_call` items. */
+  response: OpenAI.Responses.Response
+  /** The full input list, including every `function_call` and `function_call_output`. */
+  input: OpenAI.Responses.ResponseInputItem[]
+  /** The items this turn added after `input`, ending with the final response's output. */
+  newItems: OpenAI.Responses.ResponseInputItem[]
+  executions: FunctionExecution[]
+  rounds: number
+}
+
+const DEFAULT_MAX_ROUNDS = 10
+
+/**
+ * Build the Responses API input for a conversation.
+ * See: https://platform.openai.com/docs/guides/conversation-state#manually-manage-conversation-state
+ *
+ * Assistant turns replay their `inputItems` — tool calls, tool outputs and the
+ * final output — so earlier tool results stay in the model's context; other
+ * messages are sent as plain text. Function call cards are UI-only and skipped.
+ */
+export function toResponseInput(messages: Message[]): OpenAI.Responses.ResponseInputItem[] {
+  return messages.flatMap((msg): OpenAI.Responses.ResponseInputItem[] => {
+    if (msg.role === 'function') return []
+    return msg.inputItems ?? [{ role: msg.role, content: msg.content }]
+  })
+}
+
+/**
+ * Run the Responses API tool-calling loop until the model returns a final answer.
+ * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
+ */
+export async function runToolLoop({
+  client,
+  model,
+  parameters = {},
+  instructions,
+  followUpInstructions = instructions,
+  registry,
+  input,
+  chain = false,
+  previousResponseId,
+  stream = false,
+  onTextDelta,
+  onTrace = () => {},
+  approve,
+  onExecution = () => {},
+  maxRounds = DEFAULT_MAX_ROUNDS,
+  signal,
+}: RunToolLoopOptions): Promise<ToolLoopResult> {
+  const trace = createTrace(onTrace)
+
+  // Build a running input list we will add to over time
+  // See: https://platform.openai.com/docs/guides/function-calling (complete tool calling example)
+  const inputList: OpenAI.Responses.ResponseInputItem[] = [...input]
+  const executions: FunctionExecution[] = []
+  let roundNumber = 0
+  // The response the next request continues from, and where its new input items start in `inputList`
+  let chainedResponseId = previousResponseId
+  let newItemsStart = 0
+
+  /**
+   * Steps 3–4 for one call (see `handleFunctionCall`), answered with a
+   * `function_call_output` item. Resolves with the arguments that actually ran.
+   */
+  async function handleCall(toolCall: OpenAI.Responses.ResponseFunctionToolCall, round: number) {
+    const { execution, arguments: executedArguments } = await handleFunctionCall(
+      { call_id: toolCall.call_id, name: toolCall.name, arguments: toolCall.arguments },
+      { registry, round, onTrace, approve, signal }
+    )
+    executions.push(execution)
+    onExecution(execution)
+
+    /**
+     * Step 4: Build the function call output item
+     * See: https://platform.openai.com/docs/guides/function-calling#formatting-results
+     *
+     * Errors are sent back as output too, so the model can self-correct.
+     */
+    const output: OpenAI.Responses.ResponseInputItem.FunctionCallOutput = {
+      type: 'function_call_output',
+      call_id: toolCall.call_id,
+      output: JSON.stringify(execution.result),
+    }
+    return { output, arguments: executedArguments }
+  }
+
+  // Calls started while their response was still streaming, keyed by `call_id`
+  const startedCalls = new Map<string, ReturnType<typeof handleCall>>()
+
+  /**
+   * Send one request. When streaming, text deltas are forwarded, function call
+   * arguments are accumulated per `item_id`, and each call is started via
+   * `handleCall` on its `.done` event. Resolves with the completed response.
+   * See: https://platform.openai.com/docs/api-reference/responses-streaming
+   */
+  async function createResponse(requestInstructions: string | undefined, requestParameters: Omit<RequestParams, 'model'>) {
+    const request = {
+      model,
+      ...requestParameters,
+      instructions: requestInstructions,
+      tools: registry.tools,
+      // Left unset otherwise: replayed reasoning items are looked up from stored responses
+      ...(chain && { store: true }),
+      previous_response_id: chainedResponseId,
+      // A stored chain already holds everything up to `chainedResponseId`; send only what's new
+      input: inputList.slice(newItemsStart),
+    }
+
+    if (!stream) {
+      return client.responses.create(request, { signal })
+    }
+
+    const events = await client.responses.create({ ...request, stream: true }, { signal })
+    // Function call items announced by `response.output_item.added`, and their arguments so far
+    const streamingCalls = new Map<string, { item: OpenAI.Responses.ResponseFunctionToolCall; arguments: string }>()
+
+    for await (const event of events) {
+      switch (event.type) {
+        case 'response.output_item.added':
+          if (event.item.type === 'function_call' && event.item.id) {
+            streamingCalls.set(event.item.id, { item: event.item, arguments: '' })
+            onTrace({
+              id: `args-${event.item.id}`,
+              label: `Streaming arguments: ${event.item.name}()`,
+              status: 'in-progress',
+              timestamp: Date.now(),
+              data: { call_id: event.item.call_id, arguments: '' },
+            })
+          }
+          break
+
+        // See: https://platform.openai.com/docs/api-reference/responses-streaming/response/function_call_arguments/delta
+        case 'response.function_call_arguments.delta': {
+          const call = streamingCalls.get(event.item_id)
+          if (!call) break
+          call.arguments += event.delta
+          onTrace({
+            id: `args-${event.item_id}`,
+            label: `Streaming arguments: ${call.item.name}()`,
+            status: 'in-progress',
+            timestamp: Date.now(),
+            data: { call_id: call.item.call_id, arguments: call.arguments },
+          })
+          break
+        }
+
+        // The arguments are complete: start executing without waiting for the rest of the stream
+        // See: https://platform.openai.com/docs/api-reference/responses-streaming/response/function_call_arguments/done
+        case 'response.function_call_arguments.done': {
+          const call = streamingCalls.get(event.item_id)
+          if (!call) break
+          onTrace({
+            id: `args-${event.item_id}`,
+            label: `Arguments complete: ${call.item.name}()`,
+            status: 'completed',
+            timestamp: Date.now(),
+            data: { call_id: call.item.call_id, arguments: parseArgumentsForTrace(event.arguments) },
+          })
+          const started = handleCall({ ...call.item, arguments: event.arguments }, roundNumber + 1)
+          // Failures surface when the loop awaits the call; avoid an unhandled rejection before then
+          started.catch(() => {})
+          startedCalls.set(call.item.call_id, started)
+          break
+        }
+
+        case 'response.output_text.delta':
+          onTextDelta?.(event.delta)
+          break
+
+        case 'response.completed':
+          return event.response
+
+        case 'response.failed':
+          throw new Error(event.response.error?.message ?? 'Response failed')
+
+        case 'response.incomplete':
+          throw new Error(`Response incomplete: ${event.response.incomplete_details?.reason ?? 'unknown reason'}`)
+
+        case 'error':
+          throw new Error(event.message)
+
+        default:
+          break
+      }
+    }
+
+    throw new Error('Stream ended before the response completed')
+  }
+
+  // A forced `tool_choice` applies to the first request only; later rounds must be free to answer
+  const followUpParameters = { ...parameters, tool_choice: undefined }
+
+  /**
+   * Step 1: Make initial request with tools defined
+   * See: https://platform.openai.com/docs/guides/function-calling#the-tool-calling-flow
+   */
+  const initialDone = trace('initial-request', stream ? 'Streaming request to model' : 'Sending request to model', {
+    model,
+    ...parameters,
+    messageCount: input.length,
+    strict: registry.strict,
+    stream,
+    chain,
+    previous_response_id: previousResponseId,
+  })
+
+  let response = await createResponse(instructions, parameters)
+
+  // Loop while the model keeps requesting function calls
+  while (true) {
+    /**
+     * Step 2: Check for function calls in the response
+     * Each function call has: call_id, name, and arguments (JSON string)
+     */
+    const functionCalls = response.output.filter(
+      (item): item is OpenAI.Responses.ResponseFunctionToolCall => item.type === 'function_call'
+    )
+
+    if (functionCalls.length === 0) {
+      // No function calls — model responded directly with text
+      if (roundNumber === 0) {
+        initialDone('Model responded (no tool calls)', response.output)
+      }
+      break
+    }
+
+    if (roundNumber >= maxRounds) {
+      throw new Error(`Tool loop stopped after ${maxRounds} rounds without a final response`)
+    }
+
+    roundNumber++
+
+    // --- Trace: model detected function call(s) ---
+    const callSummary = functionCalls.map((fc) => ({
+      name: fc.name,
+      call_id: fc.call_id,
+      arguments: parseArgumentsForTrace(fc.arguments),
+    }))
+    if (roundNumber === 1) {
+      initialDone('Model requested function call(s)', callSummary)
+    } else {
+      onTrace({
+        id: `round-${roundNumber}-calls`,
+        label: `Round ${roundNumber}: ${functionCalls.length} tool call(s)`,
+        status: 'completed',
+        timestamp: Date.now(),
+        data: callSummary,
+      })
+    }
+
+    // Append the model's output (including function calls) to input list
+    inputList.push(...(response.output as OpenAI.Responses.ResponseInputItem[]))
+
+    // A stored response already holds its input and output; the follow-up only adds the outputs
+    if (chain) {
+      chainedResponseId = response.id
+      newItemsStart = inputList.length
+    }
+
+    /**
+     * Step 3: Execute each function call and collect outputs
+     * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
+     *
+     * Streamed calls are already running; outputs are appended in call order.
+     */
+    for (const toolCall of functionCalls) {
+      const { output, arguments: executedArguments } = await (startedCalls.get(toolCall.call_id) ?? handleCall(toolCall, roundNumber))
+
+      if (executedArguments !== toolCall.arguments) {
+        // Keep the replayed `function_call` item consistent with what actually ran
+        // (a stored chain keeps the model's original arguments)
+        const index = inputList.findIndex(
+          (item) => item.type === 'function_call' && item.call_id === toolCall.call_id
+        )
+        inputList[index] = { ...toolCall, arguments: executedArguments }
+      }
+
+      inputList.push(output)
+    }
+    startedCalls.clear()
+
+    /**
+     * Step 5: Send results back to the model
+     * The model may respond with more tool calls or a final text response.
+     * See: https://platform.openai.com/docs/guides/function-calling#incorporating-results-into-response
+     */
+    const followupDone = trace(`round-${roundNumber}-followup`, `Sending round ${roundNumber} results to model`, {
+      inputItemCount: inputList.length - newItemsStart,
+      previous_response_id: chainedResponseId,
+    })
+
+    response = await createResponse(followUpInstructions, followUpParameters)
+
+    followupDone(`Round ${roundNumber} response received`, response.output)
+  }
+
+  return {
+    response,
+    input: inputList,
+    newItems: [...inputList.slice(input.length), ...(response.output as OpenAI.Responses.ResponseInputItem[])],
+    executions,
+    rounds: roundNumber,
+  }
+}
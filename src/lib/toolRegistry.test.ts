@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createToolRegistry, defineTool } from '@/lib/toolRegistry'
+import type { ToolRunner } from '@/lib/toolRegistry'
+
+const addTool = defineTool({
+  name: 'add',
+  description: 'Add two numbers',
+  parameters: {
+    type: 'object',
+    properties: { a: { type: 'number' }, b: { type: 'number' } },
+    required: ['a'],
+    additionalProperties: false,
+  },
+  handler: ({ a, b }) => ({ sum: a + (b ?? 0) }),
+})
+
+const failingTool = defineTool({
+  name: 'fail',
+  description: 'Always throws',
+  parameters: { type: 'object', properties: {} },
+  handler: () => {
+    throw new Error('upstream timed out')
+  },
+})
+
+describe('createToolRegistry', () => {
+  it('builds function tools for the request', () => {
+    const registry = createToolRegistry([addTool])
+    expect(registry.tools).toEqual([
+      { type: 'function', name: 'add', description: 'Add two numbers', parameters: addTool.parameters, strict: false },
+    ])
+    expect(registry.location).toBe('browser')
+  })
+
+  it('sends strict schemas in strict mode', () => {
+    const [tool] = createToolRegistry([addTool], { strict: true }).tools
+    expect(tool.strict).toBe(true)
+    expect(tool.parameters).toMatchObject({ required: ['a', 'b'], properties: { b: { type: ['number', 'null'] } } })
+  })
+})
+
+describe('registry.execute', () => {
+  const registry = createToolRegistry([addTool, failingTool])
+
+  it('runs the handler with parsed arguments', async () => {
+    expect(await registry.execute('add', '{"a":2,"b":3}')).toEqual({
+      status: 'completed',
+      arguments: { a: 2, b: 3 },
+      result: { sum: 5 },
+      ranOn: 'browser',
+    })
+  })
+
+  it('answers unknown tools with the available names', async () => {
+    expect(await registry.execute('subtract', '{}')).toEqual({
+      status: 'error',
+      error: 'unknown tool',
+      arguments: '{}',
+      result: { error: 'Unknown tool "subtract"', available_tools: ['add', 'fail'] },
+    })
+  })
+
+  it('reports malformed JSON without running the handler', async () => {
+    const outcome = await registry.execute('add', '{"a":')
+    expect(outcome).toMatchObject({ status: 'error', error: 'malformed JSON', arguments: '{"a":' })
+    expect(outcome.ranOn).toBeUndefined()
+  })
+
+  it('reports schema violations for the model to fix', async () => {
+    expect(await registry.execute('add', '{"b":"3","c":1}')).toEqual({
+      status: 'error',
+      error: 'invalid arguments',
+      arguments: { b: '3', c: 1 },
+      result: {
+        error: 'Arguments for "add" do not match the tool schema. Fix them and call the tool again.',
+        validation_errors: ['$.a: is required', '$.b: expected number, got string', '$.c: is not an allowed property'],
+      },
+    })
+  })
+
+  it('turns a throwing handler into an error output', async () => {
+    expect(await registry.execute('fail', '{}')).toEqual({
+      status: 'error',
+      error: 'handler failed',
+      arguments: {},
+      result: { error: 'fail failed: upstream timed out' },
+      ranOn: 'browser',
+    })
+  })
+
+  it('runs a tool whose schema has a pattern JavaScript cannot compile', async () => {
+    // e.g. a schema copied from an MCP server written in Python
+    const cityTool = defineTool({
+      name: 'city',
+      description: 'Echo a city',
+      parameters: { type: 'object', properties: { name: { type: 'string', pattern: '(?i)^[a-z ]+$' } }, required: ['name'] },
+      handler: ({ name }) => ({ name }),
+    })
+    expect(await createToolRegistry([cityTool]).execute('city', '{"name":"Paris"}')).toMatchObject({
+      status: 'completed',
+      result: { name: 'Paris' },
+    })
+  })
+
+  it('rethrows when the call was aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await expect(registry.execute('fail', '{}', { signal: controller.signal })).rejects.toThrow()
+  })
+
+  it('maps strict-mode nulls back to omitted properties', async () => {
+    const strictRegistry = createToolRegistry([addTool], { strict: true })
+    expect(await strictRegistry.execute('add', '{"a":2,"b":null}')).toMatchObject({ status: 'completed', arguments: { a: 2 }, result: { sum: 2 } })
+  })
+
+  it('hands validated calls to the runner and records where they ran', async () => {
+    const run = vi.fn<ToolRunner['run']>().mockResolvedValue({ status: 'completed', result: 'remote' })
+    const remote = createToolRegistry([addTool], { runner: { location: 'server', run } })
+    expect(await remote.execute('add', '{"a":1}')).toEqual({ status: 'completed', arguments: { a: 1 }, result: 'remote', ranOn: 'server' })
+    expect(run).toHaveBeenCalledWith(addTool, { a: 1 }, {})
+    expect(remote.location).toBe('server')
+  })
+})
@@ -0,0 +1,257 @@
+/**
+ * Typed function tool registry
+ *
+ * Docs: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ *
+ * `defineTool` pairs a function tool's JSON Schema with the local handler
+ * that executes it. The handler's argument type is inferred from the schema,
+ * so `required` properties are non-optional and `type: 'number'` becomes
+ * `number` without any hand-written interfaces or `as const` casts.
+ *
+ * `createToolRegistry` collects defined tools, produces the `tools` array for
+ * the Responses API request, and dispatches `function_call` items by name.
+ * Arguments are parsed and validated against the tool's schema before the
+ * handler runs; failures become structured errors the model can correct.
+ *
+ * In strict mode the registry rewrites every tool schema with `toStrictSchema`
+ * and maps the resulting `null` placeholders back to omitted properties, so
+ * the same handlers work unchanged with `strict: true` and `strict: false`.
+ *
+ * Validated calls are handed to a `ToolRunner`. The default one runs the
+ * handler in place; `serverToolRunner` (see `toolServer.ts`) sends the call to
+ * the dev server instead, and each outcome records where the call ran.
+ */
+
+import type OpenAI from 'openai'
+import { fromStrictArguments, toStrictSchema, validateJsonSchema } from '@/lib/jsonSchema'
+import type { JsonSchema } from '@/lib/jsonSchema'
+
+/** Function tool parameters are always an object schema. */
+export interface ObjectSchema extends JsonSchema {
+  type: 'object'
+  properties: Readonly<Record<string, JsonSchema>>
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type RequiredKeys<S> = S extends { required: readonly (infer R)[] } ? R : never
+
+type FromObjectSchema<S> = S extends { properties: infer P }
+  ? Simplify<
+      { [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } & {
+        [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]>
+      }
+    >
+  : Record<string, unknown>
+
+type FromTypeName<T, S> = T extends 'string'
+  ? string
+  : T extends 'number' | 'integer'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends 'null'
+        ? null
+        : T extends 'array'
+          ? S extends { items: infer I }
+            ? FromSchema<I>[]
+            : unknown[]
+          : T extends 'object'
+            ? FromObjectSchema<S>
+            : unknown
+
+/** Derive the TypeScript type described by a JSON Schema literal. */
+export type FromSchema<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: readonly (infer T)[] }
+    ? FromTypeName<T, S>
+    : S extends { type: infer T }
+      ? FromTypeName<T, S>
+      : unknown
+
+/** Per-call context passed to every handler. */
+export interface ToolContext {
+  /** Aborted when the user stops the request; pass it on to `fetch` and similar APIs. */
+  signal?: AbortSignal
+}
+
+export interface ToolDefinitionInput<P extends ObjectSchema> {
+  name: string
+  description: string
+  parameters: P
+  handler: (args: FromSchema<P>, context: ToolContext) => unknown | Promise<unknown>
+}
+
+/** A defined tool with its handler type erased so tools can share one registry. */
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: ObjectSchema
+  handler: (args: Record<string, unknown>, context: ToolContext) => unknown | Promise<unknown>
+}
+
+/**
+ * Define a function tool and its handler.
+ * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ */
+export function defineTool<const P extends ObjectSchema>({
+  name,
+  description,
+  parameters,
+  handler,
+}: ToolDefinitionInput<P>): ToolDefinition {
+  return { name, description, parameters, handler: handler as ToolDefinition['handler'] }
+}
+
+/**
+ * Build the Responses API function tool for a definition.
+ * See: https://platform.openai.com/docs/guides/function-calling#strict-mode
+ */
+function toFunctionTool({ name, description, parameters }: ToolDefinition, strict: boolean): OpenAI.Responses.FunctionTool {
+  return {
+    type: 'function',
+    name,
+    description,
+    parameters: (strict ? toStrictSchema(parameters) : parameters) as Record<string, unknown>,
+    strict,
+  }
+}
+
+/** Where a tool handler runs. */
+export type ToolLocation = 'browser' | 'server'
+
+/** Outcome of dispatching one function call through the registry. */
+export interface ToolCallOutcome {
+  status: 'completed' | 'error'
+  /** Short reason for an `error` status, e.g. "invalid arguments". */
+  error?: string
+  /** Parsed arguments, or the raw string when it was not valid JSON. */
+  arguments: unknown
+  /** Sent back to the model (JSON-stringified) as the `function_call_output`. */
+  result: unknown
+  /** Where the handler ran; unset when the call was refused before running. */
+  ranOn?: ToolLocation
+}
+
+/** "in the browser" / "on the server", for trace labels. */
+export function describeToolLocation(location: ToolLocation) {
+  return location === 'server' ? 'on the server' : 'in the browser'
+}
+
+/** Runs a call whose arguments have already been parsed and validated. */
+export interface ToolRunner {
+  location: ToolLocation
+  run(
+    definition: ToolDefinition,
+    args: Record<string, unknown>,
+    context: ToolContext
+  ): Promise<Pick<ToolCallOutcome, 'status' | 'error' | 'result'>>
+}
+
+/** Calls the handler in place — in the browser for the lesson pages. */
+export const localToolRunner: ToolRunner = {
+  location: 'browser',
+  async run(definition, args, context) {
+    return { status: 'completed', result: await definition.handler(args, context) }
+  },
+}
+
+export interface ToolRegistryOptions {
+  /** Send strict-mode schemas (`strict: true`). Lessons default to `false`. */
+  strict?: boolean
+  /** Where validated calls run (default: `localToolRunner`). */
+  runner?: ToolRunner
+}
+
+export interface ToolRegistry {
+  /** Function tool definitions for the Responses API `tools` parameter. */
+  tools: OpenAI.Responses.FunctionTool[]
+  strict: boolean
+  /** Where this registry runs handlers (its runner's location). */
+  location: ToolLocation
+  get(name: string): ToolDefinition | undefined
+  /**
+   * Parse, validate and execute a function call's JSON `arguments` string.
+   * Unknown names, malformed JSON and schema violations produce a structured
+   * error result instead of running the handler; a handler that throws produces
+   * one too (`error: 'handler failed'`), unless the call was aborted.
+   */
+  execute(name: string, rawArguments: string, context?: ToolContext): Promise<ToolCallOutcome>
+}
+
+/**
+ * Collect defined tools into a registry that dispatches calls by name.
+ * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
+ */
+export function createToolRegistry(
+  definitions: ToolDefinition[],
+  { strict = false, runner = localToolRunner }: ToolRegistryOptions = {}
+): ToolRegistry {
+  const byName = new Map(definitions.map((definition) => [definition.name, definition]))
+
+  return {
+    tools: definitions.map((definition) => toFunctionTool(definition, strict)),
+    strict,
+    location: runner.location,
+    get: (name) => byName.get(name),
+    async execute(name, rawArguments, context = {}) {
+      const definition = byName.get(name)
+      if (!definition) {
+        return {
+          status: 'error',
+          error: 'unknown tool',
+          arguments: rawArguments,
+          result: {
+            error: `Unknown tool "${name}"`,
+            available_tools: [...byName.keys()],
+          },
+        }
+      }
+
+      let args: unknown
+      try {
+        args = JSON.parse(rawArguments)
+        if (strict) {
+          args = fromStrictArguments(definition.parameters, args)
+        }
+      } catch (err) {
+        return {
+          status: 'error',
+          error: 'malformed JSON',
+          arguments: rawArguments,
+          result: {
+            error: `Arguments for "${name}" are not valid JSON: ${err instanceof Error ? err.message : 'parse error'}`,
+          },
+        }
+      }
+
+      const validationErrors = validateJsonSchema(definition.parameters, args)
+      if (validationErrors.length > 0) {
+        return {
+          status: 'error',
+          error: 'invalid arguments',
+          arguments: args,
+          result: {
+            error: `Arguments for "${name}" do not match the tool schema. Fix them and call the tool again.`,
+            validation_errors: validationErrors,
+          },
+        }
+      }
+
+      try {
+        const outcome = await runner.run(definition, args as Record<string, unknown>, context)
+        return { ...outcome, arguments: args, ranOn: runner.location }
+      } catch (err) {
+        // A cancelled call is not a failure to report to the model; let the loop stop
+        context.signal?.throwIfAborted()
+        return {
+          status: 'error',
+          error: 'handler failed',
+          arguments: args,
+          result: { error: `${name} failed: ${err instanceof Error ? err.message : String(err)}` },
+          ranOn: runner.location,
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Run function tools on the dev server instead of in the browser
+ *
+ * `serverToolRunner` sends each validated call to the dev server's tool
+ * endpoint (see `server/tools/vitePlugin.ts`), which validates the arguments
+ * again against the tool's built-in schema and runs the same handler from
+ * `src/tools` in Node. A schema edited in the instructions editor only applies
+ * in the browser: the server refuses calls that don't also match the built-in
+ * schema. The Nominatim and Open-Meteo requests then leave from the server,
+ * without CORS. The server sends no `Referer`, so set `VITE_NOMINATIM_EMAIL`
+ * to identify the app to Nominatim (see `geocodeLocation`).
+ *
+ * Pass it as the registry's `runner` (see `createToolRegistry`); only the tools
+ * in `serverToolRegistry` (`src/tools/index.ts`) can run there.
+ */
+
+import type { ToolCallOutcome, ToolRunner } from '@/lib/toolRegistry'
+
+/** Dev-server endpoint; `POST /__tools/<name>` with `{ arguments }` as the body. */
+const TOOLS_ENDPOINT = '/__tools'
+
+type RunOutcome = Pick<ToolCallOutcome, 'status' | 'error' | 'result'>
+
+function isRunOutcome(value: unknown): value is RunOutcome {
+  return typeof value === 'object' && value !== null && 'status' in value && 'result' in value
+}
+
+function unavailable(message: string): RunOutcome {
+  return {
+    status: 'error',
+    error: 'tool server unavailable',
+    result: { error: `${message} Run the app with \`npm run dev\`, or run tools in the browser.` },
+  }
+}
+
+export const serverToolRunner: ToolRunner = {
+  location: 'server',
+  async run({ name }, args, { signal }) {
+    let res: Response
+    try {
+      res = await fetch(`${TOOLS_ENDPOINT}/${encodeURIComponent(name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ arguments: args }),
+        signal,
+      })
+    } catch (err) {
+      signal?.throwIfAborted()
+      return unavailable(`The tool server could not be reached: ${err instanceof Error ? err.message : 'network error'}.`)
+    }
+
+    // Refused and failed calls come back with an error status but the same outcome body
+    const body: unknown = await res.json().catch(() => undefined)
+    if (!isRunOutcome(body)) return unavailable(`The tool server did not answer (HTTP ${res.status}).`)
+    return { status: body.status, error: body.error, result: body.result }
+  },
+}
@@ -1,28 +1,53 @@
 import { StrictMode } from 'react'
+import type { ComponentType } from 'react'
 import { createRoot } from 'react-dom/client'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
 import BaselineResponses from './pages/baseline/responses.tsx'
+import BaselineCompletions from './pages/baseline/completions.tsx'
 import Lesson01Responses from './pages/lesson-01/responses.tsx'
+import Lesson01Completions from './pages/lesson-01/completions.tsx'
 import Lesson02Responses from './pages/lesson-02/responses.tsx'
+import Lesson02Completions from './pages/lesson-02/completions.tsx'
 import Lesson03Responses from './pages/lesson-03/responses.tsx'
+import Lesson03Completions from './pages/lesson-03/completions.tsx'
 import Lesson04Responses from './pages/lesson-04/responses.tsx'
+import Lesson04Completions from './pages/lesson-04/completions.tsx'
 import Lesson05Responses from './pages/lesson-05/responses.tsx'
+import Lesson05Completions from './pages/lesson-05/completions.tsx'
 import Lesson06Responses from './pages/lesson-06/responses.tsx'
+import Lesson08Responses from './pages/lesson-08/responses.tsx'
+import { LESSON_ROUTES } from '@/lib/lessonRoutes'
+import type { LessonRoute } from '@/lib/lessonRoutes'
+
+/** The page for each lesson route; `LESSON_ROUTES` is the list imports are checked against. */
+const lessonPages: Record<LessonRoute, ComponentType> = {
+  '/baseline/responses': BaselineResponses,
+  '/baseline/completions': BaselineCompletions,
+  '/lesson-01/responses': Lesson01Responses,
+  '/lesson-01/completions': Lesson01Completions,
+  '/lesson-02/responses': Lesson02Responses,
+  '/lesson-02/completions': Lesson02Completions,
+  '/lesson-03/responses': Lesson03Responses,
+  '/lesson-03/completions': Lesson03Completions,
+  '/lesson-04/responses': Lesson04Responses,
+  '/lesson-04/completions': Lesson04Completions,
+  '/lesson-05/responses': Lesson05Responses,
+  '/lesson-05/completions': Lesson05Completions,
+  '/lesson-06/responses': Lesson06Responses,
+  '/lesson-08/responses': Lesson08Responses,
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
       <Routes>
         <Route path="/" element={<App />} />
-        <Route path="/baseline/responses" element={<BaselineResponses />} />
-        <Route path="/lesson-01/responses" element={<Lesson01Responses />} />
-        <Route path="/lesson-02/responses" element={<Lesson02Responses />} />
-        <Route path="/lesson-03/responses" element={<Lesson03Responses />} />
-        <Route path="/lesson-04/responses" element={<Lesson04Responses />} />
-        <Route path="/lesson-05/responses" element={<Lesson05Responses />} />
-        <Route path="/lesson-06/responses" element={<Lesson06Responses />} />
+        {LESSON_ROUTES.map((route) => {
+          const Page = lessonPages[route]
+          return <Route key={route} path={route} element={<Page />} />
+        })}
       </Routes>
     </BrowserRouter>
   </StrictMode>,
@@ -0,0 +1,140 @@
+/**
+ * Baseline: Basic Chat with History (Chat Completions API)
+ *
+ * Focus: Simple chat interface using OpenAI Chat Completions API
+ * Docs: https://platform.openai.com/docs/guides/text?api-mode=chat
+ * API Reference: https://platform.openai.com/docs/api-reference/chat/create
+ *
+ * This baseline lesson demonstrates:
+ * - Basic message history management
+ * - Simple request/response flow
+ * - No function calling yet - just plain chat
+ *
+ * Compare with `responses.tsx`: the conversation is sent as `messages`
+ * instead of `input`, and the reply is read from `choices[0].message.content`
+ * instead of `output_text`.
+ */
+
+import { useState } from 'react'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { ApiKeyConfig } from '@/components/ApiKeyConfig'
+import { ChatArea } from '@/components/ChatArea'
+import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
+import { InspectorPanels } from '@/components/InspectorPanels'
+import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import type { Message } from '@/types/chat'
+
+export default function BaselineCompletions() {
+  const [isLoading, setIsLoading] = useState(false)
+  const { traceSteps, trace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+
+  async function handleSend(input: string) {
+    if (!apiKey) return
+
+    setIsLoading(true)
+    const signal = startRequest()
+
+    try {
+      clearTrace()
+
+      // Add user message to chat
+      const userMessage: Message = { role: 'user', content: input }
+      const newMessages = [...messages, userMessage]
+      setMessages(newMessages)
+
+      // Initialize OpenAI client with API key
+      const client = createOpenAIClient(apiKey)
+
+      const done = trace('request', 'Sending request to model', { model: 'gpt-5', messageCount: newMessages.length })
+
+      // Call OpenAI Chat Completions API
+      // See: https://platform.openai.com/docs/api-reference/chat/create
+      const completion = await client.chat.completions.create({
+        model: 'gpt-5',
+        messages: newMessages.map((msg) => ({
+          role: msg.role as 'user' | 'assistant',
+          content: msg.content,
+        })),
+      }, { signal })
+
+      done('Response received', completion.choices)
+
+      // Extract assistant response and store full completion object
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: completion.choices[0].message.content || 'No response',
+        responseOutput: completion.choices,
+        rawResponse: completion, // Store full completion for inspection panel
+      }
+
+      setMessages([...newMessages, assistantMessage])
+    } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
+      console.error('Error:', error)
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: 'assistant',
+          content: `Error: ${requestErrorMessage(error)}`,
+        },
+      ])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function handleStop() {
+    cancelRequest()
+  }
+
+  function handleClear() {
+    newConversation()
+  }
+
+  if (!apiKey) {
+    return (
+      <div className="container mx-auto max-w-2xl py-8 px-4">
+        <h1 className="text-2xl font-bold mb-4">Basic Chat (Chat Completions API)</h1>
+        <ApiKeyConfig onKeyValidated={setApiKey} />
+      </div>
+    )
+  }
+
+  // Get the latest assistant message with response data
+  const latestAssistantMessage = messages
+    .slice()
+    .reverse()
+    .find((msg) => msg.role === 'assistant' && msg.rawResponse)
+
+  return (
+    <PageLayout
+      title="Chat"
+      subtitle="Function calling playground (Chat Completions API)"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      chatContent={
+        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} onStop={handleStop} readOnly={readOnly} />
+      }
+      inspectorContent={
+        <InspectorPanels
+          latestAssistantMessage={latestAssistantMessage}
+          isLoading={isLoading}
+          traceSteps={traceSteps}
+        />
+      }
+      onClear={handleClear}
+    />
+  )
+}
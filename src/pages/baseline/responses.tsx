@@ -8,29 +8,43 @@
  * - Basic message history management
  * - Simple request/response flow
  * - No function calling yet - just plain chat
+ * - Optional conversation state via `previous_response_id` ("Chain turns"):
+ *   the server keeps the history, so each turn sends only the new message
+ *   See: https://platform.openai.com/docs/guides/conversation-state
  */
 
 import { useState } from 'react'
-import OpenAI from 'openai'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { toRequestParams } from '@/lib/requestSettings'
 import { ApiKeyConfig } from '@/components/ApiKeyConfig'
 import { ChatArea } from '@/components/ChatArea'
 import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
 import { InspectorPanels } from '@/components/InspectorPanels'
+import { RequestSettingsForm } from '@/components/RequestSettingsForm'
+import { ToggleButton } from '@/components/ToggleButton'
 import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { useRequestSettings } from '@/hooks/useRequestSettings'
 import type { Message } from '@/types/chat'
 
 export default function BaselineResponses() {
-  const [messages, setMessages] = useState<Message[]>([])
   const [isLoading, setIsLoading] = useState(false)
-  const { traceSteps, trace, clearTrace } = useTrace()
-  const [apiKey, setApiKey] = useState<string | null>(
-    import.meta.env.VITE_OPENAI_API_KEY || localStorage.getItem('openai_api_key') || null
-  )
+  const { traceSteps, trace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [chainMode, setChainMode] = useState(false)
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+  const { settings, updateSettings, resetSettings } = useRequestSettings()
 
   async function handleSend(input: string) {
     if (!apiKey) return
 
     setIsLoading(true)
+    const signal = startRequest()
 
     try {
       clearTrace()
@@ -41,22 +55,31 @@ export default function BaselineResponses() {
       setMessages(newMessages)
 
       // Initialize OpenAI client with API key
-      const client = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true, // Note: In production, use a backend proxy
-      })
+      const client = createOpenAIClient(apiKey)
+
+      // A chained turn continues this conversation's latest stored response, so only the new message is sent
+      const previousResponseId: string | undefined = chainMode
+        ? messages.slice().reverse().find((msg) => msg.role === 'assistant' && msg.rawResponse)?.rawResponse.id
+        : undefined
 
-      const done = trace('request', 'Sending request to model', { model: 'gpt-5', messageCount: newMessages.length })
+      // Model and request parameters from the settings popover, echoed in the trace
+      const params = toRequestParams(settings)
+
+      const done = trace('request', 'Sending request to model', { ...params, messageCount: newMessages.length, previous_response_id: previousResponseId })
 
       // Call OpenAI Responses API
       // See: https://platform.openai.com/docs/api-reference/responses/create
       const response = await client.responses.create({
-        model: 'gpt-5',
-        input: newMessages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
-      })
+        ...params,
+        ...(chainMode && { store: true }),
+        previous_response_id: previousResponseId,
+        input: previousResponseId
+          ? [{ role: 'user', content: userMessage.content }]
+          : newMessages.map((msg) => ({
+              role: msg.role as 'user' | 'assistant',
+              content: msg.content,
+            })),
+      }, { signal })
 
       done('Response received', response.output)
 
@@ -70,12 +93,18 @@ export default function BaselineResponses() {
 
       setMessages([...newMessages, assistantMessage])
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
       console.error('Error:', error)
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          content: `Error: ${requestErrorMessage(error)}`,
         },
       ])
     } finally {
@@ -83,9 +112,12 @@ export default function BaselineResponses() {
     }
   }
 
+  function handleStop() {
+    cancelRequest()
+  }
+
   function handleClear() {
-    setMessages([])
-    clearTrace()
+    newConversation()
   }
 
   if (!apiKey) {
@@ -107,8 +139,10 @@ export default function BaselineResponses() {
     <PageLayout
       title="Chat"
       subtitle="Function calling playground"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      settingsContent={<RequestSettingsForm settings={settings} onChange={updateSettings} onReset={resetSettings} />}
       chatContent={
-        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} />
+        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} onStop={handleStop} readOnly={readOnly} />
       }
       inspectorContent={
         <InspectorPanels
@@ -117,6 +151,15 @@ export default function BaselineResponses() {
           traceSteps={traceSteps}
         />
       }
+      headerActions={
+        <ToggleButton
+          label="Chain turns"
+          pressed={chainMode}
+          onPressedChange={setChainMode}
+          disabled={isLoading}
+          title="Store responses and send only the new message, continuing from the last response with previous_response_id"
+        />
+      }
       onClear={handleClear}
     />
   )
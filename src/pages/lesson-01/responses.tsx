@@ -10,6 +10,18 @@
  * - Handling function calls from model responses
  * - Executing functions and returning results
  * - Multi-step conversation flow with tool calling
+ * - Optional human-in-the-loop approval before each function call runs
+ * - Optional server-side execution: with "Run tools on server" on, each
+ *   validated call runs on the dev server's tool endpoint instead of the browser
+ * - Optional streaming: function call arguments form live in the trace and
+ *   each call runs as soon as its `response.function_call_arguments.done` arrives
+ * - Optional conversation state via `previous_response_id`: with "Chain turns"
+ *   on, responses are stored and each turn sends only the new message, so earlier
+ *   tool calls and outputs stay in the model's context
+ * - Editable instructions and tool JSON in the instructions editor: edits are
+ *   linted, saved per page and diffed against the defaults, and the last user
+ *   message can be re-run with them
+ * - Strict mode (structured outputs) vs. non-strict tool schemas
  * 
  * Function: calculate_tip
  * - Takes bill_amount (required) and tip_percentage (optional, default 20%)
@@ -17,238 +29,159 @@
  */
 
 import { useState } from 'react'
-import OpenAI from 'openai'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
 import { ApiKeyConfig } from '@/components/ApiKeyConfig'
 import { ChatArea } from '@/components/ChatArea'
 import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
 import { InspectorPanels } from '@/components/InspectorPanels'
+import { ToggleButton } from '@/components/ToggleButton'
+import { RequestSettingsForm } from '@/components/RequestSettingsForm'
+import { PlaygroundEditor } from '@/components/PlaygroundEditor'
 import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { useRequestSettings } from '@/hooks/useRequestSettings'
+import { usePlaygroundConfig } from '@/hooks/usePlaygroundConfig'
+import { useFunctionCallApproval } from '@/hooks/useFunctionCallApproval'
+import { runToolLoop, toResponseInput } from '@/lib/toolLoop'
+import { toRequestParams } from '@/lib/requestSettings'
+import { applyToolEdits, functionToolNames, toPlaygroundTools } from '@/lib/playgroundConfig'
+import type { PlaygroundConfig } from '@/lib/playgroundConfig'
+import { createToolRegistry, localToolRunner } from '@/lib/toolRegistry'
+import { serverToolRunner } from '@/lib/toolServer'
+import { updateLastAssistant } from '@/lib/messages'
+import { calculateTipTool } from '@/tools/calculateTip'
 import type { Message } from '@/types/chat'
 
 /**
- * Define the tip calculator function tool
- * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
- * 
- * Following best practices:
- * - Clear, detailed function name and descriptions
- * - Explicit parameter descriptions with format details
- * - Required vs optional parameters specified
+ * Tools available on this page (defined in `src/tools`). `sendMessage` builds a
+ * registry from them that supplies the `tools` array and dispatches
+ * each `function_call` by name.
  */
-const tools = [
-  {
-    type: 'function' as const,
-    name: 'calculate_tip',
-    description: 'Calculate tip amount and total bill. Takes a bill amount and optional tip percentage (defaults to 20%).',
-    parameters: {
-      type: 'object' as const,
-      properties: {
-        bill_amount: {
-          type: 'number' as const,
-          description: 'The original bill amount in dollars (e.g., 50.00)',
-        },
-        tip_percentage: {
-          type: 'number' as const,
-          description: 'The tip percentage to apply (e.g., 20 for 20%). Defaults to 20 if not provided.',
-        },
-      },
-      required: ['bill_amount'],
-      additionalProperties: false,
-    },
-    strict: false,
-  },
-]
+const toolDefinitions = [calculateTipTool]
+const functionNames = toolDefinitions.map((definition) => definition.name)
 
 /**
- * Tip calculator function implementation
- * 
- * @param bill_amount - Original bill amount
- * @param tip_percentage - Tip percentage (defaults to 20%)
- * @returns Object with bill details including tip and total
+ * Instructions and tools this page sends unless they are changed in the
+ * instructions editor; the editor diffs its edits against these.
  */
-function calculateTip(bill_amount: number, tip_percentage: number = 20) {
-  const tipAmount = (bill_amount * tip_percentage) / 100
-  const totalAmount = bill_amount + tipAmount
-
-  return {
-    original_bill: bill_amount,
-    tip_percentage: tip_percentage,
-    tip_amount: parseFloat(tipAmount.toFixed(2)),
-    total_amount: parseFloat(totalAmount.toFixed(2)),
-  }
+const defaultConfig: PlaygroundConfig = {
+  instructions: 'You have access to the calculate_tip tool to compute tip amounts. Use this tool when the user asks for tip calculations. Always call the appropriate tool before providing your response.',
+  tools: toPlaygroundTools(toolDefinitions),
 }
 
+/** Edited function tools must keep one of this page's handlers. */
+const lintOptions = { functionNames }
+
 export default function BaselineResponses() {
-  const [messages, setMessages] = useState<Message[]>([])
   const [isLoading, setIsLoading] = useState(false)
-  const { traceSteps, trace, pushTrace, clearTrace } = useTrace()
-  const [apiKey, setApiKey] = useState<string | null>(
-    import.meta.env.VITE_OPENAI_API_KEY || localStorage.getItem('openai_api_key') || null
-  )
-
-  async function handleSend(input: string) {
+  const { traceSteps, pushTrace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [strictMode, setStrictMode] = useState(false)
+  const [serverTools, setServerTools] = useState(false)
+  const [approvalMode, setApprovalMode] = useState(false)
+  const [streamMode, setStreamMode] = useState(false)
+  const [chainMode, setChainMode] = useState(false)
+  const { requestApproval, decide, recordExecution, rejectPending, cancelCalls } = useFunctionCallApproval(setMessages)
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+  const { settings, updateSettings, resetSettings } = useRequestSettings()
+  const { config, saveConfig, resetConfig } = usePlaygroundConfig(defaultConfig, lintOptions)
+
+  /** Send `input` as the next turn after `previousMessages`, with `config`'s instructions and tools. */
+  async function sendMessage(input: string, previousMessages: Message[], { instructions, tools }: PlaygroundConfig) {
     if (!apiKey) return
 
     setIsLoading(true)
+    const signal = startRequest()
 
     try {
       // Reset trace for a fresh request
       clearTrace()
 
-      // Add user message to chat
-      const userMessage: Message = { role: 'user', content: input }
-      const newMessages = [...messages, userMessage]
+      // Add user message to chat, with the instructions and tools it is sent with (for exports)
+      const userMessage: Message = { role: 'user', content: input, request: { instructions, tools } }
+      const newMessages = [...previousMessages, userMessage]
       setMessages(newMessages)
 
-      // Initialize OpenAI client with API key
-      const client = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true, // Note: In production, use a backend proxy
-      })
+      // A chained turn continues this conversation's latest stored response
+      const lastResponseId: string | undefined = chainMode
+        ? previousMessages.slice().reverse().find((msg) => msg.role === 'assistant' && msg.rawResponse)?.rawResponse.id
+        : undefined
 
-      /**
-       * Step 1: Make initial request with tools defined
-       * See: https://platform.openai.com/docs/guides/function-calling#the-tool-calling-flow
-       * 
-       * The model will examine the prompt and available tools, and may respond with:
-       * - A text response (if no tool is needed)
-       * - One or more function calls (if tools are needed)
-       */
-      pushTrace({
-        id: 'initial-request',
-        label: 'Sending request to model',
-        status: 'in-progress',
-        timestamp: Date.now(),
-        data: { model: 'gpt-5', messageCount: newMessages.length },
+      let hasStreamedMessage = false
+
+      // Initialize OpenAI client with API key
+      const client = createOpenAIClient(apiKey)
+
+      // Build the registry for this request from the (possibly edited) tools; strict mode rewrites the tool schemas
+      // See: https://platform.openai.com/docs/guides/function-calling#strict-mode
+      // With "Run tools on server" on, validated calls run on the dev server's tool endpoint
+      const registry = createToolRegistry(applyToolEdits(toolDefinitions, tools), {
+        strict: strictMode,
+        runner: serverTools ? serverToolRunner : localToolRunner,
       })
 
-      let response = await client.responses.create({
-        model: 'gpt-5',
-        instructions: 'You have access to the calculate_tip tool to compute tip amounts. Use this tool when the user asks for tip calculations. Always call the appropriate tool before providing your response.',
-        tools,
-        input: newMessages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
+      // Model and request parameters from the settings popover, echoed in the trace
+      const { model, ...parameters } = toRequestParams(settings, {
+        hasTools: registry.tools.length > 0,
+        functionNames: registry.tools.map((tool) => tool.name),
       })
 
       /**
-       * Step 2: Check for function calls in the response
-       * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
-       * 
-       * The response.output array may contain items with type 'function_call'
-       * Each function call has: call_id, name, and arguments (JSON string)
+       * Run the tool-calling loop
+       * See: https://platform.openai.com/docs/guides/function-calling#the-tool-calling-flow
+       *
+       * `runToolLoop` sends the request, executes any `function_call` items
+       * with the matching handler, appends `function_call_output` items and
+       * re-requests until the model responds with text.
        */
-      const functionCalls = response.output.filter((item) => item.type === 'function_call')
-
-      // Store function trace data for inspector panel
-      let functionTraceData: any = null
-
-      if (functionCalls.length === 0) {
-        // No function calls — model responded directly
-        pushTrace({
-          id: 'initial-request',
-          label: 'Model responded (no tool calls)',
-          status: 'completed',
-          timestamp: Date.now(),
-          data: response.output,
-        })
-      }
-
-      if (functionCalls.length > 0) {
-        // --- Trace: model detected function call(s) ---
-        pushTrace({
-          id: 'initial-request',
-          label: 'Model requested function call(s)',
-          status: 'completed',
-          timestamp: Date.now(),
-          data: functionCalls.map((fc: any) => ({
-            name: fc.name,
-            call_id: fc.call_id,
-            arguments: JSON.parse(fc.arguments),
-          })),
-        })
-
-        // Capture the initial response with function calls
-        const initialResponse = response
-        
-        // Build input list for second request - start with original messages
-        const inputList = [
-          ...newMessages.map((msg) => ({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content,
-          })),
-          ...response.output, // Include the model's output (with function calls)
-        ]
-        console.log(response)
-        // Track function executions for the trace
-        const functionExecutions: any[] = []
-
+      const { response, input: inputList, newItems, executions, rounds } = await runToolLoop({
+        client,
+        model,
+        parameters,
+        instructions,
+        registry,
         /**
-         * Step 3: Execute each function call and collect outputs
-         * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
+         * Conversation state: a chained turn continues the last stored response and
+         * sends only the new user message; otherwise the whole history is replayed.
+         * See: https://platform.openai.com/docs/guides/conversation-state
          */
-        for (const toolCall of functionCalls) {
-          if (toolCall.type === 'function_call') {
-            const functionName = toolCall.name
-            const functionArgs = JSON.parse(toolCall.arguments)
-            const execTraceId = `exec-${toolCall.call_id}`
-
-            const execDone = trace(execTraceId, `Executing ${functionName}()`, { function: functionName, arguments: functionArgs })
-
-            // Execute the function based on its name
-            let result
-            if (functionName === 'calculate_tip') {
-              console.log('Executing calculate_tip with args:', functionArgs)
-              result = calculateTip(functionArgs.bill_amount, functionArgs.tip_percentage)
-            }
-
-            // --- Trace: function completed ---
-            execDone(`${functionName}() returned`, { function: functionName, arguments: functionArgs, result })
-
-            // Store execution details for trace
-            functionExecutions.push({
-              call_id: toolCall.call_id,
-              function_name: functionName,
-              arguments: functionArgs,
-              result: result,
-            })
-
-            /**
-             * Step 4: Append function call output to input list
-             * See: https://platform.openai.com/docs/guides/function-calling#formatting-results
-             * 
-             * Format: function_call_output with call_id reference and output string
-             */
-            inputList.push({
-              type: 'function_call_output',
-              call_id: toolCall.call_id,
-              output: JSON.stringify(result),
-            } as any) // Type cast needed for SDK compatibility
+        chain: chainMode,
+        previousResponseId: lastResponseId,
+        // Replayed history includes earlier turns' tool calls and outputs (see `toResponseInput`)
+        input: lastResponseId
+          ? [{ role: 'user', content: userMessage.content }]
+          : toResponseInput(newMessages),
+        // See: https://platform.openai.com/docs/guides/function-calling#streaming
+        stream: streamMode,
+        onTextDelta: (delta) => {
+          // The assistant message is added on the first text delta, after any function call cards
+          if (!hasStreamedMessage) {
+            hasStreamedMessage = true
+            setMessages((prev) => [...prev, { role: 'assistant', content: delta }])
+            return
           }
-        }
-
-        // Build function trace for inspector
-        functionTraceData = {
-          step_1_initial_response: initialResponse.output,
-          step_2_function_executions: functionExecutions,
-          step_3_input_with_results: inputList,
-        }
-
-        /**
-         * Step 5: Make second request with function outputs
-         * The model will use the function results to generate a final text response
-         */
-        const secondDone = trace('second-request', 'Sending function results to model', { inputItemCount: inputList.length })
-
-        response = await client.responses.create({
-          model: 'gpt-5',
-          instructions: 'You have access to the calculate_tip tool to compute tip amounts. Use this tool when the user asks for tip calculations. Always call the appropriate tool before providing your response.',
-          tools,
-          input: inputList,
-        })
+          setMessages((prev) => updateLastAssistant(prev, (last) => ({ ...last, content: last.content + delta })))
+        },
+        onTrace: pushTrace,
+        // Human-in-the-loop: wait for Approve / Edit / Reject before each call runs
+        approve: approvalMode ? requestApproval : undefined,
+        onExecution: recordExecution,
+        signal,
+      })
 
-        secondDone('Final response received', response.output)
-      }
+      // Build function trace for inspector (if any tool calls were made)
+      const functionTraceData = executions.length > 0
+        ? {
+            total_rounds: rounds,
+            function_executions: executions,
+            final_input: inputList,
+          }
+        : null
 
       // Extract assistant response and store full response object
       const assistantMessage: Message = {
@@ -256,6 +189,7 @@ export default function BaselineResponses() {
         content: response.output_text || 'No response',
         responseOutput: response.output,
         rawResponse: response, // Store full response for inspection panel
+        inputItems: newItems, // Tool calls, tool outputs and the final output, replayed on later turns
         functionCall: functionTraceData ? {
           name: 'function_trace',
           arguments: JSON.stringify(functionTraceData),
@@ -264,14 +198,24 @@ export default function BaselineResponses() {
         } : undefined,
       }
 
-      setMessages([...newMessages, assistantMessage])
+      // Append to the latest state so function call cards added during the loop are kept;
+      // a streamed message is replaced by the final one
+      setMessages((prev) =>
+        hasStreamedMessage ? updateLastAssistant(prev, () => assistantMessage) : [...prev, assistantMessage]
+      )
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
       console.error('Error:', error)
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          content: `Error: ${requestErrorMessage(error)}`,
         },
       ])
     } finally {
@@ -279,9 +223,26 @@ export default function BaselineResponses() {
     }
   }
 
+  function handleSend(input: string) {
+    return sendMessage(input, messages, config)
+  }
+
+  /** Save `edited`, then answer the last user message again with it, replacing the old answer. */
+  function handleRerun(edited: PlaygroundConfig) {
+    saveConfig(edited)
+    const index = messages.map((msg) => msg.role).lastIndexOf('user')
+    if (index === -1) return
+    return sendMessage(messages[index].content, messages.slice(0, index), edited)
+  }
+
+  function handleStop() {
+    cancelRequest()
+    cancelCalls('The user stopped the request.')
+  }
+
   function handleClear() {
-    setMessages([])
-    clearTrace()
+    rejectPending('The user cleared the conversation.')
+    newConversation()
   }
 
   if (!apiKey) {
@@ -303,8 +264,36 @@ export default function BaselineResponses() {
     <PageLayout
       title="Tip Calculator"
       subtitle="Basic function calling example"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      settingsContent={
+        <RequestSettingsForm
+          settings={settings}
+          onChange={updateSettings}
+          onReset={resetSettings}
+          hasTools={config.tools.length > 0}
+          functionNames={functionToolNames(config.tools)}
+        />
+      }
+      editorContent={
+        <PlaygroundEditor
+          config={config}
+          defaults={defaultConfig}
+          lintOptions={lintOptions}
+          onSave={saveConfig}
+          onReset={resetConfig}
+          onRerun={handleRerun}
+          canRerun={!isLoading && !readOnly && messages.some((msg) => msg.role === 'user')}
+        />
+      }
       chatContent={
-        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} />
+        <ChatArea
+          messages={messages}
+          isLoading={isLoading}
+          onSend={handleSend}
+          onStop={handleStop}
+          readOnly={readOnly}
+          onFunctionCallDecision={decide}
+        />
       }
       inspectorContent={
         <InspectorPanels
@@ -313,6 +302,44 @@ export default function BaselineResponses() {
           traceSteps={traceSteps}
         />
       }
+      headerActions={
+        <>
+          <ToggleButton
+            label="Strict mode"
+            pressed={strictMode}
+            onPressedChange={setStrictMode}
+            title="Send strict-mode tool schemas (all properties required, optional ones nullable)"
+          />
+          <ToggleButton
+            label="Run tools on server"
+            pressed={serverTools}
+            onPressedChange={setServerTools}
+            disabled={isLoading}
+            title="Execute function calls on the dev server instead of in the browser; the trace shows where each call ran"
+          />
+          <ToggleButton
+            label="Approval"
+            pressed={approvalMode}
+            onPressedChange={setApprovalMode}
+            disabled={isLoading}
+            title="Ask for approval before executing each function call"
+          />
+          <ToggleButton
+            label="Streaming"
+            pressed={streamMode}
+            onPressedChange={setStreamMode}
+            disabled={isLoading}
+            title="Stream responses; arguments form live in the trace and calls run as soon as they are complete"
+          />
+          <ToggleButton
+            label="Chain turns"
+            pressed={chainMode}
+            onPressedChange={setChainMode}
+            disabled={isLoading}
+            title="Store responses and send only the new message, continuing from the last response with previous_response_id"
+          />
+        </>
+      }
       onClear={handleClear}
     />
   )
@@ -0,0 +1,311 @@
+/**
+ * Lesson 02: External API Integration - Nominatim Geocoding (Chat Completions API)
+ *
+ * Focus: Using function calling to call an external API
+ * Docs: https://platform.openai.com/docs/guides/function-calling?api-mode=chat
+ * API Reference: https://platform.openai.com/docs/api-reference/chat/create
+ *
+ * This lesson demonstrates:
+ * - Defining function tools with JSON schema
+ * - Calling an external API (Nominatim/OpenStreetMap) from a function tool
+ * - Handling async function execution in the tool-calling loop
+ * - Multi-step conversation flow with tool calling
+ * - Optional human-in-the-loop approval before each function call runs
+ * - Optional server-side execution: with "Run tools on server" on, each
+ *   validated call runs on the dev server's tool endpoint instead of the browser
+ * - Editable instructions and tool JSON in the instructions editor: edits are
+ *   linted, saved per page and diffed against the defaults, and the last user
+ *   message can be re-run with them
+ *
+ * Function: geocode_location
+ * - Takes a location string (city, address, or landmark)
+ * - Calls the Nominatim API to get latitude and longitude
+ * - Returns coordinates and display name
+ *
+ * Compare with `responses.tsx`: the same tools and flow, in Chat Completions
+ * terms — tools are wrapped as `{ type: 'function', function: {...} }`, calls
+ * arrive as `choices[0].message.tool_calls`, and each result is sent back as a
+ * `role: 'tool'` message linked by `tool_call_id`. The Streaming toggle
+ * streams each completion and accumulates the tool call argument deltas.
+ */
+
+import { useState } from 'react'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { ApiKeyConfig } from '@/components/ApiKeyConfig'
+import { ChatArea } from '@/components/ChatArea'
+import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
+import { InspectorPanels } from '@/components/InspectorPanels'
+import { ToggleButton } from '@/components/ToggleButton'
+import { PlaygroundEditor } from '@/components/PlaygroundEditor'
+import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { usePlaygroundConfig } from '@/hooks/usePlaygroundConfig'
+import { useFunctionCallApproval } from '@/hooks/useFunctionCallApproval'
+import { runCompletionsToolLoop } from '@/lib/completionsToolLoop'
+import { applyToolEdits, toPlaygroundTools } from '@/lib/playgroundConfig'
+import type { PlaygroundConfig } from '@/lib/playgroundConfig'
+import { createToolRegistry, localToolRunner } from '@/lib/toolRegistry'
+import { serverToolRunner } from '@/lib/toolServer'
+import { updateLastAssistant } from '@/lib/messages'
+import { geocodeLocationTool } from '@/tools/geocodeLocation'
+import type { Message } from '@/types/chat'
+
+/**
+ * Tools available on this page (defined in `src/tools`). `sendMessage` builds a
+ * registry from them that supplies the `tools` array and dispatches
+ * each tool call by name.
+ */
+const toolDefinitions = [geocodeLocationTool]
+
+/**
+ * Instructions and tools this page sends unless they are changed in the
+ * instructions editor; the editor diffs its edits against these.
+ */
+const defaultConfig: PlaygroundConfig = {
+  instructions:
+    'You have access to the geocode_location tool to look up coordinates. Use this tool when the user asks about the location, coordinates, or position of a place. Always call the tool before providing your response.',
+  tools: toPlaygroundTools(toolDefinitions),
+}
+
+/** Edited function tools must keep one of this page's handlers. */
+const lintOptions = { functionNames: toolDefinitions.map((definition) => definition.name) }
+
+export default function Lesson02Completions() {
+  const [isLoading, setIsLoading] = useState(false)
+  const { traceSteps, pushTrace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [strictMode, setStrictMode] = useState(false)
+  const [serverTools, setServerTools] = useState(false)
+  const [approvalMode, setApprovalMode] = useState(false)
+  const [streamMode, setStreamMode] = useState(false)
+  const { requestApproval, decide, recordExecution, rejectPending, cancelCalls } = useFunctionCallApproval(setMessages)
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+  const { config, saveConfig, resetConfig } = usePlaygroundConfig(defaultConfig, lintOptions)
+
+  /** Send `input` as the next turn after `previousMessages`, with `config`'s instructions and tools. */
+  async function sendMessage(input: string, previousMessages: Message[], { instructions, tools }: PlaygroundConfig) {
+    if (!apiKey) return
+
+    setIsLoading(true)
+    const signal = startRequest()
+
+    try {
+      // Reset trace for a fresh request
+      clearTrace()
+
+      // Add user message to chat, with the instructions and tools it is sent with (for exports)
+      const userMessage: Message = { role: 'user', content: input, request: { instructions, tools } }
+      const newMessages = [...previousMessages, userMessage]
+      setMessages(newMessages)
+
+      let hasStreamedMessage = false
+
+      // Initialize OpenAI client with API key
+      const client = createOpenAIClient(apiKey)
+
+      // Build the registry for this request from the (possibly edited) tools; strict mode rewrites the tool schemas
+      // See: https://platform.openai.com/docs/guides/function-calling#strict-mode
+      // With "Run tools on server" on, validated calls run on the dev server's tool endpoint
+      const registry = createToolRegistry(applyToolEdits(toolDefinitions, tools), {
+        strict: strictMode,
+        runner: serverTools ? serverToolRunner : localToolRunner,
+      })
+
+      /**
+       * Run the tool-calling loop
+       * See: https://platform.openai.com/docs/guides/function-calling?api-mode=chat#the-tool-calling-flow
+       *
+       * `runCompletionsToolLoop` sends the request, executes any `tool_calls`
+       * with the matching handler, appends `role: 'tool'` messages and
+       * re-requests until the model responds with text.
+       */
+      const { completion, messages: messageList, executions, rounds } = await runCompletionsToolLoop({
+        client,
+        model: 'gpt-5',
+        instructions,
+        registry,
+        // Function call cards (approval mode) are UI-only and not sent to the model
+        messages: newMessages
+          .filter((msg) => msg.role !== 'function')
+          .map((msg) => ({
+            role: msg.role as 'user' | 'assistant',
+            content: msg.content,
+          })),
+        // See: https://platform.openai.com/docs/guides/function-calling?api-mode=chat#streaming
+        stream: streamMode,
+        onTextDelta: (delta) => {
+          // The assistant message is added on the first text delta, after any function call cards
+          if (!hasStreamedMessage) {
+            hasStreamedMessage = true
+            setMessages((prev) => [...prev, { role: 'assistant', content: delta }])
+            return
+          }
+          setMessages((prev) => updateLastAssistant(prev, (last) => ({ ...last, content: last.content + delta })))
+        },
+        onTrace: pushTrace,
+        // Human-in-the-loop: wait for Approve / Edit / Reject before each call runs
+        approve: approvalMode ? requestApproval : undefined,
+        onExecution: recordExecution,
+        signal,
+      })
+
+      // Build function trace for inspector (if any tool calls were made)
+      const functionTraceData = executions.length > 0
+        ? {
+            total_rounds: rounds,
+            function_executions: executions,
+            final_messages: messageList,
+          }
+        : null
+
+      // Extract assistant response and store full completion object
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: completion.choices[0].message.content || 'No response',
+        responseOutput: completion.choices,
+        rawResponse: completion, // Store full completion for inspection panel
+        functionCall: functionTraceData
+          ? {
+              name: 'function_trace',
+              arguments: JSON.stringify(functionTraceData),
+              status: 'completed',
+              response: functionTraceData,
+            }
+          : undefined,
+      }
+
+      // Append to the latest state so function call cards added during the loop are kept;
+      // a streamed message is replaced by the final one
+      setMessages((prev) =>
+        hasStreamedMessage ? updateLastAssistant(prev, () => assistantMessage) : [...prev, assistantMessage]
+      )
+    } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
+      console.error('Error:', error)
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: 'assistant',
+          content: `Error: ${requestErrorMessage(error)}`,
+        },
+      ])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function handleSend(input: string) {
+    return sendMessage(input, messages, config)
+  }
+
+  /** Save `edited`, then answer the last user message again with it, replacing the old answer. */
+  function handleRerun(edited: PlaygroundConfig) {
+    saveConfig(edited)
+    const index = messages.map((msg) => msg.role).lastIndexOf('user')
+    if (index === -1) return
+    return sendMessage(messages[index].content, messages.slice(0, index), edited)
+  }
+
+  function handleStop() {
+    cancelRequest()
+    cancelCalls('The user stopped the request.')
+  }
+
+  function handleClear() {
+    rejectPending('The user cleared the conversation.')
+    newConversation()
+  }
+
+  if (!apiKey) {
+    return (
+      <div className="container mx-auto max-w-2xl py-8 px-4">
+        <h1 className="text-2xl font-bold mb-4">Lesson 02: Geocoding (Chat Completions API)</h1>
+        <ApiKeyConfig onKeyValidated={setApiKey} />
+      </div>
+    )
+  }
+
+  // Get the latest assistant message with response data
+  const latestAssistantMessage = messages
+    .slice()
+    .reverse()
+    .find((msg) => msg.role === 'assistant' && msg.rawResponse)
+
+  return (
+    <PageLayout
+      title="Geocoding"
+      subtitle="External API function calling example (Chat Completions API)"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      editorContent={
+        <PlaygroundEditor
+          config={config}
+          defaults={defaultConfig}
+          lintOptions={lintOptions}
+          onSave={saveConfig}
+          onReset={resetConfig}
+          onRerun={handleRerun}
+          canRerun={!isLoading && !readOnly && messages.some((msg) => msg.role === 'user')}
+        />
+      }
+      chatContent={
+        <ChatArea
+          messages={messages}
+          isLoading={isLoading}
+          onSend={handleSend}
+          onStop={handleStop}
+          readOnly={readOnly}
+          onFunctionCallDecision={decide}
+        />
+      }
+      inspectorContent={
+        <InspectorPanels
+          latestAssistantMessage={latestAssistantMessage}
+          isLoading={isLoading}
+          traceSteps={traceSteps}
+        />
+      }
+      headerActions={
+        <>
+          <ToggleButton
+            label="Strict mode"
+            pressed={strictMode}
+            onPressedChange={setStrictMode}
+            title="Send strict-mode tool schemas (all properties required, optional ones nullable)"
+          />
+          <ToggleButton
+            label="Run tools on server"
+            pressed={serverTools}
+            onPressedChange={setServerTools}
+            disabled={isLoading}
+            title="Execute function calls on the dev server instead of in the browser; the trace shows where each call ran"
+          />
+          <ToggleButton
+            label="Approval"
+            pressed={approvalMode}
+            onPressedChange={setApprovalMode}
+            disabled={isLoading}
+            title="Ask for approval before executing each function call"
+          />
+          <ToggleButton
+            label="Streaming"
+            pressed={streamMode}
+            onPressedChange={setStreamMode}
+            disabled={isLoading}
+            title="Stream each completion, accumulating tool call argument deltas"
+          />
+        </>
+      }
+      onClear={handleClear}
+    />
+  )
+}
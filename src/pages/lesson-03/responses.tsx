@@ -10,6 +10,19 @@
  * - Handling multiple function calls in a single response
  * - Chaining tool results (geocode → weather)
  * - Calling external APIs (Nominatim + OpenWeatherMap)
+ * - Optional human-in-the-loop approval before each function call runs
+ * - Optional server-side execution: with "Run tools on server" on, each
+ *   validated call runs on the dev server's tool endpoint instead of the browser
+ * - Optional streaming: function call arguments form live in the trace and
+ *   each call runs as soon as its `response.function_call_arguments.done` arrives
+ * - Replaying earlier turns' `function_call` / `function_call_output` items
+ *   (`Message.inputItems`), so weather fetched before is still in context
+ * - Optional conversation state via `previous_response_id`: with "Chain turns"
+ *   on, responses are stored and each turn sends only the new message, so earlier
+ *   tool calls and outputs stay in the model's context
+ * - Editable instructions and tool JSON in the instructions editor: edits are
+ *   linted, saved per page and diffed against the defaults, and the last user
+ *   message can be re-run with them
  *
  * Functions:
  * - geocode_location: Look up lat/lon for a location string
@@ -17,348 +30,187 @@
  */
 
 import { useState } from 'react'
-import OpenAI from 'openai'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
 import { ApiKeyConfig } from '@/components/ApiKeyConfig'
 import { ChatArea } from '@/components/ChatArea'
 import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
 import { InspectorPanels } from '@/components/InspectorPanels'
+import { ToggleButton } from '@/components/ToggleButton'
+import { RequestSettingsForm } from '@/components/RequestSettingsForm'
+import { PlaygroundEditor } from '@/components/PlaygroundEditor'
 import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { useRequestSettings } from '@/hooks/useRequestSettings'
+import { usePlaygroundConfig } from '@/hooks/usePlaygroundConfig'
+import { useFunctionCallApproval } from '@/hooks/useFunctionCallApproval'
+import { runToolLoop, toResponseInput } from '@/lib/toolLoop'
+import { toRequestParams } from '@/lib/requestSettings'
+import { applyToolEdits, functionToolNames, toPlaygroundTools } from '@/lib/playgroundConfig'
+import type { PlaygroundConfig } from '@/lib/playgroundConfig'
+import { createToolRegistry, localToolRunner } from '@/lib/toolRegistry'
+import { serverToolRunner } from '@/lib/toolServer'
+import { updateLastAssistant } from '@/lib/messages'
+import { geocodeLocationTool } from '@/tools/geocodeLocation'
+import { getCurrentWeatherTool } from '@/tools/getCurrentWeather'
 import type { Message } from '@/types/chat'
 
 /**
- * Define the function tools available to the model
- * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ * Tools available on this page (defined in `src/tools`). `sendMessage` builds a
+ * registry from them that routes each function call to the appropriate handler.
+ * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
  *
- * Two tools are defined:
  * 1. geocode_location — resolve a place name to lat/lon
  * 2. get_current_weather — fetch weather for a given lat/lon
  *
  * The model can call both in sequence (geocode first, then weather)
  * or in parallel if it already has coordinates.
- */
-const tools = [
-  {
-    type: 'function' as const,
-    name: 'geocode_location',
-    description:
-      'Look up the latitude and longitude of a location. Accepts city names (e.g. "New York"), specific addresses (e.g. "1600 Amphitheatre Parkway, Mountain View, CA"), or landmarks (e.g. "Eiffel Tower").',
-    parameters: {
-      type: 'object' as const,
-      properties: {
-        location: {
-          type: 'string' as const,
-          description: 'The location to geocode — a city name, street address, or landmark name',
-        },
-      },
-      required: ['location'],
-      additionalProperties: false,
-    },
-    strict: false,
-  },
-  {
-    type: 'function' as const,
-    name: 'get_current_weather',
-    description:
-      'Get the current weather for a location given its latitude and longitude. Returns temperature, humidity, and weather description.',
-    parameters: {
-      type: 'object' as const,
-      properties: {
-        latitude: {
-          type: 'number' as const,
-          description: 'Latitude of the location',
-        },
-        longitude: {
-          type: 'number' as const,
-          description: 'Longitude of the location',
-        },
-      },
-      required: ['latitude', 'longitude'],
-      additionalProperties: false,
-    },
-    strict: false,
-  },
-]
-
-/**
- * Geocode a location using the Nominatim (OpenStreetMap) API
- * No API key required — just a User-Agent header.
- * See: https://nominatim.org/release-docs/develop/api/Search/
  *
- * @param location - City name, street address, or landmark
- * @returns Object with location, latitude, longitude, and display_name
+ * Calls to tool names the registry doesn't know about are answered with a
+ * structured `{ error, available_tools }` output instead of `undefined`.
  */
-async function geocodeLocation(location: string) {
-  const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(location)}&format=json&limit=1`
-
-  const res = await fetch(url, {
-    headers: { 'User-Agent': 'OpenAI-Function-Calling-Course/1.0' },
-  })
-
-  const data = await res.json()
-
-  if (!data || data.length === 0) {
-    return { error: `No results found for "${location}"` }
-  }
-
-  return {
-    location,
-    latitude: parseFloat(data[0].lat),
-    longitude: parseFloat(data[0].lon),
-    display_name: data[0].display_name,
-  }
-}
+const toolDefinitions = [geocodeLocationTool, getCurrentWeatherTool]
+const functionNames = toolDefinitions.map((definition) => definition.name)
 
 /**
- * Fetch current weather from Open-Meteo API (no API key required)
- * See: https://open-meteo.com/en/docs
- *
- * @param latitude - Latitude of the location
- * @param longitude - Longitude of the location
- * @returns Object with temperature, humidity, description, and other weather data
+ * Instructions and tools this page sends unless they are changed in the
+ * instructions editor; the editor diffs its edits against these.
  */
-async function getCurrentWeather(latitude: number, longitude: number) {
-  const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m`
-
-  try {
-    const res = await fetch(url)
-    const data = await res.json()
-
-    if (data.error) {
-      return { error: `Weather API error: ${data.reason || 'Unknown error'}` }
-    }
-
-    // Map WMO weather codes to human-readable descriptions
-    // See: https://open-meteo.com/en/docs#weathervariables
-    const weatherDescriptions: Record<number, string> = {
-      0: 'Clear sky', 1: 'Mainly clear', 2: 'Partly cloudy', 3: 'Overcast',
-      45: 'Foggy', 48: 'Depositing rime fog',
-      51: 'Light drizzle', 53: 'Moderate drizzle', 55: 'Dense drizzle',
-      61: 'Slight rain', 63: 'Moderate rain', 65: 'Heavy rain',
-      71: 'Slight snow', 73: 'Moderate snow', 75: 'Heavy snow',
-      80: 'Slight rain showers', 81: 'Moderate rain showers', 82: 'Violent rain showers',
-      95: 'Thunderstorm', 96: 'Thunderstorm with slight hail', 99: 'Thunderstorm with heavy hail',
-    }
-
-    const current = data.current
-    return {
-      latitude,
-      longitude,
-      temperature_celsius: current?.temperature_2m,
-      feels_like_celsius: current?.apparent_temperature,
-      humidity_percent: current?.relative_humidity_2m,
-      description: weatherDescriptions[current?.weather_code] ?? `Weather code ${current?.weather_code}`,
-      wind_speed_kmh: current?.wind_speed_10m,
-    }
-  } catch (err) {
-    return { error: `Failed to fetch weather: ${err instanceof Error ? err.message : 'Unknown error'}` }
-  }
+const defaultConfig: PlaygroundConfig = {
+  instructions: `You have access to geocode_location and get_current_weather tools. 
+          When the user asks about weather in a new location:
+          first use geocode_location to get coordinates, 
+          then use get_current_weather with those coordinates. 
+          When the user only asks about a location or coordinates, use geocode_location alone. 
+          If you already have weather data in your context for the location in question, use that directly without calling the tool again.
+          Always call the appropriate tool(s) before providing your response.`,
+  followUpInstructions:
+    'You have access to geocode_location and get_current_weather tools. ' +
+    'When the user asks about weather, first use geocode_location to get coordinates, ' +
+    'then use get_current_weather with those coordinates. ' +
+    'When the user only asks about a location or coordinates, use geocode_location alone. ' +
+    'Always call the appropriate tool(s) before providing your response.',
+  tools: toPlaygroundTools(toolDefinitions),
 }
 
+/** Edited function tools must keep one of this page's handlers. */
+const lintOptions = { functionNames }
+
 export default function Lesson03Responses() {
-  const [messages, setMessages] = useState<Message[]>([])
   const [isLoading, setIsLoading] = useState(false)
-  const { traceSteps, trace, pushTrace, clearTrace } = useTrace()
-  const [apiKey, setApiKey] = useState<string | null>(
-    import.meta.env.VITE_OPENAI_API_KEY || localStorage.getItem('openai_api_key') || null
-  )
-
-  async function handleSend(input: string) {
+  const { traceSteps, pushTrace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [strictMode, setStrictMode] = useState(false)
+  const [serverTools, setServerTools] = useState(false)
+  const [approvalMode, setApprovalMode] = useState(false)
+  const [streamMode, setStreamMode] = useState(false)
+  const [chainMode, setChainMode] = useState(false)
+  const { requestApproval, decide, recordExecution, rejectPending, cancelCalls } = useFunctionCallApproval(setMessages)
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+  const { settings, updateSettings, resetSettings } = useRequestSettings()
+  const { config, saveConfig, resetConfig } = usePlaygroundConfig(defaultConfig, lintOptions)
+
+  /** Send `input` as the next turn after `previousMessages`, with `config`'s instructions and tools. */
+  async function sendMessage(input: string, previousMessages: Message[], { instructions, followUpInstructions, tools }: PlaygroundConfig) {
     if (!apiKey) return
 
     setIsLoading(true)
+    const signal = startRequest()
 
     try {
       // Reset trace for a fresh request
       clearTrace()
 
-      // Add user message to chat
-      const userMessage: Message = { role: 'user', content: input }
-      const newMessages = [...messages, userMessage]
+      // Add user message to chat, with the instructions and tools it is sent with (for exports)
+      const userMessage: Message = { role: 'user', content: input, request: { instructions, followUpInstructions, tools } }
+      const newMessages = [...previousMessages, userMessage]
       setMessages(newMessages)
 
-      // Initialize OpenAI client with API key
-      const client = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true, // Note: In production, use a backend proxy
-      })
+      // A chained turn continues this conversation's latest stored response
+      const lastResponseId: string | undefined = chainMode
+        ? previousMessages.slice().reverse().find((msg) => msg.role === 'assistant' && msg.rawResponse)?.rawResponse.id
+        : undefined
 
-      /**
-       * Step 1: Make initial request with tools defined
-       * See: https://platform.openai.com/docs/guides/function-calling#the-tool-calling-flow
-       *
-       * The model examines the prompt and available tools, and may respond with:
-       * - A text response (if no tool is needed)
-       * - One or more function calls (if tools are needed)
-       */
-      // --- Trace: sending initial request ---
-      pushTrace({
-        id: 'initial-request',
-        label: 'Sending request to model',
-        status: 'in-progress',
-        timestamp: Date.now(),
-        data: { model: 'gpt-5', messageCount: newMessages.length },
+      let hasStreamedMessage = false
+
+      // Initialize OpenAI client with API key
+      const client = createOpenAIClient(apiKey)
+
+      // Build the registry for this request from the (possibly edited) tools; strict mode rewrites the tool schemas
+      // See: https://platform.openai.com/docs/guides/function-calling#strict-mode
+      // With "Run tools on server" on, validated calls run on the dev server's tool endpoint
+      const registry = createToolRegistry(applyToolEdits(toolDefinitions, tools), {
+        strict: strictMode,
+        runner: serverTools ? serverToolRunner : localToolRunner,
       })
 
-      let response = await client.responses.create({
-        model: 'gpt-5',
-        instructions:
-          `You have access to geocode_location and get_current_weather tools. 
-          When the user asks about weather in a new location:
-          first use geocode_location to get coordinates, 
-          then use get_current_weather with those coordinates. 
-          When the user only asks about a location or coordinates, use geocode_location alone. 
-          If you already have weather data in your context for the location in question, use that directly without calling the tool again.
-          Always call the appropriate tool(s) before providing your response.`,
-        tools,
-        input: newMessages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
+      // Model and request parameters from the settings popover, echoed in the trace
+      const { model, ...parameters } = toRequestParams(settings, {
+        hasTools: registry.tools.length > 0,
+        functionNames: registry.tools.map((tool) => tool.name),
       })
 
       /**
-       * Step 2: Tool-calling loop
-       * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
+       * Run the tool-calling loop
+       * See: https://platform.openai.com/docs/guides/function-calling#the-tool-calling-flow
+       *
+       * `runToolLoop` sends the request, executes any `function_call` items
+       * with the matching handler, appends `function_call_output` items and
+       * re-requests until the model responds with text.
        *
        * The model may need multiple rounds of tool calls. For example:
        *   Round 1: geocode_location("Paris") → returns lat/lon
        *   Round 2: get_current_weather(lat, lon) → returns weather data
        *   Round 3: model generates final text response
-       *
-       * We loop until the model stops returning function_call items.
        */
-
-      // Build a running input list we will add to over time
-      // See: https://platform.openai.com/docs/guides/function-calling (complete tool calling example)
-      const inputList: any[] = [
-        ...newMessages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
-      ]
-
-      // Store function trace data for inspector panel
-      let functionTraceData: any = null
-      const allFunctionExecutions: any[] = []
-      let roundNumber = 0
-
-      // Loop while the model keeps requesting function calls
-      while (true) {
-        const functionCalls = response.output.filter(
-          (item) => item.type === 'function_call'
-        )
-
-        if (functionCalls.length === 0) {
-          // No function calls — model responded directly with text
-          pushTrace({
-            id: `round-${roundNumber}-done`,
-            label: roundNumber === 0
-              ? 'Model responded (no tool calls)'
-              : 'Final response received',
-            status: 'completed',
-            timestamp: Date.now(),
-            data: response.output,
-          })
-          break
-        }
-
-        roundNumber++
-
-        // --- Trace: model detected function call(s) ---
-        pushTrace({
-          id: `round-${roundNumber}-calls`,
-          label: `Round ${roundNumber}: ${functionCalls.length} tool call(s)`,
-          status: 'completed',
-          timestamp: Date.now(),
-          data: functionCalls.map((fc: any) => ({
-            name: fc.name,
-            call_id: fc.call_id,
-            arguments: JSON.parse(fc.arguments),
-          })),
-        })
-
-        // Append the model's output (including function calls) to input list
-        // See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
-        inputList.push(...response.output)
-
+      const { response, input: inputList, newItems, executions, rounds } = await runToolLoop({
+        client,
+        model,
+        parameters,
+        instructions,
+        followUpInstructions,
+        registry,
         /**
-         * Step 3: Execute each function call and collect outputs
-         * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
+         * Conversation state: a chained turn continues the last stored response and
+         * sends only the new user message; otherwise the whole history is replayed.
+         * See: https://platform.openai.com/docs/guides/conversation-state
          */
-        for (const toolCall of functionCalls) {
-          if (toolCall.type === 'function_call') {
-            const functionName = toolCall.name
-            const functionArgs = JSON.parse(toolCall.arguments)
-            const execTraceId = `exec-${toolCall.call_id}`
-
-            const execDone = trace(execTraceId, `Executing ${functionName}()`, { function: functionName, arguments: functionArgs })
-
-            /**
-             * Route each function call to the appropriate handler.
-             * See: https://platform.openai.com/docs/guides/function-calling#handling-function-calls
-             */
-            let result
-            if (functionName === 'geocode_location') {
-              console.log('Executing geocode_location with args:', functionArgs)
-              result = await geocodeLocation(functionArgs.location)
-            } else if (functionName === 'get_current_weather') {
-              console.log('Executing get_current_weather with args:', functionArgs)
-              result = await getCurrentWeather(functionArgs.latitude, functionArgs.longitude)
-            }
-
-            // --- Trace: function completed ---
-            execDone(`${functionName}() returned`, { function: functionName, arguments: functionArgs, result })
-
-            allFunctionExecutions.push({
-              round: roundNumber,
-              call_id: toolCall.call_id,
-              function_name: functionName,
-              arguments: functionArgs,
-              result: result,
-            })
-
-            /**
-             * Step 4: Append function call output to input list
-             * See: https://platform.openai.com/docs/guides/function-calling#formatting-results
-             */
-            inputList.push({
-              type: 'function_call_output',
-              call_id: toolCall.call_id,
-              output: JSON.stringify(result),
-            })
+        chain: chainMode,
+        previousResponseId: lastResponseId,
+        // Replayed history includes earlier turns' tool calls and outputs (see `toResponseInput`)
+        input: lastResponseId
+          ? [{ role: 'user', content: userMessage.content }]
+          : toResponseInput(newMessages),
+        // See: https://platform.openai.com/docs/guides/function-calling#streaming
+        stream: streamMode,
+        onTextDelta: (delta) => {
+          // The assistant message is added on the first text delta, after any function call cards
+          if (!hasStreamedMessage) {
+            hasStreamedMessage = true
+            setMessages((prev) => [...prev, { role: 'assistant', content: delta }])
+            return
           }
-        }
-
-        /**
-         * Step 5: Send results back to the model
-         * The model may respond with more tool calls or a final text response.
-         * See: https://platform.openai.com/docs/guides/function-calling#incorporating-results-into-response
-         */
-        const followupDone = trace(`round-${roundNumber}-followup`, `Sending round ${roundNumber} results to model`, { inputItemCount: inputList.length })
-
-        response = await client.responses.create({
-          model: 'gpt-5',
-          instructions:
-            'You have access to geocode_location and get_current_weather tools. ' +
-            'When the user asks about weather, first use geocode_location to get coordinates, ' +
-            'then use get_current_weather with those coordinates. ' +
-            'When the user only asks about a location or coordinates, use geocode_location alone. ' +
-            'Always call the appropriate tool(s) before providing your response.',
-          tools,
-          input: inputList,
-        })
-
-        followupDone(`Round ${roundNumber} response received`, response.output)
-      }
+          setMessages((prev) => updateLastAssistant(prev, (last) => ({ ...last, content: last.content + delta })))
+        },
+        onTrace: pushTrace,
+        // Human-in-the-loop: wait for Approve / Edit / Reject before each call runs
+        approve: approvalMode ? requestApproval : undefined,
+        onExecution: recordExecution,
+        signal,
+      })
 
       // Build function trace for inspector (if any tool calls were made)
-      if (allFunctionExecutions.length > 0) {
-        functionTraceData = {
-          total_rounds: roundNumber,
-          function_executions: allFunctionExecutions,
-          final_input: inputList,
-        }
-      }
+      const functionTraceData = executions.length > 0
+        ? {
+            total_rounds: rounds,
+            function_executions: executions,
+            final_input: inputList,
+          }
+        : null
 
       // Extract assistant response and store full response object
       const assistantMessage: Message = {
@@ -366,6 +218,7 @@ export default function Lesson03Responses() {
         content: response.output_text || 'No response',
         responseOutput: response.output,
         rawResponse: response, // Store full response for inspection panel
+        inputItems: newItems, // Tool calls, tool outputs and the final output, replayed on later turns
         functionCall: functionTraceData
           ? {
               name: 'function_trace',
@@ -376,14 +229,24 @@ export default function Lesson03Responses() {
           : undefined,
       }
 
-      setMessages([...newMessages, assistantMessage])
+      // Append to the latest state so function call cards added during the loop are kept;
+      // a streamed message is replaced by the final one
+      setMessages((prev) =>
+        hasStreamedMessage ? updateLastAssistant(prev, () => assistantMessage) : [...prev, assistantMessage]
+      )
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
       console.error('Error:', error)
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          content: `Error: ${requestErrorMessage(error)}`,
         },
       ])
     } finally {
@@ -391,9 +254,26 @@ export default function Lesson03Responses() {
     }
   }
 
+  function handleSend(input: string) {
+    return sendMessage(input, messages, config)
+  }
+
+  /** Save `edited`, then answer the last user message again with it, replacing the old answer. */
+  function handleRerun(edited: PlaygroundConfig) {
+    saveConfig(edited)
+    const index = messages.map((msg) => msg.role).lastIndexOf('user')
+    if (index === -1) return
+    return sendMessage(messages[index].content, messages.slice(0, index), edited)
+  }
+
+  function handleStop() {
+    cancelRequest()
+    cancelCalls('The user stopped the request.')
+  }
+
   function handleClear() {
-    setMessages([])
-    clearTrace()
+    rejectPending('The user cleared the conversation.')
+    newConversation()
   }
 
   if (!apiKey) {
@@ -415,8 +295,36 @@ export default function Lesson03Responses() {
     <PageLayout
       title="Geocoding + Weather"
       subtitle="Multiple function calls example"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      settingsContent={
+        <RequestSettingsForm
+          settings={settings}
+          onChange={updateSettings}
+          onReset={resetSettings}
+          hasTools={config.tools.length > 0}
+          functionNames={functionToolNames(config.tools)}
+        />
+      }
+      editorContent={
+        <PlaygroundEditor
+          config={config}
+          defaults={defaultConfig}
+          lintOptions={lintOptions}
+          onSave={saveConfig}
+          onReset={resetConfig}
+          onRerun={handleRerun}
+          canRerun={!isLoading && !readOnly && messages.some((msg) => msg.role === 'user')}
+        />
+      }
       chatContent={
-        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} />
+        <ChatArea
+          messages={messages}
+          isLoading={isLoading}
+          onSend={handleSend}
+          onStop={handleStop}
+          readOnly={readOnly}
+          onFunctionCallDecision={decide}
+        />
       }
       inspectorContent={
         <InspectorPanels
@@ -425,6 +333,44 @@ export default function Lesson03Responses() {
           traceSteps={traceSteps}
         />
       }
+      headerActions={
+        <>
+          <ToggleButton
+            label="Strict mode"
+            pressed={strictMode}
+            onPressedChange={setStrictMode}
+            title="Send strict-mode tool schemas (all properties required, optional ones nullable)"
+          />
+          <ToggleButton
+            label="Run tools on server"
+            pressed={serverTools}
+            onPressedChange={setServerTools}
+            disabled={isLoading}
+            title="Execute function calls on the dev server instead of in the browser; the trace shows where each call ran"
+          />
+          <ToggleButton
+            label="Approval"
+            pressed={approvalMode}
+            onPressedChange={setApprovalMode}
+            disabled={isLoading}
+            title="Ask for approval before executing each function call"
+          />
+          <ToggleButton
+            label="Streaming"
+            pressed={streamMode}
+            onPressedChange={setStreamMode}
+            disabled={isLoading}
+            title="Stream responses; arguments form live in the trace and calls run as soon as they are complete"
+          />
+          <ToggleButton
+            label="Chain turns"
+            pressed={chainMode}
+            onPressedChange={setChainMode}
+            disabled={isLoading}
+            title="Store responses and send only the new message, continuing from the last response with previous_response_id"
+          />
+        </>
+      }
       onClear={handleClear}
     />
   )
@@ -0,0 +1,182 @@
+/**
+ * Lesson 04: Using Built-in Tools — Web Search (Chat Completions API)
+ *
+ * Focus: Web search with the OpenAI Chat Completions API
+ * Docs: https://platform.openai.com/docs/guides/tools-web-search?api-mode=chat
+ * API Reference: https://platform.openai.com/docs/api-reference/chat/create
+ *
+ * This lesson demonstrates:
+ * - Using a search model (`gpt-4o-search-preview`) with `web_search_options`
+ * - Reading `url_citation` annotations from `choices[0].message.annotations`
+ * - Key difference from function calling: the search runs server-side —
+ *   no back-and-forth loop is required
+ *
+ * Compare with `responses.tsx`: Chat Completions has no `web_search` tool.
+ * Web search comes from a dedicated search model, which searches on every
+ * request (the model can't decide to skip it), doesn't support domain
+ * filtering, and returns no `web_search_call` items — only the citations.
+ * See: https://platform.openai.com/docs/guides/tools-web-search?api-mode=chat
+ */
+
+import { useState } from 'react'
+import type OpenAI from 'openai'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { ApiKeyConfig } from '@/components/ApiKeyConfig'
+import { ChatArea } from '@/components/ChatArea'
+import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
+import { InspectorPanels } from '@/components/InspectorPanels'
+import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import type { Message } from '@/types/chat'
+
+/** Search models are the only Chat Completions models with built-in web search. */
+const SEARCH_MODEL = 'gpt-4o-search-preview'
+
+/**
+ * Web search options for the search model.
+ * See: https://platform.openai.com/docs/api-reference/chat/create#chat-create-web_search_options
+ *
+ * `search_context_size` trades answer quality for cost and latency.
+ */
+const webSearchOptions: OpenAI.Chat.ChatCompletionCreateParams.WebSearchOptions = {
+  search_context_size: 'medium',
+}
+
+export default function Lesson04Completions() {
+  const [isLoading, setIsLoading] = useState(false)
+  const { traceSteps, trace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+
+  async function handleSend(input: string) {
+    if (!apiKey) return
+
+    setIsLoading(true)
+    const signal = startRequest()
+
+    try {
+      // Reset trace for a fresh request
+      clearTrace()
+
+      // Add user message to chat
+      const userMessage: Message = { role: 'user', content: input }
+      const newMessages = [...messages, userMessage]
+      setMessages(newMessages)
+
+      // Initialize OpenAI client with API key
+      const client = createOpenAIClient(apiKey)
+
+      const done = trace('web-search-request', 'Sending request to search model', { model: SEARCH_MODEL, messageCount: newMessages.length })
+
+      /**
+       * Make the request with a search model.
+       * See: https://platform.openai.com/docs/guides/tools-web-search?api-mode=chat
+       *
+       * KEY DIFFERENCE: Unlike function tools (Lessons 01-03), the search
+       * runs on OpenAI's side — we send one request and receive the final
+       * message with citations.
+       */
+      const completion = await client.chat.completions.create({
+        model: SEARCH_MODEL,
+        web_search_options: webSearchOptions,
+        messages: [
+          {
+            role: 'developer',
+            content: 'Prefer wikipedia.org as a source. For casual conversation or opinions, answer briefly without citing sources.',
+          },
+          ...newMessages.map((msg) => ({
+            role: msg.role as 'user' | 'assistant',
+            content: msg.content,
+          })),
+        ],
+      }, { signal })
+
+      /**
+       * Citations arrive as `url_citation` annotations on the message.
+       * See: https://platform.openai.com/docs/guides/tools-web-search?api-mode=chat#output-and-citations
+       */
+      const message = completion.choices[0].message
+      const citations = message.annotations?.filter((annotation) => annotation.type === 'url_citation') ?? []
+
+      if (citations.length > 0) {
+        done('Web search completed by model', citations)
+      } else {
+        done('Model responded (no citations)', completion.choices)
+      }
+
+      // Extract assistant response and store full completion object
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: message.content || 'No response',
+        responseOutput: completion.choices,
+        rawResponse: completion,
+      }
+
+      setMessages([...newMessages, assistantMessage])
+    } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
+      console.error('Error:', error)
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: 'assistant',
+          content: `Error: ${requestErrorMessage(error)}`,
+        },
+      ])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function handleStop() {
+    cancelRequest()
+  }
+
+  function handleClear() {
+    newConversation()
+  }
+
+  if (!apiKey) {
+    return (
+      <div className="container mx-auto max-w-2xl py-8 px-4">
+        <h1 className="text-2xl font-bold mb-4">Lesson 04: Web Search (Chat Completions API)</h1>
+        <ApiKeyConfig onKeyValidated={setApiKey} />
+      </div>
+    )
+  }
+
+  // Get the latest assistant message with response data
+  const latestAssistantMessage = messages
+    .slice()
+    .reverse()
+    .find((msg) => msg.role === 'assistant' && msg.rawResponse)
+
+  return (
+    <PageLayout
+      title="Web Search"
+      subtitle={`Search model ${SEARCH_MODEL} (Chat Completions API)`}
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      chatContent={
+        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} onStop={handleStop} readOnly={readOnly} />
+      }
+      inspectorContent={
+        <InspectorPanels
+          latestAssistantMessage={latestAssistantMessage}
+          isLoading={isLoading}
+          traceSteps={traceSteps}
+        />
+      }
+      onClear={handleClear}
+    />
+  )
+}
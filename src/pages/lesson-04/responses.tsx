@@ -10,6 +10,9 @@
  * - Domain filtering to restrict search results to wikipedia.org
  * - Key difference from function calling: the model runs the tool
  *   server-side — no back-and-forth loop is required
+ * - Editable instructions and tool JSON in the instructions editor: edits are
+ *   linted, saved per page and diffed against the defaults, and the last user
+ *   message can be re-run with them
  *
  * Unlike regular function calls (Lessons 01-03), built-in tools like
  * web_search are executed by the model automatically. We simply include
@@ -18,12 +21,24 @@
  */
 
 import { useState } from 'react'
-import OpenAI from 'openai'
+import type OpenAI from 'openai'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { toRequestParams } from '@/lib/requestSettings'
+import { toResponseTools } from '@/lib/playgroundConfig'
+import type { PlaygroundConfig, ToolLintOptions } from '@/lib/playgroundConfig'
 import { ApiKeyConfig } from '@/components/ApiKeyConfig'
 import { ChatArea } from '@/components/ChatArea'
 import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
 import { InspectorPanels } from '@/components/InspectorPanels'
+import { RequestSettingsForm } from '@/components/RequestSettingsForm'
+import { PlaygroundEditor } from '@/components/PlaygroundEditor'
 import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { useRequestSettings } from '@/hooks/useRequestSettings'
+import { usePlaygroundConfig } from '@/hooks/usePlaygroundConfig'
 import type { Message } from '@/types/chat'
 
 /**
@@ -34,7 +49,7 @@ import type { Message } from '@/types/chat'
  * using the `filters` parameter with an `allowed_domains` array.
  * Omit the HTTP/HTTPS prefix (e.g. "wikipedia.org" not "https://wikipedia.org").
  */
-const tools: OpenAI.Responses.Tool[] = [
+const defaultTools: OpenAI.Responses.Tool[] = [
   {
     type: 'web_search',
     // Filter so the model only searches wikipedia.org
@@ -45,35 +60,53 @@ const tools: OpenAI.Responses.Tool[] = [
   },
 ]
 
+/**
+ * Instructions and tools this page sends unless they are changed in the
+ * instructions editor; the editor diffs its edits against these.
+ */
+const defaultConfig: PlaygroundConfig = {
+  instructions:
+    'Use the web_search tool only when the user asks about general knowledge or current events. ' +
+    'For casual conversation or opinions, respond without searching.',
+  tools: defaultTools,
+}
+
+/** Only the hosted web search tool can be edited here; function tools need a handler (Lessons 01–03). */
+const lintOptions: ToolLintOptions = { toolTypes: ['web_search'] }
+
 export default function Lesson04Responses() {
-  const [messages, setMessages] = useState<Message[]>([])
   const [isLoading, setIsLoading] = useState(false)
-  const { traceSteps, trace, clearTrace } = useTrace()
-  const [apiKey, setApiKey] = useState<string | null>(
-    import.meta.env.VITE_OPENAI_API_KEY || localStorage.getItem('openai_api_key') || null
-  )
-
-  async function handleSend(input: string) {
+  const { traceSteps, trace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+  const { settings, updateSettings, resetSettings } = useRequestSettings()
+  const { config, saveConfig, resetConfig } = usePlaygroundConfig(defaultConfig, lintOptions)
+
+  /** Send `input` as the next turn after `previousMessages`, with `config`'s instructions and tools. */
+  async function sendMessage(input: string, previousMessages: Message[], { instructions, tools }: PlaygroundConfig) {
     if (!apiKey) return
 
     setIsLoading(true)
+    const signal = startRequest()
 
     try {
       // Reset trace for a fresh request
       clearTrace()
 
-      // Add user message to chat
-      const userMessage: Message = { role: 'user', content: input }
-      const newMessages = [...messages, userMessage]
+      // Add user message to chat, with the instructions and tools it is sent with (for exports)
+      const userMessage: Message = { role: 'user', content: input, request: { instructions, tools } }
+      const newMessages = [...previousMessages, userMessage]
       setMessages(newMessages)
 
       // Initialize OpenAI client with API key
-      const client = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true, // Note: In production, use a backend proxy
-      })
+      const client = createOpenAIClient(apiKey)
 
-      const done = trace('web-search-request', 'Sending request with possible `web_search` tool', { model: 'gpt-5', messageCount: newMessages.length })
+      // Model and request parameters from the settings popover, echoed in the trace
+      const params = toRequestParams(settings, { hasTools: tools.length > 0 })
+
+      const done = trace('web-search-request', 'Sending request with possible `web_search` tool', { ...params, messageCount: newMessages.length })
 
       /**
        * Make the request with the web_search built-in tool.
@@ -86,16 +119,14 @@ export default function Lesson04Responses() {
        * alongside the assistant message).
        */
       const response = await client.responses.create({
-        model: 'gpt-5',
-        tools,
-        instructions:
-          'Use the web_search tool only when the user asks about general knowledge or current events. ' +
-          'For casual conversation or opinions, respond without searching.',
+        ...params,
+        tools: toResponseTools(tools),
+        instructions,
         input: newMessages.map((msg) => ({
           role: msg.role as 'user' | 'assistant',
           content: msg.content,
         })),
-      })
+      }, { signal })
 
       /**
        * The response output may include:
@@ -123,12 +154,18 @@ export default function Lesson04Responses() {
 
       setMessages([...newMessages, assistantMessage])
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
       console.error('Error:', error)
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          content: `Error: ${requestErrorMessage(error)}`,
         },
       ])
     } finally {
@@ -136,9 +173,24 @@ export default function Lesson04Responses() {
     }
   }
 
+  function handleSend(input: string) {
+    return sendMessage(input, messages, config)
+  }
+
+  /** Save `edited`, then answer the last user message again with it, replacing the old answer. */
+  function handleRerun(edited: PlaygroundConfig) {
+    saveConfig(edited)
+    const index = messages.map((msg) => msg.role).lastIndexOf('user')
+    if (index === -1) return
+    return sendMessage(messages[index].content, messages.slice(0, index), edited)
+  }
+
+  function handleStop() {
+    cancelRequest()
+  }
+
   function handleClear() {
-    setMessages([])
-    clearTrace()
+    newConversation()
   }
 
   if (!apiKey) {
@@ -160,8 +212,23 @@ export default function Lesson04Responses() {
     <PageLayout
       title="Web Search"
       subtitle="Built-in web_search tool (wikipedia.org only)"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      settingsContent={
+        <RequestSettingsForm settings={settings} onChange={updateSettings} onReset={resetSettings} hasTools={config.tools.length > 0} />
+      }
+      editorContent={
+        <PlaygroundEditor
+          config={config}
+          defaults={defaultConfig}
+          lintOptions={lintOptions}
+          onSave={saveConfig}
+          onReset={resetConfig}
+          onRerun={handleRerun}
+          canRerun={!isLoading && !readOnly && messages.some((msg) => msg.role === 'user')}
+        />
+      }
       chatContent={
-        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} />
+        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} onStop={handleStop} readOnly={readOnly} />
       }
       inspectorContent={
         <InspectorPanels
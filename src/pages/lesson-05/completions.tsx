@@ -0,0 +1,210 @@
+/**
+ * Lesson 05: Streaming Tool and Function Responses (Chat Completions API)
+ *
+ * Focus: Streaming Chat Completions output for real-time text + web search
+ * Docs: https://platform.openai.com/docs/guides/tools-web-search?api-mode=chat
+ * Streaming: https://platform.openai.com/docs/api-reference/chat-streaming
+ * API Reference: https://platform.openai.com/docs/api-reference/chat/create
+ *
+ * This lesson demonstrates:
+ * - Adding `stream: true` to the Chat Completions request
+ *   See: https://platform.openai.com/docs/guides/streaming-responses?api-mode=chat
+ * - Processing `chat.completion.chunk` objects: text arrives as
+ *   `choices[0].delta.content` fragments
+ * - `stream_options.include_usage` — a final chunk with token usage
+ * - Rebuilding the complete `ChatCompletion` from the chunks with
+ *   `streamChatCompletion` (which also accumulates tool call argument deltas)
+ *
+ * Compare with `responses.tsx`: Chat Completions streams plain chunks instead
+ * of typed semantic events, so there are no web search lifecycle events and
+ * no `response.completed` event carrying the final object — the final
+ * completion has to be assembled from the deltas.
+ */
+
+import { useState } from 'react'
+import type OpenAI from 'openai'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { ApiKeyConfig } from '@/components/ApiKeyConfig'
+import { ChatArea } from '@/components/ChatArea'
+import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
+import { InspectorPanels } from '@/components/InspectorPanels'
+import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { streamChatCompletion } from '@/lib/completionsToolLoop'
+import type { Message } from '@/types/chat'
+
+/** Search models are the only Chat Completions models with built-in web search. */
+const SEARCH_MODEL = 'gpt-4o-search-preview'
+
+/**
+ * Web search options for the search model.
+ * See: https://platform.openai.com/docs/api-reference/chat/create#chat-create-web_search_options
+ */
+const webSearchOptions: OpenAI.Chat.ChatCompletionCreateParams.WebSearchOptions = {
+  search_context_size: 'medium',
+}
+
+export default function Lesson05Completions() {
+  const [isLoading, setIsLoading] = useState(false)
+  const { traceSteps, pushTrace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+
+  async function handleSend(input: string) {
+    if (!apiKey) return
+
+    setIsLoading(true)
+    const signal = startRequest()
+
+    try {
+      // Reset trace for a fresh request
+      clearTrace()
+
+      // Add user message to chat
+      const userMessage: Message = { role: 'user', content: input }
+      const newMessages = [...messages, userMessage]
+      setMessages(newMessages)
+
+      // Initialize OpenAI client with API key
+      const client = createOpenAIClient(apiKey)
+
+      // Mark the streaming request in the trace panel
+      pushTrace({ id: 'stream-request', label: 'Streaming response…', status: 'in-progress', timestamp: Date.now(), data: { model: SEARCH_MODEL, messageCount: newMessages.length } })
+
+      /**
+       * Create a streaming request by setting `stream: true`.
+       * This returns an async iterable of `chat.completion.chunk` objects
+       * instead of a single completion.
+       * See: https://platform.openai.com/docs/api-reference/chat-streaming
+       */
+      const stream = await client.chat.completions.create({
+        model: SEARCH_MODEL,
+        web_search_options: webSearchOptions,
+        messages: [
+          {
+            role: 'developer',
+            content: 'Prefer wikipedia.org as a source. For casual conversation or opinions, answer briefly without citing sources.',
+          },
+          ...newMessages.map((msg) => ({
+            role: msg.role as 'user' | 'assistant',
+            content: msg.content,
+          })),
+        ],
+        stream: true, // Enable streaming — key change from Lesson 04
+        stream_options: { include_usage: true },
+      }, { signal })
+
+      // Add an empty assistant message that we'll update incrementally
+      // as `delta.content` fragments arrive.
+      setMessages([...newMessages, { role: 'assistant', content: '' }])
+
+      let firstDelta = true
+
+      /**
+       * Consume the chunks, appending each text delta to the assistant message.
+       * `streamChatCompletion` runs the `for await` loop and returns the
+       * `ChatCompletion` the chunks add up to.
+       */
+      const completion = await streamChatCompletion(stream, {
+        onTextDelta: (delta) => {
+          if (firstDelta) {
+            firstDelta = false
+            pushTrace({ id: 'stream-request', label: 'Streaming started', status: 'completed', timestamp: Date.now() })
+          }
+          setMessages((prev) => {
+            const updated = [...prev]
+            const last = updated[updated.length - 1]
+            updated[updated.length - 1] = { ...last, content: last.content + delta }
+            return updated
+          })
+        },
+      })
+
+      // Update the assistant message with the assembled completion
+      setMessages((prev) => {
+        const updated = [...prev]
+        const last = updated[updated.length - 1]
+        updated[updated.length - 1] = {
+          ...last,
+          content: completion.choices[0].message.content || last.content || 'No response',
+          responseOutput: completion.choices,
+          rawResponse: completion,
+        }
+        return updated
+      })
+      if (firstDelta) {
+        pushTrace({ id: 'stream-request', label: 'Stream ended without text', status: 'completed', timestamp: Date.now() })
+      }
+      pushTrace({ id: 'stream-complete', label: 'Response complete', status: 'completed', timestamp: Date.now(), data: { choices: completion.choices, usage: completion.usage } })
+    } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and keep any partial answer,
+        // replacing the placeholder if no text arrived yet
+        cancelTrace()
+        setMessages((prev) => {
+          const last = prev[prev.length - 1]
+          const keep = last?.role === 'assistant' && !last.content ? prev.slice(0, -1) : prev
+          return [...keep, { role: 'assistant', content: 'Request cancelled.' }]
+        })
+        return
+      }
+      console.error('Error:', error)
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: 'assistant',
+          content: `Error: ${requestErrorMessage(error)}`,
+        },
+      ])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function handleStop() {
+    cancelRequest()
+  }
+
+  function handleClear() {
+    newConversation()
+  }
+
+  if (!apiKey) {
+    return (
+      <div className="container mx-auto max-w-2xl py-8 px-4">
+        <h1 className="text-2xl font-bold mb-4">Lesson 05: Streaming Web Search (Chat Completions API)</h1>
+        <ApiKeyConfig onKeyValidated={setApiKey} />
+      </div>
+    )
+  }
+
+  // Get the latest assistant message with response data
+  const latestAssistantMessage = messages
+    .slice()
+    .reverse()
+    .find((msg) => msg.role === 'assistant' && msg.rawResponse)
+
+  return (
+    <PageLayout
+      title="Streaming Web Search"
+      subtitle={`Streaming search model ${SEARCH_MODEL} (Chat Completions API)`}
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      chatContent={
+        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} onStop={handleStop} readOnly={readOnly} />
+      }
+      inspectorContent={
+        <InspectorPanels
+          latestAssistantMessage={latestAssistantMessage}
+          isLoading={isLoading}
+          traceSteps={traceSteps}
+        />
+      }
+      onClear={handleClear}
+    />
+  )
+}
@@ -9,25 +9,50 @@
  * This lesson demonstrates:
  * - Using the `mcp` built-in tool type to connect to a remote MCP server
  *   See: https://platform.openai.com/docs/guides/tools-connectors-mcp#quickstart
- * - Setting `require_approval: "never"` to auto-approve all tool calls
+ * - Approval policies: `require_approval: "always"` with a per-tool allowlist,
+ *   or `"never"` to auto-approve all tool calls
+ *   See: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
+ * - Answering `mcp_approval_request` items with `mcp_approval_response` items
+ *   chained via `previous_response_id`
+ * - Sending several user-configured MCP servers as separate `mcp` tools and
+ *   showing the tools each one exposes (from `mcp_list_tools` output items)
  * - Streaming MCP lifecycle events:
  *     response.mcp_list_tools.in_progress → .completed  (tool discovery)
  *     response.mcp_call.in_progress → .completed        (tool execution)
  *   See: https://platform.openai.com/docs/api-reference/responses-streaming
  * - Streaming text with `response.output_text.delta`
  * - Using `response.completed` to capture the final response object
+ * - Editable instructions in the instructions editor, saved per page; the
+ *   tools come from the MCP servers panel instead
  *
  * Builds on Lesson 05 (streaming) by swapping the web_search tool
  * for a remote MCP server that provides OpenAI documentation search.
  */
 
 import { useState } from 'react'
-import OpenAI from 'openai'
+import type OpenAI from 'openai'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { toRequestParams } from '@/lib/requestSettings'
 import { ApiKeyConfig } from '@/components/ApiKeyConfig'
 import { ChatArea } from '@/components/ChatArea'
 import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
 import { InspectorPanels } from '@/components/InspectorPanels'
+import { RequestSettingsForm } from '@/components/RequestSettingsForm'
+import { McpServerManager } from '@/components/McpServerManager'
+import { PlaygroundEditor } from '@/components/PlaygroundEditor'
+import { ToggleButton } from '@/components/ToggleButton'
 import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { useRequestSettings } from '@/hooks/useRequestSettings'
+import { useFunctionCallApproval } from '@/hooks/useFunctionCallApproval'
+import { useMcpServers } from '@/hooks/useMcpServers'
+import { usePlaygroundConfig } from '@/hooks/usePlaygroundConfig'
+import { getApprovalRequests, getDiscoveredTools, toApprovalResponse, toMcpTool } from '@/lib/mcp'
+import type { DiscoveredMcpTools } from '@/lib/mcp'
+import type { PlaygroundConfig } from '@/lib/playgroundConfig'
 import type { Message } from '@/types/chat'
 
 // Streaming event types we handle (subset of all ResponseStreamEvent types).
@@ -36,40 +61,39 @@ import type { Message } from '@/types/chat'
 // - response.mcp_call.{in_progress, completed, failed} — tool execution
 // - response.output_text.delta                         — text streaming
 // - response.completed                                 — final response
+// `mcp_approval_request` items are read from the completed response's output.
 
 /**
- * Define the MCP tool pointing to a remote flights server.
- * See: https://platform.openai.com/docs/guides/tools-connectors-mcp#quickstart
- *
- * The `mcp` tool type connects to a remote MCP server via its URL.
- * The API first lists available tools (creates an `mcp_list_tools` output),
- * then calls tools as needed (creates `mcp_call` outputs).
- * Setting `require_approval: "never"` auto-approves all tool calls.
+ * Instructions this page sends unless they are changed in the instructions
+ * editor. Its tools are the enabled MCP servers, so none are edited there.
  */
-const tools: OpenAI.Responses.Tool[] = [
-  {
-    type: 'mcp',
-    server_label: 'openai_docs',
-    server_description: 'OpenAI developer documentation MCP server for searching and reading docs.',
-    server_url: 'https://developers.openai.com/mcp',
-    // Auto-approve all tool calls for simplicity.
-    // See: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
-    require_approval: 'never',
-  },
-]
+const defaultConfig: PlaygroundConfig = {
+  instructions:
+    'You have access to tools from one or more MCP servers, such as the OpenAI developer docs server. ' +
+    'Use the available tools when the user asks about something a server covers (e.g. OpenAI APIs, SDKs, or documentation). For other topics, respond normally.',
+  tools: [],
+}
 
 export default function Lesson06Responses() {
-  const [messages, setMessages] = useState<Message[]>([])
   const [isLoading, setIsLoading] = useState(false)
-  const { traceSteps, pushTrace, clearTrace } = useTrace()
-  const [apiKey, setApiKey] = useState<string | null>(
-    import.meta.env.VITE_OPENAI_API_KEY || localStorage.getItem('openai_api_key') || null
-  )
+  const { traceSteps, pushTrace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const { servers, saveServer, removeServer, resetServers } = useMcpServers()
+  const [showServers, setShowServers] = useState(false)
+  const [discoveredTools, setDiscoveredTools] = useState<DiscoveredMcpTools>({})
+  const { requestApproval, decide, updateCall, rejectPending, cancelCalls } = useFunctionCallApproval(setMessages)
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+  const { settings, updateSettings, resetSettings } = useRequestSettings()
+  const { config, saveConfig, resetConfig } = usePlaygroundConfig(defaultConfig)
 
-  async function handleSend(input: string) {
+  /** Send `input` as the next turn after `previousMessages`, with `config`'s instructions. */
+  async function sendMessage(input: string, previousMessages: Message[], { instructions }: PlaygroundConfig) {
     if (!apiKey) return
 
     setIsLoading(true)
+    const signal = startRequest()
 
     try {
       // Reset trace for a fresh request
@@ -77,141 +101,260 @@ export default function Lesson06Responses() {
 
       // Add user message to chat
       const userMessage: Message = { role: 'user', content: input }
-      const newMessages = [...messages, userMessage]
+      const newMessages = [...previousMessages, userMessage]
       setMessages(newMessages)
 
       // Initialize OpenAI client with API key
-      const client = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true, // Note: In production, use a backend proxy
-      })
-
-      // Mark the streaming request in the trace panel
-      pushTrace({ id: 'stream-request', label: 'Streaming response…', status: 'in-progress', timestamp: Date.now(), data: { model: 'gpt-5', messageCount: newMessages.length } })
+      const client = createOpenAIClient(apiKey)
 
       /**
-       * Create a streaming request by setting `stream: true`.
-       * This returns an async iterable of server-sent events instead of
-       * a single completed response.
-       * See: https://platform.openai.com/docs/guides/function-calling#streaming
-       * Events reference: https://platform.openai.com/docs/api-reference/responses-streaming
+       * Send one `mcp` tool per enabled server.
+       * See: https://platform.openai.com/docs/guides/tools-connectors-mcp#quickstart
+       *
+       * The `mcp` tool type connects to a remote MCP server via its URL.
+       * The API first lists available tools (creates an `mcp_list_tools` output),
+       * then calls tools as needed (creates `mcp_call` outputs).
+       * Each server's approval policy becomes its `require_approval` setting.
        */
-      const stream = await client.responses.create({
-        model: 'gpt-5',
-        tools,
-        instructions:
-          'You have access to the OpenAI developer docs MCP server. ' +
-          'Use the available tools when the user asks about OpenAI APIs, SDKs, or documentation. For other topics, respond normally.',
-        input: newMessages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
-        stream: true, // Enable streaming — key change from Lesson 04
-      })
+      const tools: OpenAI.Responses.Tool[] = servers.filter((server) => server.enabled).map(toMcpTool)
 
-      // Add an empty assistant message that we'll update incrementally
-      // as `response.output_text.delta` events arrive.
-      setMessages([...newMessages, { role: 'assistant', content: '' }])
+      // Model and request parameters from the settings popover, echoed in the trace
+      const requestParams = toRequestParams(settings, { hasTools: tools.length > 0 })
 
       /**
-       * Process streaming events with `for await`.
-       * See: https://platform.openai.com/docs/guides/function-calling#streaming
-       *
-       * We handle a focused subset of events:
-       * - MCP tool discovery: mcp_list_tools.in_progress → .completed
-       * - MCP tool execution: mcp_call.in_progress → .completed / .failed
-       * - Text deltas: response.output_text.delta (append to message)
-       * - Completion: response.completed (capture final response)
+       * Stream one response and process its events; resolves with the final response.
+       * Called once per turn, then again for each round of approval responses.
        */
-      for await (const event of stream) {
-        switch (event.type) {
-          /**
-           * MCP tool discovery events.
-           * See: https://platform.openai.com/docs/api-reference/responses-streaming
-           * These fire when the API lists available tools from the MCP server.
-           * The resulting `mcp_list_tools` output item contains the tool definitions.
-           */
-          case 'response.mcp_list_tools.in_progress':
-            pushTrace({ id: `mcp-list-${event.item_id}`, label: 'Listing MCP tools…', status: 'in-progress', timestamp: Date.now() })
-            break
-
-          case 'response.mcp_list_tools.completed':
-            pushTrace({ id: `mcp-list-${event.item_id}`, label: 'MCP tools listed', status: 'completed', timestamp: Date.now() })
-            break
-
-          /**
-           * MCP tool call lifecycle events.
-           * See: https://platform.openai.com/docs/api-reference/responses-streaming
-           * These fire when the model calls a tool on the remote MCP server.
-           * Each event has an `item_id` identifying the specific tool call.
-           */
-          case 'response.mcp_call.in_progress':
-            pushTrace({ id: `mcp-call-${event.item_id}`, label: 'MCP tool call in progress…', status: 'in-progress', timestamp: Date.now() })
-            break
-
-          case 'response.mcp_call.completed':
-            pushTrace({ id: `mcp-call-${event.item_id}`, label: 'MCP tool call completed', status: 'completed', timestamp: Date.now() })
-            break
-
-          case 'response.mcp_call.failed':
-            pushTrace({ id: `mcp-call-${event.item_id}`, label: 'MCP tool call failed', status: 'error', timestamp: Date.now() })
-            break
-
-          /**
-           * Text streaming: append each delta to the assistant message.
-           * See: https://platform.openai.com/docs/api-reference/responses-streaming/response/output_text/delta
-           * Each event contains a `delta` string (a few characters/tokens).
-           */
-          case 'response.output_text.delta': {
-            const { delta } = event
-            setMessages((prev) => {
-              const updated = [...prev]
-              const last = updated[updated.length - 1]
-              updated[updated.length - 1] = { ...last, content: last.content + delta }
-              return updated
-            })
-            break
-          }
+      async function streamResponse(
+        turn: number,
+        params: Pick<OpenAI.Responses.ResponseCreateParams, 'input' | 'previous_response_id'>
+      ) {
+        const suffix = turn === 0 ? '' : `-${turn}`
+        // A forced `tool_choice` applies to the first turn only; approval turns must be free to answer
+        const turnParams = turn === 0 ? requestParams : { ...requestParams, tool_choice: undefined }
+
+        // Mark the streaming request in the trace panel
+        pushTrace({ id: `stream-request${suffix}`, label: 'Streaming response…', status: 'in-progress', timestamp: Date.now(), data: { ...turnParams, messageCount: newMessages.length, previous_response_id: params.previous_response_id } })
+
+        /**
+         * Create a streaming request by setting `stream: true`.
+         * This returns an async iterable of server-sent events instead of
+         * a single completed response.
+         * See: https://platform.openai.com/docs/guides/function-calling#streaming
+         * Events reference: https://platform.openai.com/docs/api-reference/responses-streaming
+         */
+        const stream = await client.responses.create({
+          ...turnParams,
+          tools,
+          instructions,
+          ...params,
+          stream: true, // Enable streaming — key change from Lesson 04
+        }, { signal })
+
+        // The assistant message for this turn is added on the first text delta,
+        // so approval cards from an earlier turn stay above the answer.
+        let hasAssistantMessage = false
+        let finalResponse: OpenAI.Responses.Response | undefined
+
+        /**
+         * Process streaming events with `for await`.
+         * See: https://platform.openai.com/docs/guides/function-calling#streaming
+         *
+         * We handle a focused subset of events:
+         * - MCP tool discovery: mcp_list_tools.in_progress → .completed
+         * - MCP tool execution: mcp_call.in_progress → .completed / .failed
+         * - Text deltas: response.output_text.delta (append to message)
+         * - Completion: response.completed (capture final response)
+         * - Failure: response.failed / error (throw with the API's message)
+         */
+        for await (const event of stream) {
+          switch (event.type) {
+            /**
+             * MCP tool discovery events.
+             * See: https://platform.openai.com/docs/api-reference/responses-streaming
+             * These fire when the API lists available tools from the MCP server.
+             * The resulting `mcp_list_tools` output item contains the tool definitions.
+             */
+            case 'response.mcp_list_tools.in_progress':
+              pushTrace({ id: `mcp-list-${event.item_id}`, label: 'Listing MCP tools…', status: 'in-progress', timestamp: Date.now() })
+              break
 
-          /**
-           * Response completed — the final event containing the full response.
-           * See: https://platform.openai.com/docs/api-reference/responses-streaming/response/completed
-           * `event.response` has the same shape as a non-streaming response,
-           * including `output` (with mcp_list_tools + mcp_call items + message)
-           * and `output_text` (the complete text).
-           */
-          case 'response.completed': {
-            const { response: finalResponse } = event
-            // Update the assistant message with the final response data
-            setMessages((prev) => {
-              const updated = [...prev]
-              const last = updated[updated.length - 1]
-              updated[updated.length - 1] = {
-                ...last,
-                content: finalResponse.output_text || last.content,
-                responseOutput: finalResponse.output,
-                rawResponse: finalResponse,
+            case 'response.mcp_list_tools.completed':
+              pushTrace({ id: `mcp-list-${event.item_id}`, label: 'MCP tools listed', status: 'completed', timestamp: Date.now() })
+              break
+
+            /**
+             * MCP tool call lifecycle events.
+             * See: https://platform.openai.com/docs/api-reference/responses-streaming
+             * These fire when the model calls a tool on the remote MCP server.
+             * Each event has an `item_id` identifying the specific tool call.
+             */
+            case 'response.mcp_call.in_progress':
+              pushTrace({ id: `mcp-call-${event.item_id}`, label: 'MCP tool call in progress…', status: 'in-progress', timestamp: Date.now() })
+              break
+
+            case 'response.mcp_call.completed':
+              pushTrace({ id: `mcp-call-${event.item_id}`, label: 'MCP tool call completed', status: 'completed', timestamp: Date.now() })
+              break
+
+            case 'response.mcp_call.failed':
+              pushTrace({ id: `mcp-call-${event.item_id}`, label: 'MCP tool call failed', status: 'error', timestamp: Date.now() })
+              break
+
+            /**
+             * Text streaming: append each delta to the assistant message.
+             * See: https://platform.openai.com/docs/api-reference/responses-streaming/response/output_text/delta
+             * Each event contains a `delta` string (a few characters/tokens).
+             */
+            case 'response.output_text.delta': {
+              const { delta } = event
+              if (!hasAssistantMessage) {
+                hasAssistantMessage = true
+                setMessages((prev) => [...prev, { role: 'assistant', content: delta }])
+                break
               }
-              return updated
-            })
-            pushTrace({ id: 'stream-request', label: 'Streaming started', status: 'completed', timestamp: Date.now() })
-            pushTrace({ id: 'stream-complete', label: 'Response complete', status: 'completed', timestamp: Date.now(), data: finalResponse.output })
-            break
+              setMessages((prev) => {
+                const updated = [...prev]
+                const last = updated[updated.length - 1]
+                updated[updated.length - 1] = { ...last, content: last.content + delta }
+                return updated
+              })
+              break
+            }
+
+            /**
+             * Response completed — the final event containing the full response.
+             * See: https://platform.openai.com/docs/api-reference/responses-streaming/response/completed
+             * `event.response` has the same shape as a non-streaming response,
+             * including `output` (with mcp_list_tools + mcp_call items + message)
+             * and `output_text` (the complete text).
+             */
+            case 'response.completed': {
+              finalResponse = event.response
+              // Remember what each server exposed for the server manager
+              const discovered = getDiscoveredTools(finalResponse)
+              setDiscoveredTools((prev) => ({ ...prev, ...discovered }))
+              pushTrace({ id: `stream-request${suffix}`, label: 'Streaming started', status: 'completed', timestamp: Date.now() })
+              pushTrace({ id: `stream-complete${suffix}`, label: 'Response complete', status: 'completed', timestamp: Date.now(), data: finalResponse.output })
+              break
+            }
+
+            /**
+             * Failures: the response failed (e.g. the MCP server errored) or the
+             * stream itself reported an error. Surface the API's message.
+             * See: https://platform.openai.com/docs/api-reference/responses-streaming/response/failed
+             * See: https://platform.openai.com/docs/api-reference/responses-streaming/error
+             */
+            case 'response.failed':
+              throw new Error(event.response.error?.message ?? 'Response failed')
+
+            case 'error':
+              throw new Error(event.message)
+
+            // Other events (response.created, response.in_progress, etc.)
+            // are intentionally ignored to keep the code focused.
+            default:
+              break
           }
+        }
+
+        if (!finalResponse) {
+          throw new Error('Stream ended without a completed response')
+        }
+        return { response: finalResponse, hasAssistantMessage }
+      }
 
-          // Other events (response.created, response.in_progress, etc.)
-          // are intentionally ignored to keep the code focused.
-          default:
-            break
+      let turn = 0
+      let { response: finalResponse, hasAssistantMessage } = await streamResponse(turn, {
+        input: newMessages
+          .filter((msg) => msg.role !== 'function')
+          .map((msg) => ({
+            role: msg.role as 'user' | 'assistant',
+            content: msg.content,
+          })),
+      })
+
+      /**
+       * Approval loop: answer every `mcp_approval_request` and continue the
+       * same response chain with `previous_response_id`.
+       * See: https://platform.openai.com/docs/guides/tools-connectors-mcp#approvals
+       */
+      let approvalRequests = getApprovalRequests(finalResponse)
+      while (approvalRequests.length > 0) {
+        const approvalResponses: OpenAI.Responses.ResponseInputItem[] = []
+
+        for (const request of approvalRequests) {
+          const approvalTraceId = `mcp-approval-${request.id}`
+          pushTrace({ id: approvalTraceId, label: `Waiting for approval: ${request.server_label} → ${request.name}`, status: 'in-progress', timestamp: Date.now(), data: request })
+
+          const decision = await requestApproval({
+            call_id: request.id,
+            server_label: request.server_label,
+            name: request.name,
+            arguments: request.arguments,
+          })
+
+          pushTrace({
+            id: approvalTraceId,
+            label: decision.action === 'approve'
+              ? `${request.name} approved`
+              : `${request.name} rejected by user`,
+            status: decision.action === 'approve' ? 'completed' : 'error',
+            timestamp: Date.now(),
+            data: toApprovalResponse(request, decision),
+          })
+          approvalResponses.push(toApprovalResponse(request, decision))
         }
+
+        turn++
+        const next = await streamResponse(turn, {
+          previous_response_id: finalResponse.id,
+          input: approvalResponses,
+        })
+        finalResponse = next.response
+        hasAssistantMessage = next.hasAssistantMessage
+
+        // Show each approved call's result on its approval card
+        for (const item of finalResponse.output) {
+          if (item.type === 'mcp_call' && item.approval_request_id) {
+            updateCall(item.approval_request_id, {
+              status: item.error ? 'error' : 'completed',
+              response: item.error ?? item.output ?? undefined,
+            })
+          }
+        }
+
+        approvalRequests = getApprovalRequests(finalResponse)
       }
+
+      // Update (or add) the assistant message with the final response data
+      const completed = finalResponse
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: completed.output_text || 'No response',
+        responseOutput: completed.output,
+        rawResponse: completed,
+      }
+      setMessages((prev) => {
+        if (!hasAssistantMessage) return [...prev, assistantMessage]
+        const updated = [...prev]
+        const last = updated[updated.length - 1]
+        updated[updated.length - 1] = { ...assistantMessage, content: completed.output_text || last.content }
+        return updated
+      })
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
       console.error('Error:', error)
       setMessages((prev) => [
         ...prev,
         {
           role: 'assistant',
-          content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          content: `Error: ${requestErrorMessage(error)}`,
         },
       ])
     } finally {
@@ -219,9 +362,26 @@ export default function Lesson06Responses() {
     }
   }
 
+  function handleSend(input: string) {
+    return sendMessage(input, messages, config)
+  }
+
+  /** Save `edited`, then answer the last user message again with it, replacing the old answer. */
+  function handleRerun(edited: PlaygroundConfig) {
+    saveConfig(edited)
+    const index = messages.map((msg) => msg.role).lastIndexOf('user')
+    if (index === -1) return
+    return sendMessage(messages[index].content, messages.slice(0, index), edited)
+  }
+
+  function handleStop() {
+    cancelRequest()
+    cancelCalls('The user stopped the request.')
+  }
+
   function handleClear() {
-    setMessages([])
-    clearTrace()
+    rejectPending('The user cleared the conversation.')
+    newConversation()
   }
 
   if (!apiKey) {
@@ -242,9 +402,39 @@ export default function Lesson06Responses() {
   return (
     <PageLayout
       title="Remote MCP Server"
-      subtitle="Streaming responses with the OpenAI docs MCP server"
+      subtitle="Streaming responses with configurable remote MCP servers"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      settingsContent={<RequestSettingsForm settings={settings} onChange={updateSettings} onReset={resetSettings} hasTools />}
+      editorContent={
+        <PlaygroundEditor
+          config={config}
+          defaults={defaultConfig}
+          onSave={saveConfig}
+          onReset={resetConfig}
+          onRerun={handleRerun}
+          canRerun={!isLoading && !readOnly && messages.some((msg) => msg.role === 'user')}
+          toolsSource="Tools: one mcp tool per enabled server in the Servers panel."
+        />
+      }
       chatContent={
-        <ChatArea messages={messages} isLoading={isLoading} onSend={handleSend} />
+        showServers ? (
+          <McpServerManager
+            servers={servers}
+            discoveredTools={discoveredTools}
+            onSave={saveServer}
+            onRemove={removeServer}
+            onReset={resetServers}
+          />
+        ) : (
+          <ChatArea
+            messages={messages}
+            isLoading={isLoading}
+            onSend={handleSend}
+            onStop={handleStop}
+            readOnly={readOnly}
+            onFunctionCallDecision={decide}
+          />
+        )
       }
       inspectorContent={
         <InspectorPanels
@@ -253,6 +443,15 @@ export default function Lesson06Responses() {
           traceSteps={traceSteps}
         />
       }
+      headerActions={
+        <ToggleButton
+          label={`Servers (${servers.filter((server) => server.enabled).length})`}
+          pressed={showServers}
+          onPressedChange={setShowServers}
+          disabled={isLoading}
+          title="Add, edit, enable or remove MCP servers"
+        />
+      }
       onClear={handleClear}
     />
   )
@@ -0,0 +1,324 @@
+/**
+ * Lesson 08: Calling MCP Servers from the App
+ *
+ * Focus: Acting as the MCP client yourself instead of using the hosted `mcp` tool
+ * MCP docs: https://modelcontextprotocol.io/docs/develop/build-client
+ * Function calling: https://platform.openai.com/docs/guides/function-calling
+ * API Reference: https://platform.openai.com/docs/api-reference/responses/create
+ *
+ * This lesson demonstrates:
+ * - Connecting to an MCP server from the browser over Streamable HTTP,
+ *   falling back to the legacy SSE transport for older servers
+ *   See: https://modelcontextprotocol.io/specification/2025-06-18/basic/transports
+ * - Listing the server's tools (`tools/list`) and converting each one into a
+ *   Responses `function` tool — MCP `inputSchema` becomes `parameters`
+ * - Routing every `function_call` the model makes to MCP `tools/call` and
+ *   sending the result back as a `function_call_output`
+ * - Reusing the Lesson 01–03 tool loop, approval flow and strict mode
+ * - Optional conversation state via `previous_response_id`: with "Chain turns"
+ *   on, responses are stored and each turn sends only the new message, so earlier
+ *   tool calls and outputs stay in the model's context
+ * - Editable instructions in the instructions editor, saved per page; the
+ *   tools come from the connected MCP server instead
+ *
+ * Unlike Lesson 06, OpenAI never talks to the MCP server: the app does. That
+ * makes servers on localhost or a private network usable, e.g. the bundled
+ * fixture server (`npm run mcp-server`, listening on http://localhost:3001/mcp).
+ * Any other server must allow CORS requests from this origin.
+ */
+
+import { useState } from 'react'
+import { createOpenAIClient, getInitialApiKey } from '@/lib/openaiClient'
+import { requestErrorMessage } from '@/lib/apiKeyCheck'
+import { ApiKeyConfig } from '@/components/ApiKeyConfig'
+import { ChatArea } from '@/components/ChatArea'
+import { PageLayout } from '@/components/PageLayout'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
+import { InspectorPanels } from '@/components/InspectorPanels'
+import { McpConnectionPanel } from '@/components/McpConnectionPanel'
+import { ToggleButton } from '@/components/ToggleButton'
+import { RequestSettingsForm } from '@/components/RequestSettingsForm'
+import { PlaygroundEditor } from '@/components/PlaygroundEditor'
+import { useTrace } from '@/hooks/useTrace'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useRequestCancellation } from '@/hooks/useRequestCancellation'
+import { useRequestSettings } from '@/hooks/useRequestSettings'
+import { useFunctionCallApproval } from '@/hooks/useFunctionCallApproval'
+import { useMcpClient } from '@/hooks/useMcpClient'
+import { usePlaygroundConfig } from '@/hooks/usePlaygroundConfig'
+import { createMcpToolRegistry } from '@/lib/mcpClient'
+import { runToolLoop, toResponseInput } from '@/lib/toolLoop'
+import { toRequestParams } from '@/lib/requestSettings'
+import type { PlaygroundConfig } from '@/lib/playgroundConfig'
+import { createToolRegistry } from '@/lib/toolRegistry'
+import type { Message } from '@/types/chat'
+
+/** The course's local MCP server */
+const DEFAULT_MCP_URL = 'http://localhost:3001/mcp'
+
+/**
+ * Instructions this page sends while a server is connected, unless they are
+ * changed in the instructions editor. Its tools are the connected server's,
+ * so none are edited there.
+ */
+const defaultConfig: PlaygroundConfig = {
+  instructions:
+    'You are connected to an MCP server through function tools. Use them whenever they can answer the user\'s request, and say which tool the answer came from.',
+  tools: [],
+}
+
+/** Sent instead while no server is connected, so the model can point the user to the connection panel. */
+const NO_SERVER_INSTRUCTIONS =
+  'No MCP server is connected, so no tools are available. If the user asks for something that needs tools, suggest connecting an MCP server first.'
+
+export default function Lesson08Responses() {
+  const [isLoading, setIsLoading] = useState(false)
+  const { traceSteps, pushTrace, clearTrace, cancelTrace, restoreTrace } = useTrace()
+  const history = useConversationHistory({ traceSteps, restoreTrace })
+  const { messages, setMessages, newConversation, readOnly } = history
+  const { startRequest, cancelRequest } = useRequestCancellation()
+  const [strictMode, setStrictMode] = useState(false)
+  const [approvalMode, setApprovalMode] = useState(false)
+  const [chainMode, setChainMode] = useState(false)
+  const { requestApproval, decide, recordExecution, rejectPending, cancelCalls } = useFunctionCallApproval(setMessages)
+  const { connection, status, error, connect, disconnect } = useMcpClient()
+  const [apiKey, setApiKey] = useState<string | null>(getInitialApiKey)
+  const { settings, updateSettings, resetSettings } = useRequestSettings()
+  const { config, saveConfig, resetConfig } = usePlaygroundConfig(defaultConfig)
+
+  /** Send `input` as the next turn after `previousMessages`, with `config`'s instructions. */
+  async function sendMessage(input: string, previousMessages: Message[], { instructions }: PlaygroundConfig) {
+    if (!apiKey) return
+
+    setIsLoading(true)
+    const signal = startRequest()
+
+    try {
+      // Reset trace for a fresh request
+      clearTrace()
+
+      // Add user message to chat
+      const userMessage: Message = { role: 'user', content: input }
+      const newMessages = [...previousMessages, userMessage]
+      setMessages(newMessages)
+
+      // A chained turn continues this conversation's latest stored response
+      const lastResponseId: string | undefined = chainMode
+        ? previousMessages.slice().reverse().find((msg) => msg.role === 'assistant' && msg.rawResponse)?.rawResponse.id
+        : undefined
+
+      // Initialize OpenAI client with API key
+      const client = createOpenAIClient(apiKey)
+
+      /**
+       * Expose the MCP server's tools as function tools
+       * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+       *
+       * Each handler forwards its call to `tools/call` on the connected server.
+       * Without a connection the model simply answers without tools.
+       */
+      const registry = connection
+        ? createMcpToolRegistry(connection, { strict: strictMode })
+        : createToolRegistry([], { strict: strictMode })
+
+      // Model and request parameters from the settings popover, echoed in the trace
+      const { model, ...parameters } = toRequestParams(settings, {
+        hasTools: registry.tools.length > 0,
+        functionNames: registry.tools.map((tool) => tool.name),
+      })
+
+      /**
+       * Run the tool-calling loop
+       * See: https://platform.openai.com/docs/guides/function-calling#the-tool-calling-flow
+       */
+      const { response, input: inputList, newItems, executions, rounds } = await runToolLoop({
+        client,
+        model,
+        parameters,
+        instructions: connection ? instructions : NO_SERVER_INSTRUCTIONS,
+        registry,
+        /**
+         * Conversation state: a chained turn continues the last stored response and
+         * sends only the new user message; otherwise the whole history is replayed.
+         * See: https://platform.openai.com/docs/guides/conversation-state
+         */
+        chain: chainMode,
+        previousResponseId: lastResponseId,
+        // Replayed history includes earlier turns' tool calls and outputs (see `toResponseInput`)
+        input: lastResponseId
+          ? [{ role: 'user', content: userMessage.content }]
+          : toResponseInput(newMessages),
+        onTrace: pushTrace,
+        // Human-in-the-loop: wait for Approve / Edit / Reject before each call runs
+        approve: approvalMode ? requestApproval : undefined,
+        onExecution: recordExecution,
+        signal,
+      })
+
+      // Build function trace for inspector (if any tool calls were made)
+      const functionTraceData = executions.length > 0
+        ? {
+            mcp_server: connection?.serverInfo,
+            mcp_transport: connection?.transport,
+            total_rounds: rounds,
+            function_executions: executions,
+            final_input: inputList,
+          }
+        : null
+
+      // Extract assistant response and store full response object
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: response.output_text || 'No response',
+        responseOutput: response.output,
+        rawResponse: response, // Store full response for inspection panel
+        inputItems: newItems, // Tool calls, tool outputs and the final output, replayed on later turns
+        functionCall: functionTraceData ? {
+          name: 'function_trace',
+          arguments: JSON.stringify(functionTraceData),
+          status: 'completed',
+          response: functionTraceData,
+        } : undefined,
+      }
+
+      // Append to the latest state so function call cards added during the loop are kept
+      setMessages((prev) => [...prev, assistantMessage])
+    } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: close the open trace steps and leave a marker in the chat
+        cancelTrace()
+        setMessages((prev) => [...prev, { role: 'assistant', content: 'Request cancelled.' }])
+        return
+      }
+      console.error('Error:', error)
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: 'assistant',
+          content: `Error: ${requestErrorMessage(error)}`,
+        },
+      ])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function handleSend(input: string) {
+    return sendMessage(input, messages, config)
+  }
+
+  /** Save `edited`, then answer the last user message again with it, replacing the old answer. */
+  function handleRerun(edited: PlaygroundConfig) {
+    saveConfig(edited)
+    const index = messages.map((msg) => msg.role).lastIndexOf('user')
+    if (index === -1) return
+    return sendMessage(messages[index].content, messages.slice(0, index), edited)
+  }
+
+  function handleStop() {
+    cancelRequest()
+    cancelCalls('The user stopped the request.')
+  }
+
+  function handleClear() {
+    rejectPending('The user cleared the conversation.')
+    newConversation()
+  }
+
+  if (!apiKey) {
+    return (
+      <div className="container mx-auto max-w-2xl py-8 px-4">
+        <h1 className="text-2xl font-bold mb-4">Lesson 08: Calling MCP Servers</h1>
+        <ApiKeyConfig onKeyValidated={setApiKey} />
+      </div>
+    )
+  }
+
+  // Get the latest assistant message with response data
+  const latestAssistantMessage = messages
+    .slice()
+    .reverse()
+    .find((msg) => msg.role === 'assistant' && msg.rawResponse)
+
+  return (
+    <PageLayout
+      title="Local MCP Client"
+      subtitle="The app connects to the MCP server and runs its tools"
+      sidebarContent={<ConversationSidebar history={history} onNew={handleClear} disabled={isLoading} />}
+      settingsContent={
+        <RequestSettingsForm
+          settings={settings}
+          onChange={updateSettings}
+          onReset={resetSettings}
+          hasTools={connection !== null}
+          functionNames={connection?.tools.map((tool) => tool.name) ?? []}
+        />
+      }
+      editorContent={
+        <PlaygroundEditor
+          config={config}
+          defaults={defaultConfig}
+          onSave={saveConfig}
+          onReset={resetConfig}
+          onRerun={handleRerun}
+          canRerun={!isLoading && !readOnly && messages.some((msg) => msg.role === 'user')}
+          toolsSource="Tools: the connected MCP server's tools, as function tools. Without a connection, fixed instructions ask the user to connect a server."
+        />
+      }
+      chatContent={
+        <div className="flex h-full flex-col min-h-0">
+          <McpConnectionPanel
+            connection={connection}
+            status={status}
+            error={error}
+            defaultUrl={DEFAULT_MCP_URL}
+            onConnect={connect}
+            onDisconnect={disconnect}
+          />
+          <div className="flex-1 min-h-0">
+            <ChatArea
+              messages={messages}
+              isLoading={isLoading}
+              onSend={handleSend}
+              onStop={handleStop}
+              readOnly={readOnly}
+              onFunctionCallDecision={decide}
+            />
+          </div>
+        </div>
+      }
+      inspectorContent={
+        <InspectorPanels
+          latestAssistantMessage={latestAssistantMessage}
+          isLoading={isLoading}
+          traceSteps={traceSteps}
+        />
+      }
+      headerActions={
+        <>
+          <ToggleButton
+            label="Strict mode"
+            pressed={strictMode}
+            onPressedChange={setStrictMode}
+            title="Send strict-mode tool schemas (all properties required, optional ones nullable)"
+          />
+          <ToggleButton
+            label="Approval"
+            pressed={approvalMode}
+            onPressedChange={setApprovalMode}
+            disabled={isLoading}
+            title="Ask for approval before executing each function call"
+          />
+          <ToggleButton
+            label="Chain turns"
+            pressed={chainMode}
+            onPressedChange={setChainMode}
+            disabled={isLoading}
+            title="Store responses and send only the new message, continuing from the last response with previous_response_id"
+          />
+        </>
+      }
+      onClear={handleClear}
+    />
+  )
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { calculateTip, DEFAULT_TIP_PERCENTAGE } from '@/tools/calculateTip'
+
+describe('calculateTip', () => {
+  it('adds the tip to the bill, rounded to cents', () => {
+    expect(calculateTip(47.5, 18)).toEqual({
+      original_bill: 47.5,
+      tip_percentage: 18,
+      tip_amount: 8.55,
+      total_amount: 56.05,
+    })
+  })
+
+  it('applies the default percentage when none is given', () => {
+    expect(calculateTip(50)).toMatchObject({ tip_percentage: DEFAULT_TIP_PERCENTAGE, tip_amount: 10, total_amount: 60 })
+  })
+
+  it('treats a null percentage (strict mode) as not provided', () => {
+    expect(calculateTip(50, null)).toMatchObject({ tip_percentage: DEFAULT_TIP_PERCENTAGE, total_amount: 60 })
+  })
+
+  it('allows a zero tip', () => {
+    expect(calculateTip(20, 0)).toMatchObject({ tip_amount: 0, total_amount: 20 })
+  })
+
+  it.each([0, -12.5, Number.NaN, Number.POSITIVE_INFINITY])('rejects a bill of %s', (bill) => {
+    expect(calculateTip(bill, 15)).toEqual({ error: expect.stringContaining('bill_amount must be a number greater than zero') })
+  })
+
+  it('rejects a non-numeric bill', () => {
+    expect(calculateTip('50' as unknown as number)).toEqual({ error: 'bill_amount must be a number greater than zero (got "50")' })
+  })
+
+  it.each(['fifteen', '15', true, {}])('rejects the non-numeric tip percentage %j', (tip) => {
+    expect(calculateTip(50, tip as unknown as number)).toEqual({ error: expect.stringContaining('tip_percentage must be a number') })
+  })
+
+  it('rejects a negative tip percentage', () => {
+    expect(calculateTip(50, -5)).toEqual({ error: 'tip_percentage must be a number of zero or more (got -5)' })
+  })
+})
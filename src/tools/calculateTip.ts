@@ -0,0 +1,80 @@
+/**
+ * Tip calculator (Lesson 01)
+ *
+ * Runs when the model calls the `calculate_tip` function tool — in the browser,
+ * or on the dev server with "Run tools on server" on (see `src/tools/index.ts`).
+ * Invalid input returns an `{ error }` object instead of throwing, so the
+ * message goes back to the model as the function output and it can correct
+ * the call.
+ */
+
+import { defineTool } from '@/lib/toolRegistry'
+
+/** Tip applied when the user doesn't name a percentage. */
+export const DEFAULT_TIP_PERCENTAGE = 20
+
+/**
+ * Tip calculator function implementation
+ *
+ * @param bill_amount - Original bill amount; must be greater than zero
+ * @param tip_percentage - Tip percentage (defaults to 20% when omitted or null); must be zero or more
+ * @returns Object with bill details including tip and total, or `{ error }`
+ */
+export function calculateTip(bill_amount: number, tip_percentage: number | null = DEFAULT_TIP_PERCENTAGE) {
+  tip_percentage ??= DEFAULT_TIP_PERCENTAGE
+
+  // Arguments come from the model, so check them even though the schema says "number"
+  if (typeof bill_amount !== 'number' || !Number.isFinite(bill_amount) || bill_amount <= 0) {
+    return { error: `bill_amount must be a number greater than zero (got ${JSON.stringify(bill_amount)})` }
+  }
+  if (typeof tip_percentage !== 'number' || !Number.isFinite(tip_percentage) || tip_percentage < 0) {
+    return { error: `tip_percentage must be a number of zero or more (got ${JSON.stringify(tip_percentage)})` }
+  }
+
+  const tipAmount = (bill_amount * tip_percentage) / 100
+  const totalAmount = bill_amount + tipAmount
+
+  return {
+    original_bill: bill_amount,
+    tip_percentage: tip_percentage,
+    tip_amount: parseFloat(tipAmount.toFixed(2)),
+    total_amount: parseFloat(totalAmount.toFixed(2)),
+  }
+}
+
+/**
+ * Define the tip calculator function tool
+ * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ * 
+ * Following best practices:
+ * - Clear, detailed function name and descriptions
+ * - Explicit parameter descriptions with format details
+ * - Required vs optional parameters specified
+ *
+ * `defineTool` infers the handler's argument type from `parameters`:
+ * `bill_amount` is a required number, `tip_percentage` an optional one.
+ *
+ * With strict mode on, the schema is sent with both properties required and
+ * `tip_percentage` as `type: ['number', 'null']`; a `null` from the model is
+ * mapped back to "not provided" so `calculateTip` applies its 20% default.
+ */
+export const calculateTipTool = defineTool({
+  name: 'calculate_tip',
+  description: 'Calculate tip amount and total bill. Takes a bill amount and optional tip percentage (defaults to 20%).',
+  parameters: {
+    type: 'object',
+    properties: {
+      bill_amount: {
+        type: 'number',
+        description: 'The original bill amount in dollars (e.g., 50.00)',
+      },
+      tip_percentage: {
+        type: 'number',
+        description: 'The tip percentage to apply (e.g., 20 for 20%). Defaults to 20 if not provided.',
+      },
+    },
+    required: ['bill_amount'],
+    additionalProperties: false,
+  },
+  handler: ({ bill_amount, tip_percentage }) => calculateTip(bill_amount, tip_percentage),
+})
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { geocodeLocation } from '@/tools/geocodeLocation'
+
+const fetchMock = vi.fn<typeof fetch>()
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+})
+
+describe('geocodeLocation', () => {
+  it('returns the first Nominatim match', async () => {
+    fetchMock.mockResolvedValue(Response.json([{ lat: '48.8566', lon: '2.3522', display_name: 'Paris, Île-de-France, France' }]))
+
+    await expect(geocodeLocation('Paris')).resolves.toEqual({
+      location: 'Paris',
+      latitude: 48.8566,
+      longitude: 2.3522,
+      display_name: 'Paris, Île-de-France, France',
+    })
+  })
+
+  it('encodes the query and passes the abort signal', async () => {
+    fetchMock.mockResolvedValue(Response.json([{ lat: '0', lon: '0', display_name: 'Somewhere' }]))
+    const controller = new AbortController()
+
+    await geocodeLocation('Eiffel Tower, Paris', controller.signal)
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://nominatim.openstreetmap.org/search?q=Eiffel%20Tower%2C%20Paris&format=json&limit=1')
+    expect(init?.headers).toBeUndefined()
+    expect(init?.signal).toBe(controller.signal)
+  })
+
+  it('identifies itself with VITE_NOMINATIM_EMAIL when set', async () => {
+    vi.stubEnv('VITE_NOMINATIM_EMAIL', 'dev+course@example.com')
+    fetchMock.mockResolvedValue(Response.json([{ lat: '0', lon: '0', display_name: 'Somewhere' }]))
+
+    await geocodeLocation('Paris')
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://nominatim.openstreetmap.org/search?q=Paris&format=json&limit=1&email=dev%2Bcourse%40example.com'
+    )
+  })
+
+  it('reports an empty result list', async () => {
+    fetchMock.mockResolvedValue(Response.json([]))
+
+    await expect(geocodeLocation('Atlantis')).resolves.toEqual({ error: 'No results found for "Atlantis"' })
+  })
+
+  it('reports an HTTP error without reading the body as results', async () => {
+    fetchMock.mockResolvedValue(new Response('Too Many Requests', { status: 429 }))
+
+    await expect(geocodeLocation('Paris')).resolves.toEqual({ error: 'Geocoding failed: HTTP 429' })
+  })
+
+  it('reports a network error', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+    await expect(geocodeLocation('Paris')).resolves.toEqual({ error: 'Failed to geocode location: Failed to fetch' })
+  })
+
+  it('reports a response that is not JSON', async () => {
+    fetchMock.mockResolvedValue(new Response('<html>Service unavailable</html>', { status: 200 }))
+
+    await expect(geocodeLocation('Paris')).resolves.toMatchObject({ error: expect.stringMatching(/^Failed to geocode location: /) })
+  })
+
+  it('rejects a blank location without calling the API', async () => {
+    await expect(geocodeLocation('   ')).resolves.toEqual({ error: 'location must be a non-empty place name' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Geocoding tool (Lessons 02 and 03)
+ *
+ * Runs when the model calls the `geocode_location` function tool — in the
+ * browser, or on the dev server with "Run tools on server" on. Failures come
+ * back as `{ error }` so the model can tell the user or try a different place
+ * name.
+ */
+
+import { defineTool } from '@/lib/toolRegistry'
+
+/**
+ * Geocode a location using the Nominatim (OpenStreetMap) API
+ * No API key required. Nominatim asks clients to identify themselves: the
+ * browser sends its `Referer`, and `VITE_NOMINATIM_EMAIL`, when set, is added
+ * as the `email` parameter (use it when running tools on the server).
+ * See: https://nominatim.org/release-docs/develop/api/Search/
+ * See: https://operations.osmfoundation.org/policies/nominatim/
+ *
+ * @param location - City name, street address, or landmark
+ * @param signal - Aborts the lookup when the user stops the request
+ * @returns Object with location, latitude, longitude, and display_name, or `{ error }`
+ */
+export async function geocodeLocation(location: string, signal?: AbortSignal) {
+  if (typeof location !== 'string' || !location.trim()) {
+    return { error: 'location must be a non-empty place name' }
+  }
+
+  const email = import.meta.env.VITE_NOMINATIM_EMAIL
+  const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(location)}&format=json&limit=1${email ? `&email=${encodeURIComponent(email)}` : ''}`
+
+  let data
+  try {
+    const res = await fetch(url, { signal })
+    if (!res.ok) {
+      return { error: `Geocoding failed: HTTP ${res.status}` }
+    }
+    data = await res.json()
+  } catch (err) {
+    return { error: `Failed to geocode location: ${err instanceof Error ? err.message : 'Unknown error'}` }
+  }
+
+  if (!Array.isArray(data) || data.length === 0) {
+    return { error: `No results found for "${location}"` }
+  }
+
+  return {
+    location,
+    latitude: parseFloat(data[0].lat),
+    longitude: parseFloat(data[0].lon),
+    display_name: data[0].display_name,
+  }
+}
+
+/**
+ * Define the geocode_location function tool
+ * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ *
+ * Accepts city names ("Paris"), addresses ("1600 Amphitheatre Parkway, Mountain View, CA"),
+ * or landmarks ("Eiffel Tower", "Statue of Liberty").
+ */
+export const geocodeLocationTool = defineTool({
+  name: 'geocode_location',
+  description:
+    'Look up the latitude and longitude of a location. Accepts city names (e.g. "New York"), specific addresses (e.g. "1600 Amphitheatre Parkway, Mountain View, CA"), or landmarks (e.g. "Eiffel Tower").',
+  parameters: {
+    type: 'object',
+    properties: {
+      location: {
+        type: 'string',
+        description: 'The location to geocode — a city name, street address, or landmark name',
+      },
+    },
+    required: ['location'],
+    additionalProperties: false,
+  },
+  handler: ({ location }, { signal }) => geocodeLocation(location, signal),
+})
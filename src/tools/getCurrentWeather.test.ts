@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { describeWeatherCode, getCurrentWeather } from '@/tools/getCurrentWeather'
+
+const fetchMock = vi.fn<typeof fetch>()
+
+const PARIS_CURRENT = { temperature_2m: 18.4, relative_humidity_2m: 62, apparent_temperature: 17.9, weather_code: 2, wind_speed_10m: 14.2 }
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.unstubAllGlobals()
+})
+
+describe('describeWeatherCode', () => {
+  it('describes known WMO codes', () => {
+    expect(describeWeatherCode(0)).toBe('Clear sky')
+    expect(describeWeatherCode(95)).toBe('Thunderstorm')
+  })
+
+  it('falls back to the raw code for unknown ones', () => {
+    expect(describeWeatherCode(42)).toBe('Weather code 42')
+  })
+})
+
+describe('getCurrentWeather', () => {
+  it('maps the current conditions', async () => {
+    fetchMock.mockResolvedValue(Response.json({ current: PARIS_CURRENT }))
+
+    await expect(getCurrentWeather(48.8566, 2.3522)).resolves.toEqual({
+      latitude: 48.8566,
+      longitude: 2.3522,
+      temperature_celsius: 18.4,
+      feels_like_celsius: 17.9,
+      humidity_percent: 62,
+      description: 'Partly cloudy',
+      wind_speed_kmh: 14.2,
+    })
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.open-meteo.com/v1/forecast?latitude=48.8566&longitude=2.3522&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m'
+    )
+  })
+
+  it('describes an unknown weather code by its number', async () => {
+    fetchMock.mockResolvedValue(Response.json({ current: { ...PARIS_CURRENT, weather_code: 7 } }))
+
+    await expect(getCurrentWeather(48.8566, 2.3522)).resolves.toMatchObject({ description: 'Weather code 7' })
+  })
+
+  it('reports an Open-Meteo error payload', async () => {
+    fetchMock.mockResolvedValue(Response.json({ error: true, reason: 'Latitude must be in range of -90 to 90°. Given: 123.0.' }, { status: 400 }))
+
+    await expect(getCurrentWeather(123, 0)).resolves.toEqual({
+      error: 'Weather API error: Latitude must be in range of -90 to 90°. Given: 123.0.',
+    })
+  })
+
+  it('reports an error payload without a reason', async () => {
+    fetchMock.mockResolvedValue(Response.json({ error: true }, { status: 400 }))
+
+    await expect(getCurrentWeather(0, 0)).resolves.toEqual({ error: 'Weather API error: Unknown error' })
+  })
+
+  it('reports a response without current conditions', async () => {
+    fetchMock.mockResolvedValue(Response.json({ latitude: 0, longitude: 0 }))
+
+    await expect(getCurrentWeather(0, 0)).resolves.toEqual({ error: 'Weather API error: no current conditions in the response' })
+  })
+
+  it('reports network failures', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+    await expect(getCurrentWeather(0, 0)).resolves.toEqual({ error: 'Failed to fetch weather: Failed to fetch' })
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Weather tool (Lesson 03)
+ *
+ * Runs when the model calls the `get_current_weather` function tool — in the
+ * browser, or on the dev server with "Run tools on server" on. Failures — an
+ * Open-Meteo error payload or a network error — come back as `{ error }` so
+ * the model can explain what went wrong.
+ */
+
+import { defineTool } from '@/lib/toolRegistry'
+
+/**
+ * WMO weather codes as human-readable descriptions
+ * See: https://open-meteo.com/en/docs#weathervariables
+ */
+const WEATHER_DESCRIPTIONS: Record<number, string> = {
+  0: 'Clear sky', 1: 'Mainly clear', 2: 'Partly cloudy', 3: 'Overcast',
+  45: 'Foggy', 48: 'Depositing rime fog',
+  51: 'Light drizzle', 53: 'Moderate drizzle', 55: 'Dense drizzle',
+  61: 'Slight rain', 63: 'Moderate rain', 65: 'Heavy rain',
+  71: 'Slight snow', 73: 'Moderate snow', 75: 'Heavy snow',
+  80: 'Slight rain showers', 81: 'Moderate rain showers', 82: 'Violent rain showers',
+  95: 'Thunderstorm', 96: 'Thunderstorm with slight hail', 99: 'Thunderstorm with heavy hail',
+}
+
+/** Describe a WMO weather code, falling back to the raw code for ones not in the table. */
+export function describeWeatherCode(code: number) {
+  return WEATHER_DESCRIPTIONS[code] ?? `Weather code ${code}`
+}
+
+/**
+ * Fetch current weather from Open-Meteo API (no API key required)
+ * See: https://open-meteo.com/en/docs
+ *
+ * @param latitude - Latitude of the location
+ * @param longitude - Longitude of the location
+ * @param signal - Aborts the forecast request when the user stops the request
+ * @returns Object with temperature, humidity, description, and other weather data, or `{ error }`
+ */
+export async function getCurrentWeather(latitude: number, longitude: number, signal?: AbortSignal) {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m`
+
+  try {
+    const res = await fetch(url, { signal })
+    const data = await res.json()
+
+    // Open-Meteo reports bad parameters as `{ error: true, reason }` (with HTTP 400)
+    if (data.error) {
+      return { error: `Weather API error: ${data.reason || 'Unknown error'}` }
+    }
+
+    const current = data.current
+    if (!current) {
+      return { error: 'Weather API error: no current conditions in the response' }
+    }
+
+    return {
+      latitude,
+      longitude,
+      temperature_celsius: current.temperature_2m,
+      feels_like_celsius: current.apparent_temperature,
+      humidity_percent: current.relative_humidity_2m,
+      description: describeWeatherCode(current.weather_code),
+      wind_speed_kmh: current.wind_speed_10m,
+    }
+  } catch (err) {
+    return { error: `Failed to fetch weather: ${err instanceof Error ? err.message : 'Unknown error'}` }
+  }
+}
+
+/**
+ * Define the get_current_weather function tool
+ * See: https://platform.openai.com/docs/guides/function-calling#defining-functions
+ *
+ * Takes coordinates, so the model usually calls `geocode_location` first.
+ */
+export const getCurrentWeatherTool = defineTool({
+  name: 'get_current_weather',
+  description:
+    'Get the current weather for a location given its latitude and longitude. Returns temperature, humidity, and weather description.',
+  parameters: {
+    type: 'object',
+    properties: {
+      latitude: {
+        type: 'number',
+        description: 'Latitude of the location',
+      },
+      longitude: {
+        type: 'number',
+        description: 'Longitude of the location',
+      },
+    },
+    required: ['latitude', 'longitude'],
+    additionalProperties: false,
+  },
+  handler: ({ latitude, longitude }, { signal }) => getCurrentWeather(latitude, longitude, signal),
+})
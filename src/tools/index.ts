@@ -0,0 +1,25 @@
+/**
+ * Function tools that can run on the server
+ *
+ * The dev server's tool endpoint (`server/tools/vitePlugin.ts`) loads this
+ * module and executes calls with `executeServerTool`, validating the
+ * arguments against the built-in schemas below.
+ */
+
+import { createToolRegistry } from '@/lib/toolRegistry'
+import type { ToolCallOutcome, ToolContext } from '@/lib/toolRegistry'
+import { calculateTipTool } from '@/tools/calculateTip'
+import { geocodeLocationTool } from '@/tools/geocodeLocation'
+import { getCurrentWeatherTool } from '@/tools/getCurrentWeather'
+
+export const serverToolRegistry = createToolRegistry([calculateTipTool, geocodeLocationTool, getCurrentWeatherTool])
+
+/**
+ * Execute a call from `serverToolRunner`. The arguments are always validated
+ * against the tool's schema here, never one sent with the request: a page's
+ * edited schema (or a hand-made request) could otherwise let arguments the
+ * handler doesn't expect through to Nominatim and Open-Meteo.
+ */
+export function executeServerTool(name: string, rawArguments: string, context: ToolContext): Promise<ToolCallOutcome> {
+  return serverToolRegistry.execute(name, rawArguments, context)
+}
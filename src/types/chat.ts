@@ -3,13 +3,28 @@
  * Based on SPEC.md requirements
  */
 
+import type OpenAI from 'openai'
+import type { PlaygroundConfig } from '@/lib/playgroundConfig'
+
 export interface FunctionCall {
+  /** `call_id` of the model's `function_call` item, when this is a live tool call */
+  callId?: string
+  /** Label of the MCP server, for `mcp_approval_request` items (approve / reject only) */
+  serverLabel?: string
   name: string
   arguments: string
-  status: 'executing' | 'completed' | 'error'
+  status: 'pending-approval' | 'executing' | 'completed' | 'error' | 'rejected'
   response?: any
 }
 
+/**
+ * The user's decision on a function call awaiting approval.
+ * Approving with `arguments` runs the call with the edited JSON string.
+ */
+export type ApprovalDecision =
+  | { action: 'approve'; arguments?: string }
+  | { action: 'reject'; reason?: string }
+
 /**
  * Represents a single step in the API trace timeline.
  * Steps are added incrementally during the function-calling loop
@@ -30,4 +45,15 @@ export interface Message {
   functionResponse?: any
   responseOutput?: unknown
   rawResponse?: any
+  /**
+   * Responses API items this assistant turn added to the conversation: each
+   * round's output (including `function_call` items), the `function_call_output`
+   * items and the final output. Replayed instead of `content` on later turns.
+   */
+  inputItems?: OpenAI.Responses.ResponseInputItem[]
+  /**
+   * The instructions and tools a user message was sent with, including edits
+   * from the instructions editor. Kept so exports show what was actually sent.
+   */
+  request?: PlaygroundConfig
 }
@@ -1,7 +1,11 @@
+/// <reference types="vitest/config" />
 import path from "path"
 import tailwindcss from "@tailwindcss/vite"
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { openaiFixtures } from './server/fixtures/vitePlugin.ts'
+import { openaiProxy } from './server/openai-proxy/vitePlugin.ts'
+import { toolServer } from './server/tools/vitePlugin.ts'
 
 // https://vite.dev/config/
 export default defineConfig({
@@ -11,11 +15,18 @@ export default defineConfig({
         plugins: [['babel-plugin-react-compiler']],
       },
     }),
-    tailwindcss()
+    tailwindcss(),
+    openaiFixtures(),
+    openaiProxy(),
+    toolServer(),
   ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
-  }
+  },
+  // Unit tests live next to the code they cover; Playwright owns `e2e/`
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
 })